@@ -7,8 +7,11 @@ import { makeCompoundPlugin } from './rate/compound'
 import { makeConstantRatePlugin } from './rate/constantRate'
 import { makeCurrencyconverterapiPlugin } from './rate/currencyconverterapi'
 import { makeEdgeRatesPlugin } from './rate/edgeRates'
+import { makeMedianRatePlugin } from './rate/medianRate'
 import { makeNomicsPlugin } from './rate/nomics'
 import { makeWazirxPlugin } from './rate/wazirx'
+import { makeThorchainSaversPlugin } from './stake/thorchainSavers'
+import { makeBestQuotePlugin } from './swap/bestQuote'
 import { makeChangeHeroPlugin } from './swap/changehero'
 import { makeChangeNowPlugin } from './swap/changenow'
 import { makeLifiPlugin } from './swap/defi/lifi'
@@ -35,10 +38,12 @@ const edgeCorePlugins = {
   constantRate: makeConstantRatePlugin,
   currencyconverterapi: makeCurrencyconverterapiPlugin,
   edgeRates: makeEdgeRatesPlugin,
+  medianRate: makeMedianRatePlugin,
   nomics: makeNomicsPlugin,
   wazirx: makeWazirxPlugin,
 
   // Swap plugins:
+  bestquote: makeBestQuotePlugin,
   changehero: makeChangeHeroPlugin,
   changenow: makeChangeNowPlugin,
   exolix: makeExolixPlugin,
@@ -63,3 +68,6 @@ if (
 }
 
 export default edgeCorePlugins
+
+// The core has no staking plugin type, so the GUI uses this directly:
+export { makeThorchainSaversPlugin }
@@ -1,5 +1,17 @@
 import { asMap, asObject, asString } from 'cleaners'
-import { EdgeCorePluginOptions, EdgeRatePlugin } from 'edge-core-js/types'
+import {
+  EdgeCorePluginOptions,
+  EdgeRateHint,
+  EdgeRatePair
+} from 'edge-core-js/types'
+
+import {
+  HistoricalRateHint,
+  HistoricalRatePair,
+  HistoricalRatePlugin,
+  makeHistoricalRateFetcher,
+  splitRateHints
+} from '../util/historicalRates'
 
 const asCoinbaseResponse = asObject({
   data: asObject({
@@ -7,41 +19,71 @@ const asCoinbaseResponse = asObject({
   })
 })
 
+const asCoinbasePrice = asObject({
+  data: asObject({
+    amount: asString
+  })
+})
+
 export function makeCoinbasePlugin(
   opts: EdgeCorePluginOptions
-): EdgeRatePlugin {
+): HistoricalRatePlugin {
   const { io, log } = opts
 
+  const fetchHistoricalRates = makeHistoricalRateFetcher(
+    opts,
+    async (hint: EdgeRateHint, day: string) => {
+      const fromCode = hint.fromCurrency.replace('iso:', '')
+      const toCode = hint.toCurrency.replace('iso:', '')
+      const reply = await io.fetch(
+        `https://api.coinbase.com/v2/prices/${fromCode}-${toCode}/spot?date=${day}`
+      )
+      if (reply.status === 404) return
+      if (!reply.ok) throw new Error(`Coinbase returned ${reply.status}`)
+      return Number(asCoinbasePrice(await reply.json()).data.amount)
+    }
+  )
+
+  async function fetchSpotRates(
+    pairsHint: EdgeRateHint[]
+  ): Promise<EdgeRatePair[]> {
+    const pairs = []
+    try {
+      const reply = await io.fetch('https://api.coinbase.com/v2/exchange-rates')
+      const json = await reply.json()
+      const cleanJson = asCoinbaseResponse(json)
+      for (const pair of pairsHint) {
+        const cc = pair.fromCurrency
+        if (cleanJson.data.rates[cc] == null || cleanJson.data.rates[cc] === '')
+          continue
+        const rate = Number(cleanJson.data.rates[cc])
+        pairs.push({
+          fromCurrency: 'iso:USD',
+          toCurrency: cc,
+          rate
+        })
+      }
+    } catch (e) {
+      log.warn(`Issue with Coinbase rate data structure ${String(e)}`)
+    }
+    return pairs
+  }
+
   return {
     rateInfo: {
       pluginId: 'coinbase',
       displayName: 'Coinbase'
     },
 
-    async fetchRates(pairsHint) {
-      const pairs = []
-      try {
-        const reply = await io.fetch(
-          'https://api.coinbase.com/v2/exchange-rates'
-        )
-        const json = await reply.json()
-        const cleanJson = asCoinbaseResponse(json)
-        for (const pair of pairsHint) {
-          const cc = pair.fromCurrency
-          if (
-            cleanJson.data.rates[cc] == null ||
-            cleanJson.data.rates[cc] === ''
-          )
-            continue
-          const rate = Number(cleanJson.data.rates[cc])
-          pairs.push({
-            fromCurrency: 'iso:USD',
-            toCurrency: cc,
-            rate
-          })
-        }
-      } catch (e) {
-        log.warn(`Issue with Coinbase rate data structure ${String(e)}`)
+    async fetchRates(
+      pairsHint: HistoricalRateHint[]
+    ): Promise<HistoricalRatePair[]> {
+      const { spotHints, historicalHints } = splitRateHints(pairsHint)
+      const pairs: HistoricalRatePair[] = await fetchHistoricalRates(
+        historicalHints
+      )
+      if (spotHints.length > 0 || historicalHints.length === 0) {
+        pairs.push(...(await fetchSpotRates(spotHints)))
       }
       return pairs
     }
@@ -1,5 +1,13 @@
 import { asArray, asNumber, asObject, asOptional, asString } from 'cleaners'
-import { EdgeCorePluginOptions, EdgeRatePlugin } from 'edge-core-js/types'
+import { EdgeCorePluginOptions, EdgeRateHint } from 'edge-core-js/types'
+
+import {
+  HistoricalRateHint,
+  HistoricalRatePair,
+  HistoricalRatePlugin,
+  makeHistoricalRateFetcher,
+  splitRateHints
+} from '../util/historicalRates'
 
 const asCoincapResponse = asObject({
   data: asArray(
@@ -15,6 +23,14 @@ const asCoincapError = asObject({
   timestamp: asNumber
 })
 
+const asCoincapHistory = asObject({
+  data: asArray(
+    asObject({
+      priceUsd: asString
+    })
+  )
+})
+
 const asCoincapAssets = asArray(
   asObject({
     id: asString,
@@ -30,74 +46,114 @@ interface RatePair {
 
 const currencyMap: { [symbol: string]: string } = {}
 
-export function makeCoincapPlugin(opts: EdgeCorePluginOptions): EdgeRatePlugin {
+export function makeCoincapPlugin(
+  opts: EdgeCorePluginOptions
+): HistoricalRatePlugin {
   const { io, log } = opts
   const fetch = io.fetchCors ?? io.fetch
 
-  return {
-    rateInfo: {
-      pluginId: 'coincap',
-      displayName: 'Coincap'
-    },
+  // Create unique ID map
+  async function loadCurrencyMap(): Promise<void> {
+    if (Object.keys(currencyMap).length === 0) {
+      const assets = await fetch(`https://api.coincap.io/v2/assets/`)
+      const assetsJson = await assets.json()
+      const assetIds = asCoincapAssets(assetsJson.data)
+      assetIds.forEach(code => (currencyMap[code.symbol] = code.id))
+    }
+  }
+
+  const fetchHistoricalRates = makeHistoricalRateFetcher(
+    opts,
+    async (hint: EdgeRateHint, day: string) => {
+      // Coincap only provides prices in USD
+      if (hint.toCurrency !== 'iso:USD') return
+      await loadCurrencyMap()
+      const id = currencyMap[hint.fromCurrency]
+      if (id == null || id === '') return
+
+      const start = Date.parse(day)
+      const end = start + 24 * 60 * 60 * 1000
+      const reply = await fetch(
+        `https://api.coincap.io/v2/assets/${id}/history?interval=d1&start=${start}&end=${end}`
+      )
+      if (!reply.ok) throw new Error(`Coincap returned ${reply.status}`)
+      const { data } = asCoincapHistory(await reply.json())
+      if (data.length === 0) return
+      return Number(data[0].priceUsd)
+    }
+  )
+
+  async function fetchSpotRates(
+    pairsHint: EdgeRateHint[]
+  ): Promise<RatePair[]> {
+    const pairs: RatePair[] = []
+    await loadCurrencyMap()
 
-    async fetchRates(pairsHint): Promise<RatePair[]> {
-      const pairs: RatePair[] = []
-      // Create unique ID map
-      if (Object.keys(currencyMap).length === 0) {
-        const assets = await fetch(`https://api.coincap.io/v2/assets/`)
-        const assetsJson = await assets.json()
-        const assetIds = asCoincapAssets(assetsJson.data)
-        assetIds.forEach(code => (currencyMap[code.symbol] = code.id))
+    // Create query strings
+    const queryStrings = []
+    let filteredPairs: string[] = []
+    for (let i = 0; i < pairsHint.length; i++) {
+      if (
+        currencyMap[pairsHint[i].fromCurrency] === '' ||
+        currencyMap[pairsHint[i].fromCurrency] == null
+      )
+        continue
+      if (pairsHint[i].fromCurrency.includes('iso:')) continue
+      if (
+        filteredPairs.some(cc => cc === currencyMap[pairsHint[i].fromCurrency])
+      )
+        continue
+      filteredPairs.push(currencyMap[pairsHint[i].fromCurrency])
+      if (filteredPairs.length === 100 || i === pairsHint.length - 1) {
+        queryStrings.push(filteredPairs.join(','))
+        filteredPairs = []
       }
+    }
 
-      // Create query strings
-      const queryStrings = []
-      let filteredPairs: string[] = []
-      for (let i = 0; i < pairsHint.length; i++) {
-        if (
-          currencyMap[pairsHint[i].fromCurrency] === '' ||
-          currencyMap[pairsHint[i].fromCurrency] == null
+    for (const query of queryStrings) {
+      // Coincap only provides prices in USD
+      try {
+        const reply = await fetch(
+          `https://api.coincap.io/v2/assets?ids=${query}`
         )
-          continue
-        if (pairsHint[i].fromCurrency.includes('iso:')) continue
-        if (
-          filteredPairs.some(
-            cc => cc === currencyMap[pairsHint[i].fromCurrency]
+        const json = await reply.json()
+        const { error } = asCoincapError(json)
+        if ((error != null && error !== '') || !reply.ok) {
+          throw new Error(
+            `CoincapHistorical returned code ${JSON.stringify(
+              error ?? reply.status
+            )}`
           )
-        )
-          continue
-        filteredPairs.push(currencyMap[pairsHint[i].fromCurrency])
-        if (filteredPairs.length === 100 || i === pairsHint.length - 1) {
-          queryStrings.push(filteredPairs.join(','))
-          filteredPairs = []
         }
+        asCoincapResponse(json).data.forEach(rate =>
+          pairs.push({
+            fromCurrency: rate.symbol,
+            toCurrency: 'iso:USD',
+            rate: Number(rate.priceUsd)
+          })
+        )
+      } catch (e) {
+        log.warn(`Issue with Coincap rate data structure ${String(e)}`)
       }
+    }
+    return pairs
+  }
 
-      for (const query of queryStrings) {
-        // Coincap only provides prices in USD
-        try {
-          const reply = await fetch(
-            `https://api.coincap.io/v2/assets?ids=${query}`
-          )
-          const json = await reply.json()
-          const { error } = asCoincapError(json)
-          if ((error != null && error !== '') || !reply.ok) {
-            throw new Error(
-              `CoincapHistorical returned code ${JSON.stringify(
-                error ?? reply.status
-              )}`
-            )
-          }
-          asCoincapResponse(json).data.forEach(rate =>
-            pairs.push({
-              fromCurrency: rate.symbol,
-              toCurrency: 'iso:USD',
-              rate: Number(rate.priceUsd)
-            })
-          )
-        } catch (e) {
-          log.warn(`Issue with Coincap rate data structure ${String(e)}`)
-        }
+  return {
+    rateInfo: {
+      pluginId: 'coincap',
+      displayName: 'Coincap'
+    },
+
+    async fetchRates(
+      pairsHint: HistoricalRateHint[]
+    ): Promise<HistoricalRatePair[]> {
+      const { spotHints, historicalHints } = splitRateHints(pairsHint)
+      const pairs: HistoricalRatePair[] = await fetchHistoricalRates(
+        historicalHints
+      )
+      if (spotHints.length > 0 || historicalHints.length === 0) {
+        pairs.push(...(await fetchSpotRates(spotHints)))
       }
       return pairs
     }
@@ -1,161 +1,328 @@
-import { asMap, asNumber, asObject } from 'cleaners'
 import {
-  EdgeCorePluginOptions,
-  EdgeRateHint,
-  EdgeRatePair,
-  EdgeRatePlugin
-} from 'edge-core-js/types'
+  asArray,
+  asMap,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+import { EdgeCorePluginOptions } from 'edge-core-js/types'
 
-const asGeckoBulkUsdReply = asMap(asObject({ usd: asNumber }))
+import {
+  HistoricalRateHint,
+  HistoricalRatePair,
+  HistoricalRatePlugin,
+  makeHistoricalRateFetcher,
+  splitRateHints
+} from '../util/historicalRates'
+
+const COIN_LIST_UPDATE_FREQ_MS = 24 * 60 * 60 * 1000
+const COIN_LIST_RETRY_MS = 60 * 1000
+
+const asInitOptions = asObject({
+  // Maps currency codes or contract addresses to CoinGecko ids:
+  coinGeckoIds: asOptional(asMap(asString), {})
+})
+
+const asGeckoBulkReply = asMap(asMap(asNumber))
+
+const asGeckoHistoryReply = asObject({
+  market_data: asOptional(
+    asObject({
+      current_price: asMap(asNumber)
+    })
+  )
+})
+
+const asGeckoCoinList = asArray(
+  asObject({
+    id: asString,
+    symbol: asString,
+    platforms: asOptional(asMap(asOptional(asString)), {})
+  })
+)
+
+const asGeckoVsCurrencies = asArray(asString)
+
+const asCoinListCache = asObject({
+  coins: asGeckoCoinList,
+  vsCurrencies: asGeckoVsCurrencies,
+  timestamp: asOptional(asNumber, 0)
+})
+
+type CoinListCache = ReturnType<typeof asCoinListCache>
+
+/**
+ * A rate hint that can also identify a token by its contract address,
+ * since token tickers are far from unique.
+ */
+export interface CoinGeckoRateHint extends HistoricalRateHint {
+  contractAddress?: string
+}
+
+export interface CoinGeckoRatePlugin extends HistoricalRatePlugin {
+  readonly fetchRates: (
+    hints: CoinGeckoRateHint[]
+  ) => Promise<HistoricalRatePair[]>
+}
+
+/**
+ * Lookup tables built from CoinGecko's coin list.
+ */
+interface CoinIndex {
+  byContract: Map<string, string>
+  byTicker: Map<string, string[]>
+  mainnetsByTicker: Map<string, string[]>
+  vsCurrencies: Set<string>
+}
 
-const coinGeckoMap: { [ccode: string]: string } = {
-  TLOS: 'telos',
-  FIRO: 'zcoin',
+// Tickers that the coin list can't resolve on its own,
+// because several coins share the same symbol.
+// Hints without a contract address fall back on these:
+const defaultCoinGeckoIds: { [currencyCode: string]: string } = {
   ANT: 'aragon',
   TBTC: 'tbtc',
-  FIO: 'fio-protocol',
-  VTC: 'vertcoin',
   SMART: 'smartcash',
-  GRS: 'groestlcoin',
   FUN: 'funfair',
-  BADGER: 'badger-dao',
-  CREAM: 'cream-2',
-  CVP: 'concentrated-voting-power',
-  DOUGH: 'piedao-dough-v2',
-  ETHBNT: 'ethbnt',
   SUSD: 'nusd',
   USDS: 'stableusd',
   TUSD: 'true-usd',
   GUSD: 'gemini-dollar',
-  YETI: 'yearn-ecosystem-token-index',
   PAX: 'paxos-standard',
   RBTC: 'rootstock',
-  RIF: 'rif-token',
   FTC: 'feathercoin',
-  GLM: 'golem',
-  GNO: 'gnosis',
-  STORJ: 'storj',
   BTC: 'bitcoin',
   ETH: 'ethereum',
   BCH: 'bitcoin-cash',
   BNB: 'binancecoin',
-  EOS: 'eos',
   ETC: 'ethereum-classic',
-  XLM: 'stellar',
-  XTZ: 'tezos',
-  XRP: 'ripple',
-  BTG: 'bitcoin-gold',
-  BSV: 'bitcoin-cash-sv',
-  DASH: 'dash',
-  DGB: 'digibyte',
-  DOGE: 'dogecoin',
-  EBST: 'eboost',
-  LTC: 'litecoin',
-  QTUM: 'qtum',
-  RVN: 'ravencoin',
   UFO: 'ufocoin',
-  XMR: 'monero',
-  REP: 'augur',
   DAI: 'dai',
-  SAI: 'sai',
-  WINGS: 'wings',
   USDT: 'tether',
   IND: 'indorse',
-  HUR: 'hurify',
-  BAT: 'basic-attention-token',
-  BNT: 'bancor',
-  KNC: 'kyber-network',
-  POLY: 'polymath-network',
   USDC: 'usd-coin',
-  ZRX: '0x',
-  OMG: 'omisego',
-  NMR: 'numeraire',
-  MKR: 'maker',
   SALT: 'salt',
-  MANA: 'decentraland',
-  NEXO: 'nexo',
   KIN: 'kin',
-  LINK: 'chainlink',
-  BRZ: 'brz',
-  CREP: 'compound-augur',
-  CUSDC: 'compound-usd-coin',
-  CETH: 'compound-ether',
-  CBAT: 'compound-basic-attention-token',
-  CZRX: 'compound-0x',
-  CWBTC: 'compound-wrapped-btc',
-  CSAI: 'compound-sai',
-  CDAI: 'cdai',
-  OXT: 'orchid-protocol',
-  COMP: 'compound-governance-token',
   MET: 'metronome',
-  SNX: 'havven',
-  SBTC: 'sbtc',
-  AAVE: 'aave',
   WBTC: 'wrapped-bitcoin',
-  YFI: 'yearn-finance',
-  CRV: 'curve-dao-token',
-  BAL: 'balancer',
-  SUSHI: 'sushi',
-  UMA: 'uma',
-  IDLE: 'idle',
-  NXM: 'nxm',
-  PICKLE: 'pickle-finance',
-  ROOK: 'rook',
-  INDEX: 'index-cooperative',
   WETH: 'weth',
-  RENBTC: 'renbtc',
-  RENBCH: 'renbch',
-  RENZEC: 'renzec',
-  DPI: 'defipulse-index',
-  BAND: 'band-protocol',
-  REN: 'republic-protocol',
-  AMPL: 'ampleforth',
-  HBAR: 'hedera-hashgraph',
-  OCEAN: 'ocean-protocol',
-  AVAX: 'avalanche-2',
-  MATIC: 'matic-network',
-  PNG: 'pangolin',
-  PEFI: 'penguin-finance',
-  XAVA: 'avalaunch',
-  BIFI: 'beefy-finance',
-  YAK: 'yield-yak',
-  JOE: 'joe',
   TIME: 'wonderland',
-  SPELL: 'spell-token',
-  FXS: 'frax-share',
   MIM: 'magic-internet-money',
   BUSD: 'binance-usd',
   UNI: 'uniswap',
-  BOO: 'spookyswap',
-  FTM: 'fantom',
-  TSHARE: 'tomb-shares',
-  TOMB: 'tomb',
   MAI: 'mimatic',
-  CELO: 'celo',
-  CUSD: 'celo-dollar',
-  CEUR: 'celo-euro',
-  AYFI: 'aave-yfi',
-  ALINK: 'aave-link',
-  ADAI: 'aave-dai',
-  ABAT: 'aave-bat',
-  AWETH: 'aave-weth',
-  AWBTC: 'aave-wbtc',
-  ASNX: 'aave-snx',
-  AREN: 'aave-ren',
-  AUSDT: 'aave-usdt',
-  AMKR: 'aave-mkr',
-  AMANA: 'aave-mana',
-  AZRX: 'aave-zrx',
-  AKNC: 'aave-knc',
-  AUSDC: 'aave-usdc',
-  ASUSD: 'aave-susd',
-  AUNI: 'aave-uni'
+  CUSD: 'celo-dollar'
 }
 
+const addIndexEntry = (
+  map: Map<string, string[]>,
+  key: string,
+  id: string
+): void => {
+  const ids = map.get(key)
+  if (ids == null) map.set(key, [id])
+  else ids.push(id)
+}
+
+const makeCoinIndex = (cache: CoinListCache): CoinIndex => {
+  const index: CoinIndex = {
+    byContract: new Map(),
+    byTicker: new Map(),
+    mainnetsByTicker: new Map(),
+    vsCurrencies: new Set(cache.vsCurrencies)
+  }
+  for (const { id, symbol, platforms } of cache.coins) {
+    const ticker = symbol.toUpperCase()
+    addIndexEntry(index.byTicker, ticker, id)
+
+    let isToken = false
+    for (const platform of Object.keys(platforms)) {
+      const contractAddress = platforms[platform]
+      if (contractAddress == null || contractAddress === '') continue
+      index.byContract.set(contractAddress.toLowerCase(), id)
+      isToken = true
+    }
+    if (!isToken) addIndexEntry(index.mainnetsByTicker, ticker, id)
+  }
+  return index
+}
+
+const getUnique = (ids: string[] | undefined): string | undefined =>
+  ids != null && ids.length === 1 ? ids[0] : undefined
+
 export function makeCoinGeckoPlugin(
   opts: EdgeCorePluginOptions
-): EdgeRatePlugin {
-  const { io, log } = opts
+): CoinGeckoRatePlugin {
+  const { io, log, pluginDisklet } = opts
+  const { coinGeckoIds } = asInitOptions(opts.initOptions)
+
+  let coinIndex: CoinIndex | undefined
+  let lastUpdate = 0
+  let lastAttempt = 0
+  let loading: Promise<void> | undefined
+  let pending: Promise<void> | undefined
+
+  async function loadCoinIndex(): Promise<void> {
+    try {
+      const text = await pluginDisklet.getText('coinList.json')
+      const cache = asCoinListCache(JSON.parse(text))
+      coinIndex = makeCoinIndex(cache)
+      lastUpdate = cache.timestamp
+    } catch (e) {}
+  }
+
+  async function refreshCoinIndex(): Promise<void> {
+    lastAttempt = Date.now()
+    try {
+      const [coinsReply, vsReply] = await Promise.all([
+        io.fetch(
+          'https://api.coingecko.com/api/v3/coins/list?include_platform=true'
+        ),
+        io.fetch(
+          'https://api.coingecko.com/api/v3/simple/supported_vs_currencies'
+        )
+      ])
+      if (!coinsReply.ok || !vsReply.ok) {
+        throw new Error(`Coingecko returned ${coinsReply.status}`)
+      }
+      const cache: CoinListCache = {
+        coins: asGeckoCoinList(await coinsReply.json()),
+        vsCurrencies: asGeckoVsCurrencies(await vsReply.json()),
+        timestamp: Date.now()
+      }
+      coinIndex = makeCoinIndex(cache)
+      lastUpdate = cache.timestamp
+      await pluginDisklet
+        .setText('coinList.json', JSON.stringify(cache))
+        .catch(e => log.warn(`Error saving coinList.json: ${String(e)}`))
+    } catch (e) {
+      log.warn(`Issue with Coingecko coin list ${String(e)}`)
+    }
+  }
+
+  /**
+   * Starts from the copy on disk, so only the very first run
+   * needs to wait for the coin list to download.
+   * After that, stale lists refresh in the background.
+   */
+  async function getCoinIndex(): Promise<CoinIndex | undefined> {
+    if (loading == null) loading = loadCoinIndex()
+    await loading
+
+    const now = Date.now()
+    if (
+      pending == null &&
+      now - lastUpdate > COIN_LIST_UPDATE_FREQ_MS &&
+      now - lastAttempt > COIN_LIST_RETRY_MS
+    ) {
+      pending = refreshCoinIndex().finally(() => {
+        pending = undefined
+      })
+    }
+    if (coinIndex == null && pending != null) await pending
+    return coinIndex
+  }
+
+  /**
+   * Finds the CoinGecko id for a hint, checking the overrides first,
+   * then the contract address for tokens, and finally the ticker.
+   */
+  function resolveId(
+    hint: CoinGeckoRateHint,
+    index: CoinIndex | undefined
+  ): string | undefined {
+    const { contractAddress, fromCurrency } = hint
+    const address = contractAddress?.toLowerCase()
+
+    if (address != null && coinGeckoIds[address] != null) {
+      return coinGeckoIds[address]
+    }
+    if (coinGeckoIds[fromCurrency] != null) return coinGeckoIds[fromCurrency]
+    if (address != null) return index?.byContract.get(address)
+    if (defaultCoinGeckoIds[fromCurrency] != null) {
+      return defaultCoinGeckoIds[fromCurrency]
+    }
+    return (
+      getUnique(index?.mainnetsByTicker.get(fromCurrency)) ??
+      getUnique(index?.byTicker.get(fromCurrency))
+    )
+  }
+
+  const fetchHistoricalRates = makeHistoricalRateFetcher(
+    opts,
+    async (hint: CoinGeckoRateHint, day: string) => {
+      const id = resolveId(hint, await getCoinIndex())
+      if (id == null || !hint.toCurrency.startsWith('iso:')) return
+      const fiat = hint.toCurrency.slice(4).toLowerCase()
+
+      // Coingecko wants the date as DD-MM-YYYY:
+      const date = day.split('-').reverse().join('-')
+      const reply = await io.fetch(
+        `https://api.coingecko.com/api/v3/coins/${id}/history?date=${date}&localization=false`
+      )
+      if (!reply.ok) throw new Error(`Coingecko returned ${reply.status}`)
+      const json = asGeckoHistoryReply(await reply.json())
+      return json.market_data?.current_price[fiat]
+    }
+  )
+
+  async function fetchSpotRates(
+    pairsHint: CoinGeckoRateHint[]
+  ): Promise<HistoricalRatePair[]> {
+    if (pairsHint.length === 0) return []
+    const index = await getCoinIndex()
+
+    // Quote in the hinted fiat when Coingecko has it, and USD otherwise:
+    const queries: Array<{
+      fromCurrency: string
+      id: string
+      fiat: string
+    }> = []
+    for (const hint of pairsHint) {
+      const id = resolveId(hint, index)
+      if (id == null) continue
+      const fiat = hint.toCurrency.startsWith('iso:')
+        ? hint.toCurrency.slice(4).toLowerCase()
+        : 'usd'
+      queries.push({
+        fromCurrency: hint.fromCurrency,
+        id,
+        fiat: index?.vsCurrencies.has(fiat) === true ? fiat : 'usd'
+      })
+    }
+    if (queries.length === 0) return []
+
+    const ids = Array.from(new Set(queries.map(query => query.id)))
+    const fiats = Array.from(new Set(queries.map(query => query.fiat)))
+    const pairs: HistoricalRatePair[] = []
+    try {
+      const reply = await io.fetch(
+        `https://api.coingecko.com/api/v3/simple/price?ids=${ids.join(
+          ','
+        )}&vs_currencies=${fiats.join(',')}`
+      )
+      const json = await reply.json()
+      const rates = asGeckoBulkReply(json)
+      for (const { fromCurrency, id, fiat } of queries) {
+        const rate = rates[id]?.[fiat]
+        const toCurrency = `iso:${fiat.toUpperCase()}`
+        if (rate == null) continue
+        if (
+          pairs.some(
+            pair =>
+              pair.fromCurrency === fromCurrency &&
+              pair.toCurrency === toCurrency
+          )
+        ) {
+          continue
+        }
+        pairs.push({ fromCurrency, toCurrency, rate })
+      }
+    } catch (e) {
+      log.warn(`Issue with Coingecko rate data structure ${String(e)}`)
+    }
+    return pairs
+  }
 
   return {
     rateInfo: {
@@ -163,36 +330,14 @@ export function makeCoinGeckoPlugin(
       pluginId: 'coingecko'
     },
 
-    async fetchRates(pairsHint: EdgeRateHint[]): Promise<EdgeRatePair[]> {
-      const pairs: EdgeRatePair[] = []
-      const query = []
-      for (const pair of pairsHint) {
-        // Coingecko is only used to query specific currencies
-        if (coinGeckoMap[pair.fromCurrency] != null)
-          query.push(coinGeckoMap[pair.fromCurrency])
-      }
-      try {
-        const reply = await io.fetch(
-          `https://api.coingecko.com/api/v3/simple/price?ids=${query.join(
-            ','
-          )}&vs_currencies=usd`
-        )
-        const json = await reply.json()
-        const rates = asGeckoBulkUsdReply(json)
-        Object.keys(rates).forEach(rate => {
-          const fromCurrency = Object.keys(coinGeckoMap).find(
-            key => typeof key === 'string' && coinGeckoMap[key] === rate
-          )
-          if (fromCurrency != null)
-            pairs.push({
-              fromCurrency,
-              toCurrency: 'iso:USD',
-              rate: rates[rate].usd
-            })
-        })
-      } catch (e) {
-        log.warn(`Issue with Coingecko rate data structure ${String(e)}`)
-      }
+    async fetchRates(
+      pairsHint: CoinGeckoRateHint[]
+    ): Promise<HistoricalRatePair[]> {
+      const { spotHints, historicalHints } = splitRateHints(pairsHint)
+      const pairs: HistoricalRatePair[] = await fetchHistoricalRates(
+        historicalHints
+      )
+      pairs.push(...(await fetchSpotRates(spotHints)))
       return pairs
     }
   }
@@ -1,5 +1,17 @@
 import { asObject, asString } from 'cleaners'
-import { EdgeCorePluginOptions, EdgeRatePlugin } from 'edge-core-js/types'
+import {
+  EdgeCorePluginOptions,
+  EdgeFetchFunction,
+  EdgeRateHint
+} from 'edge-core-js/types'
+
+import {
+  getHintDay,
+  HistoricalRateHint,
+  HistoricalRatePair,
+  HistoricalRatePlugin,
+  makeHistoricalRateFetcher
+} from '../util/historicalRates'
 
 const asEdgeRatesResponse = asObject({
   exchangeRate: asString
@@ -10,33 +22,68 @@ function checkIfFiat(code: string): boolean {
   return false
 }
 
+/**
+ * Looks up a fiat rate, either now or on a past day.
+ */
+async function fetchEdgeRate(
+  fetch: EdgeFetchFunction,
+  hint: EdgeRateHint,
+  day?: string
+): Promise<number> {
+  const fiatFrom = hint.fromCurrency.split(':')
+  const fiatTo = hint.toCurrency.split(':')
+  const dateParam = day != null ? `&date=${day}` : ''
+  const reply = await fetch(
+    `https://rates1.edge.app/v1/exchangeRate?currency_pair=${fiatFrom[1]}_${fiatTo[1]}${dateParam}`
+  )
+  if (!reply.ok) {
+    throw new Error(`EdgeRates returned error code ${reply.status}`)
+  }
+  const jsonData = await reply.json()
+  const rate = Number(asEdgeRatesResponse(jsonData).exchangeRate)
+  if (!isFinite(rate)) {
+    throw new Error(`EdgeRates returned an invalid rate ${String(rate)}`)
+  }
+  return rate
+}
+
 export function makeEdgeRatesPlugin(
   opts: EdgeCorePluginOptions
-): EdgeRatePlugin {
+): HistoricalRatePlugin {
   const { io, log } = opts
   const { fetch } = io
 
+  const fetchHistoricalRates = makeHistoricalRateFetcher(
+    opts,
+    async (hint: EdgeRateHint, day: string) =>
+      await fetchEdgeRate(fetch, hint, day)
+  )
+
   return {
     rateInfo: {
       pluginId: 'edgeRates',
       displayName: 'EdgeRates'
     },
 
-    async fetchRates(pairsHint) {
-      const pairs = []
+    async fetchRates(
+      pairsHint: HistoricalRateHint[]
+    ): Promise<HistoricalRatePair[]> {
+      const pairs: HistoricalRatePair[] = []
+      const historicalHints = []
       for (const pair of pairsHint) {
         // Skip if neither code is a fiat code
         if (!checkIfFiat(pair.fromCurrency) || !checkIfFiat(pair.toCurrency))
           continue
 
-        const fiatFrom = pair.fromCurrency.split(':')
-        const fiatTo = pair.toCurrency.split(':')
+        const day = getHintDay(pair)
+        if (day != null) {
+          const { fromCurrency, toCurrency } = pair
+          historicalHints.push({ hint: { fromCurrency, toCurrency }, day })
+          continue
+        }
+
         try {
-          const reply = await fetch(
-            `https://rates1.edge.app/v1/exchangeRate?currency_pair=${fiatFrom[1]}_${fiatTo[1]}`
-          )
-          const jsonData = await reply.json()
-          const rate = Number(asEdgeRatesResponse(jsonData).exchangeRate)
+          const rate = await fetchEdgeRate(fetch, pair)
           pairs.push({
             fromCurrency: pair.fromCurrency,
             toCurrency: pair.toCurrency,
@@ -50,6 +97,7 @@ export function makeEdgeRatesPlugin(
           )
         }
       }
+      pairs.push(...(await fetchHistoricalRates(historicalHints)))
       return pairs
     }
   }
@@ -0,0 +1,217 @@
+import {
+  asBoolean,
+  asEither,
+  asMap,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeRateHint,
+  EdgeRatePair,
+  EdgeRatePlugin,
+  JsonObject
+} from 'edge-core-js/types'
+
+import { promiseWithTimeout } from '../util/utils'
+import { makeBitMaxPlugin } from './bitmax'
+import { makeCoinbasePlugin } from './coinbase'
+import { makeCoincapPlugin } from './coincap'
+import { makeCoinGeckoPlugin } from './coingecko'
+import { makeCoinmonitorPlugin } from './coinmonitor'
+import { makeCompoundPlugin } from './compound'
+import { makeCurrencyconverterapiPlugin } from './currencyconverterapi'
+import { makeEdgeRatesPlugin } from './edgeRates'
+import { makeNomicsPlugin } from './nomics'
+import { makeWazirxPlugin } from './wazirx'
+
+// Each entry enables a bundled plugin, optionally with its own init options,
+// the same way the core's `plugins` context option does:
+const asInitOptions = asObject({
+  plugins: asMap(asEither(asBoolean, (raw: any): JsonObject => asMap(raw))),
+  quoteCurrency: asOptional(asString, 'iso:USD'),
+  maxDeviation: asOptional(asNumber, 0.1),
+  timeoutMs: asOptional(asNumber, 10000)
+})
+
+const ratePluginFactories: {
+  [pluginId: string]: (opts: EdgeCorePluginOptions) => EdgeRatePlugin
+} = {
+  bitmax: makeBitMaxPlugin,
+  coinbase: makeCoinbasePlugin,
+  coincap: makeCoincapPlugin,
+  coingecko: makeCoinGeckoPlugin,
+  coinmonitor: makeCoinmonitorPlugin,
+  compound: makeCompoundPlugin,
+  currencyconverterapi: makeCurrencyconverterapiPlugin,
+  edgeRates: makeEdgeRatesPlugin,
+  nomics: makeNomicsPlugin,
+  wazirx: makeWazirxPlugin
+}
+
+export interface RateSourceResult {
+  pluginId: string
+  pairs: EdgeRatePair[]
+}
+
+/**
+ * A median rate, along with the sources that agreed on it.
+ */
+export interface MedianRatePair extends EdgeRatePair {
+  readonly sources: string[]
+}
+
+export interface MedianRatePlugin extends EdgeRatePlugin {
+  readonly fetchRates: (hints: EdgeRateHint[]) => Promise<MedianRatePair[]>
+}
+
+interface RateSample {
+  pluginId: string
+  rate: number
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const isUsableRate = (rate: number): boolean => isFinite(rate) && rate > 0
+
+/**
+ * Prices a pair in the quote currency, using the sample rates we already
+ * have for pairs that don't include the quote currency directly.
+ */
+const normalizePair = (
+  pair: EdgeRatePair,
+  quoteCurrency: string,
+  known: (currency: string) => number | undefined
+): { currency: string; rate: number } | undefined => {
+  const { fromCurrency, toCurrency, rate } = pair
+  if (!isUsableRate(rate) || fromCurrency === toCurrency) return
+
+  if (toCurrency === quoteCurrency) return { currency: fromCurrency, rate }
+  if (fromCurrency === quoteCurrency) {
+    return { currency: toCurrency, rate: 1 / rate }
+  }
+
+  const toRate = known(toCurrency)
+  if (toRate != null) return { currency: fromCurrency, rate: rate * toRate }
+  const fromRate = known(fromCurrency)
+  if (fromRate != null) return { currency: toCurrency, rate: fromRate / rate }
+}
+
+/**
+ * Combines the pairs from several rate sources into one rate per currency,
+ * priced in the quote currency.
+ *
+ * Samples further than `maxDeviation` (as a fraction) from the raw median
+ * are discarded as outliers, and the median of the rest wins.
+ */
+export const medianRates = (
+  results: RateSourceResult[],
+  quoteCurrency: string,
+  maxDeviation: number
+): MedianRatePair[] => {
+  const samples = new Map<string, RateSample[]>()
+  const addSample = (currency: string, sample: RateSample): void => {
+    const list = samples.get(currency)
+    if (list == null) samples.set(currency, [sample])
+    else list.push(sample)
+  }
+
+  // Pairs against the quote currency come first, so we can price
+  // the cross pairs against them in a second pass:
+  const crossPairs: Array<{ pluginId: string; pair: EdgeRatePair }> = []
+  for (const { pluginId, pairs } of results) {
+    for (const pair of pairs) {
+      const normal = normalizePair(pair, quoteCurrency, () => undefined)
+      if (normal == null) crossPairs.push({ pluginId, pair })
+      else addSample(normal.currency, { pluginId, rate: normal.rate })
+    }
+  }
+
+  const knownRates = new Map<string, number>()
+  for (const [currency, list] of samples) {
+    knownRates.set(currency, median(list.map(sample => sample.rate)))
+  }
+  for (const { pluginId, pair } of crossPairs) {
+    const normal = normalizePair(pair, quoteCurrency, currency =>
+      knownRates.get(currency)
+    )
+    if (normal == null) continue
+    addSample(normal.currency, { pluginId, rate: normal.rate })
+  }
+
+  const out: MedianRatePair[] = []
+  for (const [currency, list] of samples) {
+    const rawMedian = median(list.map(sample => sample.rate))
+    const agreed = list.filter(
+      sample => Math.abs(sample.rate - rawMedian) / rawMedian <= maxDeviation
+    )
+    if (agreed.length === 0) continue
+
+    out.push({
+      fromCurrency: currency,
+      toCurrency: quoteCurrency,
+      rate: median(agreed.map(sample => sample.rate)),
+      sources: Array.from(new Set(agreed.map(sample => sample.pluginId)))
+    })
+  }
+  return out
+}
+
+export function makeMedianRatePlugin(
+  opts: EdgeCorePluginOptions
+): MedianRatePlugin {
+  const { log } = opts
+  const { plugins, quoteCurrency, maxDeviation, timeoutMs } = asInitOptions(
+    opts.initOptions
+  )
+
+  const ratePlugins: EdgeRatePlugin[] = []
+  for (const id of Object.keys(plugins)) {
+    const initOptions = plugins[id]
+    if (initOptions === false) continue
+
+    const factory = ratePluginFactories[id]
+    if (factory == null) throw new Error(`Median Rate: Unknown plugin ${id}`)
+    ratePlugins.push(
+      factory({
+        ...opts,
+        initOptions: initOptions === true ? {} : initOptions
+      })
+    )
+  }
+
+  return {
+    rateInfo: {
+      pluginId: 'medianRate',
+      displayName: 'Median Rate'
+    },
+
+    async fetchRates(hints: EdgeRateHint[]): Promise<MedianRatePair[]> {
+      const results: RateSourceResult[] = await Promise.all(
+        ratePlugins.map(async plugin => {
+          const { pluginId } = plugin.rateInfo
+          try {
+            const pairs = await promiseWithTimeout(
+              plugin.fetchRates(hints),
+              timeoutMs
+            )
+            return { pluginId, pairs }
+          } catch (error: unknown) {
+            log.warn(`Median Rate: ${pluginId} failed: ${String(error)}`)
+            return { pluginId, pairs: [] }
+          }
+        })
+      )
+
+      return medianRates(results, quoteCurrency, maxDeviation)
+    }
+  }
+}
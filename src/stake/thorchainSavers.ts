@@ -0,0 +1,517 @@
+import { add, div, mul } from 'biggystring'
+import { asArray, asObject, asOptional, asString } from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeCurrencyWallet,
+  EdgeSpendInfo,
+  EdgeTransaction
+} from 'edge-core-js/types'
+
+import {
+  asInboundAddresses,
+  asInitOptions,
+  asPool,
+  ChainTypes,
+  findPool,
+  InboundAddress,
+  MAINNET_CODE_TRANSCRIPTION,
+  makeVaultSpend,
+  MIDGARD_SERVERS_DEFAULT,
+  Pool,
+  RUNE_ASSET,
+  THORNODE_SERVERS_DEFAULT,
+  thorToNative
+} from '../swap/defi/thorchain'
+import { getContractAddress } from '../swap-helpers'
+import { makeExchangeInfoLoader } from '../util/exchangeInfo'
+import { fetchWaterfall, getAddress } from '../util/utils'
+
+const pluginId = 'thorchainsavers'
+
+const MAX_BASIS_POINTS = 10000
+
+// The plugin's own section of the info server,
+// or Thorchain's until the server publishes one:
+const asThorchainSaversExchangeInfo = asObject({
+  midgardServers: asOptional(asArray(asString)),
+  thornodeServers: asOptional(asArray(asString))
+})
+
+// Token deposits approve the router for exactly the deposit amount:
+const APPROVAL_SETTINGS = { unlimitedApproval: false, revokeApproval: false }
+
+const asMidgardMember = asObject({
+  pools: asArray(
+    asObject({
+      pool: asString,
+      liquidityUnits: asString
+    })
+  )
+})
+
+const asMidgardSaver = asObject({
+  pools: asArray(
+    asObject({
+      pool: asString,
+      saverUnits: asString
+    })
+  )
+})
+
+const asPools = asArray(asPool)
+
+/**
+ * Savers vaults hold a single asset, while liquidity positions
+ * can hold both the asset & RUNE.
+ */
+export type ThorchainPositionType = 'savers' | 'lp'
+
+export interface ThorchainPosition {
+  type: ThorchainPositionType
+  pool: string // Such as "BTC.BTC"
+  units: string
+
+  // What withdrawing the whole position would pay out right now,
+  // in THORChain's 1e8 units. Savers positions hold no RUNE:
+  assetAmount: string
+  runeAmount: string
+}
+
+export interface ThorchainDepositRequest {
+  type: ThorchainPositionType
+  wallet: EdgeCurrencyWallet
+  tokenId?: string
+  nativeAmount: string
+
+  // RUNE liquidity deposits must name the pool, such as "BTC.BTC":
+  pool?: string
+
+  // The other side's address, for symmetric liquidity deposits.
+  // Leaving this out makes an asymmetric deposit:
+  pairedAddress?: string
+}
+
+export interface ThorchainWithdrawRequest {
+  type: ThorchainPositionType
+  wallet: EdgeCurrencyWallet
+  tokenId?: string
+
+  // RUNE liquidity withdrawals must name the pool, such as "BTC.BTC":
+  pool?: string
+
+  // The share of the position to withdraw, where 10000 is everything:
+  basisPoints: number
+
+  // Liquidity positions pay out both sides by default,
+  // but can also pay out entirely as one side:
+  withdrawAs?: 'asset' | 'rune'
+}
+
+export interface ThorchainSpend {
+  spendInfo: EdgeSpendInfo
+  preTx?: EdgeTransaction
+  postTx?: EdgeTransaction
+}
+
+export interface ThorchainSaversPlugin {
+  /**
+   * Lists the wallet's savers & liquidity positions for its asset.
+   * RUNE wallets list their liquidity positions in every pool.
+   */
+  fetchPositions: (
+    wallet: EdgeCurrencyWallet,
+    tokenId?: string
+  ) => Promise<ThorchainPosition[]>
+
+  makeDepositSpend: (
+    request: ThorchainDepositRequest
+  ) => Promise<ThorchainSpend>
+
+  makeWithdrawSpend: (
+    request: ThorchainWithdrawRequest
+  ) => Promise<ThorchainSpend>
+}
+
+/**
+ * Deposits into & withdraws from THORChain savers vaults
+ * and liquidity pools, using the same vaults as the swap plugin.
+ */
+export function makeThorchainSaversPlugin(
+  opts: EdgeCorePluginOptions
+): ThorchainSaversPlugin {
+  const { io } = opts
+  const { fetch } = io
+  const { ninerealmsClientId } = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    pluginId,
+    asThorchainSaversExchangeInfo,
+    'thorchain'
+  )
+
+  const headers = {
+    'Content-Type': 'application/json',
+    'x-client-id': ninerealmsClientId
+  }
+
+  const getServers = async (): Promise<{
+    midgardServers: string[]
+    thornodeServers: string[]
+  }> => {
+    const exchangeInfo = await infoLoader.getInfo()
+    return {
+      midgardServers: exchangeInfo?.midgardServers ?? MIDGARD_SERVERS_DEFAULT,
+      thornodeServers: exchangeInfo?.thornodeServers ?? THORNODE_SERVERS_DEFAULT
+    }
+  }
+
+  const fetchPools = async (midgardServers: string[]): Promise<Pool[]> => {
+    const response = await fetchWaterfall(fetch, midgardServers, 'v2/pools', {
+      headers
+    })
+    if (!response.ok) {
+      const responseText = await response.text()
+      throw new Error(`Thorchain could not fetch pools: ${responseText}`)
+    }
+    return asPools(await response.json())
+  }
+
+  const fetchInboundAddress = async (
+    thornodeServers: string[],
+    mainnetCode: ChainTypes
+  ): Promise<InboundAddress | undefined> => {
+    // RUNE is deposited straight into THORChain, with no vault:
+    if (mainnetCode === 'THOR') return
+
+    const response = await fetchWaterfall(
+      fetch,
+      thornodeServers,
+      'thorchain/inbound_addresses',
+      { headers }
+    )
+    if (!response.ok) {
+      const responseText = await response.text()
+      throw new Error(
+        `Thorchain could not fetch inbound_addresses: ${responseText}`
+      )
+    }
+    const inboundAddresses = asInboundAddresses(await response.json())
+    const inAddressObject = inboundAddresses.find(
+      addrObj => addrObj.chain === mainnetCode
+    )
+    if (inAddressObject == null || inAddressObject.halted) {
+      throw new Error(`Thorchain ${mainnetCode} is not available`)
+    }
+    return inAddressObject
+  }
+
+  /**
+   * Midgard answers 404 for addresses without positions.
+   */
+  const fetchMidgardPositions = async (
+    midgardServers: string[],
+    path: string
+  ): Promise<unknown> => {
+    const response = await fetchWaterfall(fetch, midgardServers, path, {
+      headers
+    })
+    if (response.status === 404) return { pools: [] }
+    if (!response.ok) {
+      const responseText = await response.text()
+      throw new Error(`Thorchain could not fetch ${path}: ${responseText}`)
+    }
+    return await response.json()
+  }
+
+  /**
+   * Finds the pool a request is about, from the wallet's asset.
+   * RUNE belongs to every pool, so RUNE requests must name one.
+   */
+  const getRequestPool = (
+    pools: Pool[],
+    wallet: EdgeCurrencyWallet,
+    tokenId: string | undefined,
+    poolAsset: string | undefined
+  ): {
+    pool: Pool
+    mainnetCode: ChainTypes
+    currencyCode: string
+  } => {
+    const { mainnetCode, currencyCode } = getWalletAsset(wallet, tokenId)
+    let pool: Pool | undefined
+    if (mainnetCode === 'THOR') {
+      if (tokenId != null) {
+        throw new Error(`Thorchain does not support ${currencyCode}`)
+      }
+      if (poolAsset == null) throw new Error('RUNE requests need a pool')
+      pool = pools.find(pool => pool.asset === poolAsset)
+    } else {
+      pool = findPool(
+        pools,
+        mainnetCode,
+        currencyCode,
+        getContractAddress(wallet, tokenId)
+      )
+    }
+    if (pool == null || pool.status !== 'available') {
+      throw new Error(`Thorchain has no pool for ${poolAsset ?? currencyCode}`)
+    }
+    return { pool, mainnetCode, currencyCode }
+  }
+
+  const makeSpend = async (params: {
+    type: ThorchainPositionType
+    wallet: EdgeCurrencyWallet
+    mainnetCode: ChainTypes
+    currencyCode: string
+    tokenId: string | undefined
+    pool: Pool
+    inAddressObject: InboundAddress | undefined
+    nativeAmount: string
+    memo: string
+  }): Promise<ThorchainSpend> => {
+    const {
+      type,
+      wallet,
+      mainnetCode,
+      currencyCode,
+      tokenId,
+      pool,
+      inAddressObject,
+      nativeAmount,
+      memo
+    } = params
+    const [, assetAddress] = pool.asset.split('-')
+    const name = type === 'savers' ? 'Thorchain Savers' : 'Thorchain Liquidity'
+    const { spendInfo, preTx, postTx } = await makeVaultSpend({
+      wallet,
+      mainnetCode,
+      currencyCode,
+      tokenId,
+      assetAddress: assetAddress?.toLowerCase(),
+      nativeAmount,
+      memo,
+      vaultAddress: inAddressObject?.address,
+      routerAddress: inAddressObject?.router,
+      settings: APPROVAL_SETTINGS,
+      name
+    })
+    return { spendInfo: { ...spendInfo, metadata: { name } }, preTx, postTx }
+  }
+
+  return {
+    async fetchPositions(wallet, tokenId) {
+      const { midgardServers } = await getServers()
+      const { mainnetCode, currencyCode } = getWalletAsset(wallet, tokenId)
+      const address = await getAddress(wallet)
+
+      const [pools, memberJson, saverJson] = await Promise.all([
+        fetchPools(midgardServers),
+        fetchMidgardPositions(midgardServers, `v2/member/${address}`),
+        // RUNE can't be saved:
+        mainnetCode === 'THOR'
+          ? { pools: [] }
+          : fetchMidgardPositions(midgardServers, `v2/saver/${address}`)
+      ])
+
+      // Asset wallets only care about their own asset's pool:
+      const walletPool =
+        mainnetCode === 'THOR'
+          ? undefined
+          : findPool(
+              pools,
+              mainnetCode,
+              currencyCode,
+              getContractAddress(wallet, tokenId)
+            )
+      if (mainnetCode !== 'THOR' && walletPool == null) return []
+      const isWalletPool = (asset: string): boolean =>
+        walletPool == null || walletPool.asset === asset
+
+      const out: ThorchainPosition[] = []
+      for (const { pool: asset, liquidityUnits } of asMidgardMember(memberJson)
+        .pools) {
+        const pool = pools.find(pool => pool.asset === asset)
+        if (pool == null || !isWalletPool(asset)) continue
+        out.push({
+          type: 'lp',
+          pool: asset,
+          units: liquidityUnits,
+          ...calcLiquidityShare(pool, liquidityUnits)
+        })
+      }
+      for (const { pool: asset, saverUnits } of asMidgardSaver(saverJson)
+        .pools) {
+        const pool = pools.find(pool => pool.asset === asset)
+        if (pool == null || !isWalletPool(asset)) continue
+        out.push({
+          type: 'savers',
+          pool: asset,
+          units: saverUnits,
+          assetAmount: calcSaversShare(pool, saverUnits),
+          runeAmount: '0'
+        })
+      }
+      return out
+    },
+
+    async makeDepositSpend(request) {
+      const { type, wallet, tokenId, nativeAmount, pairedAddress } = request
+      const { midgardServers, thornodeServers } = await getServers()
+      const pools = await fetchPools(midgardServers)
+      const { pool, mainnetCode, currencyCode } = getRequestPool(
+        pools,
+        wallet,
+        tokenId,
+        request.pool
+      )
+      if (type === 'savers' && mainnetCode === 'THOR') {
+        throw new Error('Thorchain cannot save RUNE')
+      }
+      const inAddressObject = await fetchInboundAddress(
+        thornodeServers,
+        mainnetCode
+      )
+
+      return await makeSpend({
+        type,
+        wallet,
+        mainnetCode,
+        currencyCode,
+        tokenId,
+        pool,
+        inAddressObject,
+        nativeAmount,
+        memo: buildDepositMemo({ type, pool: pool.asset, pairedAddress })
+      })
+    },
+
+    async makeWithdrawSpend(request) {
+      const { type, wallet, tokenId, basisPoints, withdrawAs } = request
+      if (
+        !Number.isInteger(basisPoints) ||
+        basisPoints < 1 ||
+        basisPoints > MAX_BASIS_POINTS
+      ) {
+        throw new Error(
+          `Basis points ${basisPoints} must be between 1 and ${MAX_BASIS_POINTS}`
+        )
+      }
+      if (type === 'savers' && withdrawAs != null) {
+        throw new Error('Thorchain savers only pay out the saved asset')
+      }
+
+      const { midgardServers, thornodeServers } = await getServers()
+      const pools = await fetchPools(midgardServers)
+      const { pool, mainnetCode } = getRequestPool(
+        pools,
+        wallet,
+        tokenId,
+        request.pool
+      )
+      const inAddressObject = await fetchInboundAddress(
+        thornodeServers,
+        mainnetCode
+      )
+
+      // The withdrawal is a request, so it sends the chain's native asset
+      // rather than any token. Vaults ignore anything at or below
+      // the dust threshold, while MsgDeposits need no amount at all:
+      const nativeCode = wallet.currencyInfo.currencyCode
+      const nativeAmount =
+        inAddressObject != null
+          ? await thorToNative(
+              wallet,
+              nativeCode,
+              add(inAddressObject.dust_threshold ?? '0', '1')
+            )
+          : '0'
+
+      return await makeSpend({
+        type,
+        wallet,
+        mainnetCode,
+        currencyCode: nativeCode,
+        tokenId: undefined,
+        pool,
+        inAddressObject,
+        nativeAmount,
+        memo: buildWithdrawMemo({
+          type,
+          pool: pool.asset,
+          basisPoints,
+          withdrawAs
+        })
+      })
+    }
+  }
+}
+
+/**
+ * Looks up the THORChain chain & currency code for a wallet's asset.
+ */
+const getWalletAsset = (
+  wallet: EdgeCurrencyWallet,
+  tokenId: string | undefined
+): { mainnetCode: ChainTypes; currencyCode: string } => {
+  const mainnetCode = MAINNET_CODE_TRANSCRIPTION[wallet.currencyInfo.pluginId]
+  let { currencyCode } = wallet.currencyInfo
+  if (tokenId != null) {
+    const token = wallet.currencyConfig.allTokens[tokenId]
+    if (token == null) throw new Error(`Unknown tokenId ${tokenId}`)
+    currencyCode = token.currencyCode
+  }
+  if (mainnetCode == null) {
+    throw new Error(`Thorchain does not support ${currencyCode}`)
+  }
+  return { mainnetCode, currencyCode }
+}
+
+// Savers vaults are named like synths, such as "BTC/BTC":
+const getSaversPoolName = (pool: string): string => pool.replace('.', '/')
+
+export const buildDepositMemo = (params: {
+  type: ThorchainPositionType
+  pool: string
+  pairedAddress?: string
+}): string => {
+  const { type, pool, pairedAddress } = params
+  if (type === 'savers') return `+:${getSaversPoolName(pool)}`
+  return pairedAddress != null ? `+:${pool}:${pairedAddress}` : `+:${pool}`
+}
+
+export const buildWithdrawMemo = (params: {
+  type: ThorchainPositionType
+  pool: string
+  basisPoints: number
+  withdrawAs?: 'asset' | 'rune'
+}): string => {
+  const { type, pool, basisPoints, withdrawAs } = params
+  if (type === 'savers') return `-:${getSaversPoolName(pool)}:${basisPoints}`
+  const memo = `-:${pool}:${basisPoints}`
+  if (withdrawAs === 'asset') return `${memo}:${pool}`
+  if (withdrawAs === 'rune') return `${memo}:${RUNE_ASSET}`
+  return memo
+}
+
+/**
+ * Splits a pool's depths by a liquidity provider's share of the units.
+ */
+export const calcLiquidityShare = (
+  pool: Pool,
+  liquidityUnits: string
+): { assetAmount: string; runeAmount: string } => {
+  if (pool.units === '0') return { assetAmount: '0', runeAmount: '0' }
+  return {
+    assetAmount: div(mul(pool.assetDepth, liquidityUnits), pool.units, 0),
+    runeAmount: div(mul(pool.runeDepth, liquidityUnits), pool.units, 0)
+  }
+}
+
+/**
+ * A saver's share of the savers vault, which grows as it earns yield.
+ */
+export const calcSaversShare = (pool: Pool, saverUnits: string): string => {
+  if (pool.saversUnits === '0') return '0'
+  return div(mul(pool.saversDepth, saverUnits), pool.saversUnits, 0)
+}
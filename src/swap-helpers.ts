@@ -1,10 +1,9 @@
-import { add, sub } from 'biggystring'
+import { add, mul, round, sub } from 'biggystring'
 import {
   EdgeCurrencyWallet,
   EdgeSpendInfo,
   EdgeSwapApproveOptions,
   EdgeSwapInfo,
-  EdgeSwapQuote,
   EdgeSwapRequest,
   EdgeSwapResult,
   EdgeTransaction,
@@ -12,7 +11,14 @@ import {
   SwapCurrencyError
 } from 'edge-core-js/types'
 
-import { EdgeSwapRequestPlugin } from './swap/types'
+import {
+  EdgeSwapRequestPlugin,
+  SwapFee,
+  SwapOrderFees,
+  SwapOrderState,
+  SwapOrderStatus,
+  SwapPluginQuote
+} from './swap/types'
 
 const likeKindAssets = [
   ['BTC', 'WBTC', 'SBTC', 'RBTC'],
@@ -39,12 +45,37 @@ export interface SwapOrder {
   fromNativeAmount: string
   expirationDate?: Date
   preTx?: EdgeTransaction
+  // Sent after the swap, such as an approval reset:
+  postTx?: EdgeTransaction
   metadataNotes?: string
+  minReceiveAmount?: string
+  fees?: SwapOrderFees
+  // Swaps that complete over time, such as streaming swaps:
+  maxFulfillmentSeconds?: number
+  canBePartial?: boolean
+  // Builds the order id from the swap transaction's txid,
+  // for partners that track orders by their deposit transaction:
+  makeOrderId?: (txid: string) => string
+  // Rebuilds the spend once the user accepts the quote,
+  // for swaps that need the user's signature first, such as a permit.
+  // The quote's fees still come from the original `spendInfo`:
+  finishSpendInfo?: () => Promise<EdgeSpendInfo>
+}
+
+/**
+ * Makes a fee that takes some fraction of an amount.
+ */
+export function makeFractionFee(
+  currencyCode: string,
+  nativeAmount: string,
+  fraction: string
+): SwapFee {
+  return { currencyCode, nativeAmount: round(mul(nativeAmount, fraction), 0) }
 }
 
 export async function makeSwapPluginQuote(
   order: SwapOrder
-): Promise<EdgeSwapQuote> {
+): Promise<SwapPluginQuote> {
   const {
     fromNativeAmount,
     request,
@@ -52,7 +83,14 @@ export async function makeSwapPluginQuote(
     spendInfo,
     expirationDate,
     preTx,
-    metadataNotes
+    postTx,
+    metadataNotes,
+    minReceiveAmount,
+    fees,
+    maxFulfillmentSeconds,
+    canBePartial,
+    makeOrderId,
+    finishSpendInfo
   } = order
 
   const { fromWallet } = request
@@ -71,28 +109,47 @@ export async function makeSwapPluginQuote(
     )
   }
 
-  let nativeAmount =
+  const { currencyCode } = fromWallet.currencyInfo
+  const getTxFee = (tx: EdgeTransaction): string =>
     tx.parentNetworkFee != null ? tx.parentNetworkFee : tx.networkFee
 
-  if (preTx != null)
-    nativeAmount = add(
-      nativeAmount,
-      preTx.parentNetworkFee != null ? preTx.parentNetworkFee : preTx.networkFee
-    )
+  const sourceNetworkFee = getTxFee(tx)
+  let approvalFee: string | undefined
+  for (const extraTx of [preTx, postTx]) {
+    if (extraTx == null) continue
+    approvalFee = add(approvalFee ?? '0', getTxFee(extraTx))
+  }
+  const nativeAmount = add(sourceNetworkFee, approvalFee ?? '0')
 
-  const out: EdgeSwapQuote = {
+  const out: SwapPluginQuote = {
     request,
     swapInfo,
     fromNativeAmount,
     toNativeAmount,
+    minReceiveAmount,
+    maxFulfillmentSeconds,
+    canBePartial,
     networkFee: {
-      currencyCode: fromWallet.currencyInfo.currencyCode,
+      currencyCode,
       nativeAmount
     },
+    fees: {
+      sourceNetworkFee: { currencyCode, nativeAmount: sourceNetworkFee },
+      approvalFee:
+        approvalFee != null
+          ? { currencyCode, nativeAmount: approvalFee }
+          : undefined,
+      ...fees
+    },
     pluginId: swapInfo.pluginId,
     expirationDate,
     isEstimate,
     async approve(opts?: EdgeSwapApproveOptions): Promise<EdgeSwapResult> {
+      const swapTx =
+        finishSpendInfo != null
+          ? await fromWallet.makeSpend(await finishSpendInfo())
+          : tx
+
       if (preTx != null) {
         const signedTransaction = await fromWallet.signTx(preTx)
         const broadcastedTransaction = await fromWallet.broadcastTx(
@@ -100,20 +157,37 @@ export async function makeSwapPluginQuote(
         )
         await fromWallet.saveTx(broadcastedTransaction)
       }
-      tx.metadata = { ...(opts?.metadata ?? {}), ...tx.metadata }
+      swapTx.metadata = { ...(opts?.metadata ?? {}), ...swapTx.metadata }
       if (metadataNotes != null) {
-        tx.metadata.notes = `${metadataNotes}\n\n` + (tx.metadata.notes ?? '')
+        swapTx.metadata.notes =
+          `${metadataNotes}\n\n` + (swapTx.metadata.notes ?? '')
       }
 
-      const signedTransaction = await fromWallet.signTx(tx)
+      const signedTransaction = await fromWallet.signTx(swapTx)
+      let orderId = quoteId
+      if (makeOrderId != null) {
+        orderId = makeOrderId(signedTransaction.txid)
+        if (signedTransaction.swapData != null) {
+          signedTransaction.swapData = {
+            ...signedTransaction.swapData,
+            orderId
+          }
+        }
+      }
       const broadcastedTransaction = await fromWallet.broadcastTx(
         signedTransaction
       )
       await fromWallet.saveTx(signedTransaction)
 
+      if (postTx != null) {
+        const signedPostTx = await fromWallet.signTx(postTx)
+        const broadcastedPostTx = await fromWallet.broadcastTx(signedPostTx)
+        await fromWallet.saveTx(broadcastedPostTx)
+      }
+
       return {
         transaction: broadcastedTransaction,
-        orderId: quoteId,
+        orderId,
         destinationAddress
       }
     },
@@ -123,6 +197,28 @@ export async function makeSwapPluginQuote(
   return out
 }
 
+export interface OrderStateMap {
+  [partnerStatus: string]: SwapOrderState
+}
+
+/**
+ * Translates a partner's order status into our common order state,
+ * throwing if the partner reports a status we have never seen.
+ */
+export function makeOrderStatus(
+  swapInfo: EdgeSwapInfo,
+  stateMap: OrderStateMap,
+  status: Omit<SwapOrderStatus, 'state'>
+): SwapOrderStatus {
+  const state = stateMap[status.partnerStatus]
+  if (state == null) {
+    throw new Error(
+      `${swapInfo.displayName} returned unknown order status ${status.partnerStatus}`
+    )
+  }
+  return { ...status, state }
+}
+
 export const getMaxSwappable = async <T extends any[]>(
   fetchSwap: (request: EdgeSwapRequestPlugin, ...args: T) => Promise<SwapOrder>,
   request: EdgeSwapRequestPlugin,
@@ -188,11 +284,32 @@ interface AllCodes {
   toCurrencyCode: string
 }
 
+/**
+ * Looks up a token's currency code by tokenId,
+ * so two tokens sharing a ticker can never be confused.
+ */
+const getAssetCode = (
+  wallet: EdgeCurrencyWallet,
+  tokenId: string | undefined,
+  currencyCode: string
+): string =>
+  tokenId == null
+    ? currencyCode
+    : wallet.currencyConfig.allTokens[tokenId]?.currencyCode ?? currencyCode
+
 export const getCodes = (request: EdgeSwapRequestPlugin): AllCodes => ({
   fromMainnetCode: request.fromWallet.currencyInfo.currencyCode,
   toMainnetCode: request.toWallet.currencyInfo.currencyCode,
-  fromCurrencyCode: request.fromCurrencyCode,
-  toCurrencyCode: request.toCurrencyCode
+  fromCurrencyCode: getAssetCode(
+    request.fromWallet,
+    request.fromTokenId,
+    request.fromCurrencyCode
+  ),
+  toCurrencyCode: getAssetCode(
+    request.toWallet,
+    request.toTokenId,
+    request.toCurrencyCode
+  )
 })
 
 const getPluginIds = (
@@ -202,24 +319,93 @@ const getPluginIds = (
   toPluginId: request.toWallet.currencyInfo.pluginId
 })
 
+/**
+ * Blocks a single asset, matched by currency code and / or tokenId.
+ * A rule with neither blocks every asset on the chain.
+ * The optional dates limit the block to a window of time,
+ * such as a partner's announced maintenance.
+ */
+export interface InvalidAssetRule {
+  currencyCode?: string
+  tokenId?: string
+  startDate?: Date
+  endDate?: Date
+}
+
+export type InvalidCodeList =
+  | 'allCodes'
+  | 'allTokens'
+  | Array<string | InvalidAssetRule>
+
+/**
+ * Assets a plugin cannot swap, keyed by pluginId.
+ * The '*' key applies to every chain.
+ */
 export interface InvalidCurrencyCodes {
-  from: { [pluginId: string]: 'allCodes' | 'allTokens' | string[] }
-  to: { [pluginId: string]: 'allCodes' | 'allTokens' | string[] }
+  from: { [pluginId: string]: InvalidCodeList }
+  to: { [pluginId: string]: InvalidCodeList }
 }
 
+/**
+ * Describes where a block came from, for error reporting.
+ */
+export type InvalidCodeSource = 'plugin' | 'default' | 'infoServer'
+
 const defaultInvalidCodes: InvalidCurrencyCodes = {
   from: { ethereum: ['REP'] },
   to: { ethereum: ['REP'] }
 }
 
+interface SwapAsset {
+  pluginId: string
+  currencyCode: string
+  tokenId: string | undefined
+  isToken: boolean
+}
+
+function matchInvalidAssetRule(
+  rule: string | InvalidAssetRule,
+  asset: SwapAsset,
+  now: Date
+): boolean {
+  if (typeof rule === 'string') return rule === asset.currencyCode
+  const { currencyCode, tokenId, startDate, endDate } = rule
+  if (startDate != null && now < startDate) return false
+  if (endDate != null && now >= endDate) return false
+  if (currencyCode != null && currencyCode !== asset.currencyCode) return false
+  if (tokenId != null && tokenId !== asset.tokenId) return false
+  return true
+}
+
+function matchInvalidCodes(
+  invalidCodes: InvalidCurrencyCodes,
+  direction: 'from' | 'to',
+  asset: SwapAsset,
+  now: Date
+): boolean {
+  const lists = [
+    invalidCodes[direction][asset.pluginId],
+    invalidCodes[direction]['*']
+  ]
+  return lists.some(list => {
+    if (list == null) return false
+    if (list === 'allCodes') return true
+    if (list === 'allTokens') return asset.isToken
+    return list.some(rule => matchInvalidAssetRule(rule, asset, now))
+  })
+}
+
 /**
- * Throws if either currency code has been disabled by the plugin
+ * Throws if either asset has been disabled by the plugin,
+ * naming the source of the block in the error message.
  */
 export function checkInvalidCodes(
   invalidCodes: InvalidCurrencyCodes,
   request: EdgeSwapRequestPlugin,
-  swapInfo: EdgeSwapInfo
+  swapInfo: EdgeSwapInfo,
+  source: InvalidCodeSource = 'plugin'
 ): void {
+  const { fromTokenId, toTokenId } = request
   const { fromPluginId, toPluginId } = getPluginIds(request)
   const {
     fromMainnetCode,
@@ -228,55 +414,47 @@ export function checkInvalidCodes(
     toCurrencyCode
   } = getCodes(request)
 
-  const isSameAsset = (request: EdgeSwapRequest): boolean =>
-    request.fromWallet.currencyInfo.pluginId ===
-      request.toWallet.currencyInfo.pluginId &&
-    request.fromCurrencyCode === request.toCurrencyCode
-
-  function check(
-    codeMap: InvalidCurrencyCodes,
-    direction: 'from' | 'to',
-    pluginId: string,
-    main: string,
-    token: string
-  ): boolean {
-    const codes = codeMap[direction][pluginId]
-    if (codes == null) return false
-    if (codes === 'allCodes') return true
-    if (codes === 'allTokens') return main !== token
-    return codes.some(code => code === token)
+  const fromAsset: SwapAsset = {
+    pluginId: fromPluginId,
+    currencyCode: fromCurrencyCode,
+    tokenId: fromTokenId,
+    isToken: fromTokenId != null || fromCurrencyCode !== fromMainnetCode
+  }
+  const toAsset: SwapAsset = {
+    pluginId: toPluginId,
+    currencyCode: toCurrencyCode,
+    tokenId: toTokenId,
+    isToken: toTokenId != null || toCurrencyCode !== toMainnetCode
   }
 
-  if (
-    check(
-      invalidCodes,
-      'from',
-      fromPluginId,
-      fromMainnetCode,
-      fromCurrencyCode
-    ) ||
-    check(
-      defaultInvalidCodes,
-      'from',
-      fromPluginId,
-      fromMainnetCode,
-      fromCurrencyCode
-    ) ||
-    check(invalidCodes, 'to', toPluginId, toMainnetCode, toCurrencyCode) ||
-    check(
-      defaultInvalidCodes,
-      'to',
-      toPluginId,
-      toMainnetCode,
-      toCurrencyCode
-    ) ||
-    isSameAsset(request)
-  )
-    throw new SwapCurrencyError(
+  const now = new Date()
+  const isBlocked = (codes: InvalidCurrencyCodes): boolean =>
+    matchInvalidCodes(codes, 'from', fromAsset, now) ||
+    matchInvalidCodes(codes, 'to', toAsset, now)
+
+  let blockedBy: InvalidCodeSource | undefined
+  if (isBlocked(invalidCodes)) blockedBy = source
+  else if (isBlocked(defaultInvalidCodes)) blockedBy = 'default'
+
+  if (blockedBy != null) {
+    const error = new SwapCurrencyError(
       swapInfo,
-      request.fromCurrencyCode,
-      request.toCurrencyCode
+      fromCurrencyCode,
+      toCurrencyCode
     )
+    error.message += ` (blocked by ${blockedBy})`
+    throw error
+  }
+
+  // Tokens the wallet doesn't know have no tokenId, so compare codes:
+  const isSameAsset =
+    fromPluginId === toPluginId &&
+    (fromTokenId != null || toTokenId != null
+      ? fromTokenId === toTokenId
+      : fromCurrencyCode === toCurrencyCode)
+  if (isSameAsset) {
+    throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+  }
 }
 
 export interface CurrencyCodeTranscriptions {
@@ -289,9 +467,13 @@ export interface MainnetPluginIdTranscriptionMap {
   [pluginId: string]: string
 }
 
+/**
+ * Partner-specific currency codes, keyed by tokenId or currency code.
+ * A tokenId entry wins, since tickers can collide.
+ */
 export interface CurrencyCodeTranscriptionMap {
   [pluginId: string]: {
-    [currencyCode: string]: string
+    [tokenIdOrCurrencyCode: string]: string
   }
 }
 
@@ -338,6 +520,19 @@ export const getCodesWithTranscription = (
         defaultMainnetTranscriptionMap[pluginId]
   }
 
+  const transcribe = (
+    pluginId: string,
+    tokenId: string | undefined,
+    currencyCode: string
+  ): string => {
+    const codes = currencyCodeTranscriptionMap[pluginId] ?? {}
+    return (
+      (tokenId != null ? codes[tokenId] : undefined) ??
+      codes[currencyCode] ??
+      currencyCode
+    )
+  }
+
   return {
     fromMainnetCode:
       mainnetTranscriptionMap[request.fromWallet.currencyInfo.pluginId] ??
@@ -345,17 +540,23 @@ export const getCodesWithTranscription = (
     toMainnetCode:
       mainnetTranscriptionMap[request.toWallet.currencyInfo.pluginId] ??
       toMainnetCode,
-    fromCurrencyCode:
-      currencyCodeTranscriptionMap[request.fromWallet.currencyInfo.pluginId]?.[
-        fromCurrencyCode
-      ] ?? fromCurrencyCode,
-    toCurrencyCode:
-      currencyCodeTranscriptionMap[request.toWallet.currencyInfo.pluginId]?.[
-        toCurrencyCode
-      ] ?? toCurrencyCode
+    fromCurrencyCode: transcribe(
+      request.fromWallet.currencyInfo.pluginId,
+      request.fromTokenId,
+      fromCurrencyCode
+    ),
+    toCurrencyCode: transcribe(
+      request.toWallet.currencyInfo.pluginId,
+      request.toTokenId,
+      toCurrencyCode
+    )
   }
 }
 
+/**
+ * Like-kind assets are grouped by ticker, so pass codes
+ * that have been resolved from tokenIds, as `getCodes` returns.
+ */
 export const isLikeKind = (
   fromCurrencyCode: string,
   toCurrencyCode: string
@@ -373,6 +574,11 @@ export const isLikeKind = (
   return false
 }
 
+/**
+ * Finds a tokenId by currency code, for requests that lack tokenIds.
+ * Prefer the tokenIds `convertRequest` fills in,
+ * since this picks the first token sharing a ticker.
+ */
 export const getTokenId = (
   coreWallet: EdgeCurrencyWallet,
   currencyCode: string
@@ -384,5 +590,17 @@ export const getTokenId = (
   )
 }
 
+/**
+ * Returns a token's contract address, or undefined for the mainnet currency.
+ */
+export const getContractAddress = (
+  coreWallet: EdgeCurrencyWallet,
+  tokenId: string | undefined
+): string | undefined => {
+  if (tokenId == null) return
+  const token = coreWallet.currencyConfig.allTokens[tokenId]
+  return token?.networkLocation?.contractAddress
+}
+
 export const consify = (val: any): void =>
   console.log(JSON.stringify(val, null, 2))
@@ -0,0 +1,236 @@
+import { add, div, gt, mul, sub } from 'biggystring'
+import {
+  asBoolean,
+  asEither,
+  asMap,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeSwapInfo,
+  EdgeSwapPlugin,
+  EdgeSwapQuote,
+  EdgeSwapRequest,
+  JsonObject,
+  SwapCurrencyError
+} from 'edge-core-js/types'
+
+import { convertRequest, promiseWithTimeout } from '../util/utils'
+import { makeChangeHeroPlugin } from './changehero'
+import { makeChangeNowPlugin } from './changenow'
+import { makeLifiPlugin } from './defi/lifi'
+import { makeThorchainPlugin } from './defi/thorchain'
+import { makeThorchainDaPlugin } from './defi/thorchainDa'
+import { makeSpookySwapPlugin } from './defi/uni-v2-based/plugins/spookySwap'
+import { makeTombSwapPlugin } from './defi/uni-v2-based/plugins/tombSwap'
+import { makeVelodromePlugin } from './defi/uni-v2-based/plugins/velodrome'
+import { makeExolixPlugin } from './exolix'
+import { makeGodexPlugin } from './godex'
+import { makeLetsExchangePlugin } from './letsexchange'
+import { makeSideshiftPlugin } from './sideshift'
+import { makeSwapuzPlugin } from './swapuz'
+
+const pluginId = 'bestquote'
+const swapInfo: EdgeSwapInfo = {
+  pluginId,
+  isDex: false,
+  displayName: 'Best Quote',
+  supportEmail: 'support@edge.app'
+}
+
+// Each entry enables a bundled plugin, optionally with its own init options,
+// the same way the core's `plugins` context option does:
+const asInitOptions = asObject({
+  plugins: asMap(asEither(asBoolean, (raw: any): JsonObject => asMap(raw))),
+  timeoutMs: asOptional(asNumber, 10000),
+  estimatePenalty: asOptional(asString, '0.02')
+})
+
+export const swapPluginFactories: {
+  [pluginId: string]: (opts: EdgeCorePluginOptions) => EdgeSwapPlugin
+} = {
+  changehero: makeChangeHeroPlugin,
+  changenow: makeChangeNowPlugin,
+  exolix: makeExolixPlugin,
+  godex: makeGodexPlugin,
+  letsexchange: makeLetsExchangePlugin,
+  lifi: makeLifiPlugin,
+  sideshift: makeSideshiftPlugin,
+  spookySwap: makeSpookySwapPlugin,
+  swapuz: makeSwapuzPlugin,
+  thorchain: makeThorchainPlugin,
+  thorchainda: makeThorchainDaPlugin,
+  tombSwap: makeTombSwapPlugin,
+  velodrome: makeVelodromePlugin
+}
+
+// Errors the user can act on sort ahead of errors they can't:
+const ERROR_PRIORITY = [
+  'SwapBelowLimitError',
+  'SwapAboveLimitError',
+  'SwapPermissionError',
+  'SwapCurrencyError'
+]
+
+export interface SwapQuoteResult {
+  pluginId: string
+  quote?: EdgeSwapQuote
+  error?: unknown
+}
+
+export interface RankedSwapQuote extends SwapQuoteResult {
+  // The effective exchange rate, in native units, for successful quotes:
+  score?: string
+}
+
+/**
+ * The winning quote, along with every provider's result in ranked order.
+ */
+export interface BestSwapQuote extends EdgeSwapQuote {
+  readonly rankedQuotes: RankedSwapQuote[]
+}
+
+/**
+ * Scores a quote by its effective rate, net of risk & fees.
+ *
+ * Estimated quotes have their output reduced by the estimate penalty,
+ * since the partner can deliver less than they quoted.
+ * The network fee only counts against the input when it is paid
+ * in the currency being swapped, since we have no rate for anything else.
+ * Token swaps, which pay their fees in the parent currency,
+ * are therefore ranked on their rate alone.
+ */
+export const scoreSwapQuote = (
+  quote: EdgeSwapQuote,
+  fromCurrencyCode: string,
+  estimatePenalty: string
+): string => {
+  const { fromNativeAmount, isEstimate, networkFee, toNativeAmount } = quote
+
+  const effectiveTo = isEstimate
+    ? mul(toNativeAmount, sub('1', estimatePenalty))
+    : toNativeAmount
+  const effectiveFrom =
+    networkFee.currencyCode === fromCurrencyCode
+      ? add(fromNativeAmount, networkFee.nativeAmount)
+      : fromNativeAmount
+
+  if (!gt(effectiveFrom, '0')) return '0'
+  return div(effectiveTo, effectiveFrom, 32)
+}
+
+/**
+ * Sorts successful quotes best-first, followed by the failures
+ * ordered by how useful their error is to the user.
+ */
+export const rankSwapQuotes = (
+  results: SwapQuoteResult[],
+  fromCurrencyCode: string,
+  estimatePenalty: string
+): RankedSwapQuote[] => {
+  const quotes: RankedSwapQuote[] = []
+  const errors: RankedSwapQuote[] = []
+  for (const result of results) {
+    if (result.quote != null) {
+      const score = scoreSwapQuote(
+        result.quote,
+        fromCurrencyCode,
+        estimatePenalty
+      )
+      quotes.push({ ...result, score })
+    } else {
+      errors.push(result)
+    }
+  }
+
+  const errorRank = (error: unknown): number => {
+    const name = error instanceof Error ? error.name : undefined
+    const index = ERROR_PRIORITY.findIndex(n => n === name)
+    return index < 0 ? ERROR_PRIORITY.length : index
+  }
+
+  quotes.sort((a, b) => {
+    const scoreA = a.score ?? '0'
+    const scoreB = b.score ?? '0'
+    return gt(scoreA, scoreB) ? -1 : gt(scoreB, scoreA) ? 1 : 0
+  })
+  errors.sort((a, b) => errorRank(a.error) - errorRank(b.error))
+
+  return [...quotes, ...errors]
+}
+
+export function makeBestQuotePlugin(
+  opts: EdgeCorePluginOptions
+): EdgeSwapPlugin {
+  const { log } = opts
+  const { plugins, timeoutMs, estimatePenalty } = asInitOptions(
+    opts.initOptions
+  )
+
+  const swapPlugins: EdgeSwapPlugin[] = []
+  for (const id of Object.keys(plugins)) {
+    const initOptions = plugins[id]
+    if (initOptions === false) continue
+
+    const factory = swapPluginFactories[id]
+    if (factory == null) throw new Error(`Best Quote: Unknown plugin ${id}`)
+    swapPlugins.push(
+      factory({
+        ...opts,
+        initOptions: initOptions === true ? {} : initOptions
+      })
+    )
+  }
+
+  const out: EdgeSwapPlugin = {
+    swapInfo,
+
+    async fetchSwapQuote(
+      request: EdgeSwapRequest,
+      userSettings: JsonObject | undefined,
+      opts: { promoCode?: string }
+    ): Promise<EdgeSwapQuote> {
+      const { fromCurrencyCode } = convertRequest(request, swapInfo)
+      const results: SwapQuoteResult[] = await Promise.all(
+        swapPlugins.map(async plugin => {
+          const { pluginId } = plugin.swapInfo
+          const promise = plugin.fetchSwapQuote(request, userSettings, opts)
+          try {
+            const quote = await promiseWithTimeout(promise, timeoutMs)
+            return { pluginId, quote }
+          } catch (error: unknown) {
+            log(`Best Quote: ${pluginId} failed: ${String(error)}`)
+
+            // Quotes that arrive after the timeout will never be used:
+            promise.then(async quote => await quote.close()).catch(() => {})
+            return { pluginId, error }
+          }
+        })
+      )
+
+      const rankedQuotes = rankSwapQuotes(
+        results,
+        fromCurrencyCode,
+        estimatePenalty
+      )
+      const [best] = rankedQuotes
+      if (best == null) throw new SwapCurrencyError(swapInfo, request)
+      if (best.quote == null) throw best.error
+
+      const bestQuote: BestSwapQuote = {
+        ...best.quote,
+        rankedQuotes,
+        async close() {
+          await Promise.all(
+            rankedQuotes.map(async ({ quote }) => await quote?.close())
+          )
+        }
+      }
+      return bestQuote
+    }
+  }
+  return out
+}
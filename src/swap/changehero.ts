@@ -11,7 +11,6 @@ import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   SwapAboveLimitError,
@@ -24,11 +23,22 @@ import {
   getCodes,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { EdgeSwapRequestPlugin } from './types'
+import {
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 const pluginId = 'changehero'
 
@@ -55,6 +65,19 @@ const orderUri = 'https://changehero.io/transaction/'
 const uri = 'https://api.changehero.io/v2'
 const expirationFixedMs = 1000 * 60
 
+const ORDER_STATE_MAP: OrderStateMap = {
+  waiting: 'waitingForDeposit',
+  confirming: 'confirming',
+  exchanging: 'exchanging',
+  hold: 'exchanging',
+  sending: 'sending',
+  finished: 'completed',
+  refunded: 'refunded',
+  failed: 'failed',
+  overdue: 'expired',
+  expired: 'expired'
+}
+
 const asGetFixRateReply = asObject({
   result: asArray(
     asObject({
@@ -84,6 +107,20 @@ const asCreateFixTransactionReply = asObject({
   })
 })
 
+const asGetTransactionsReply = asObject({
+  result: asArray(
+    asObject({
+      id: asString,
+      status: asString,
+      amountTo: asOptional(asEither(asString, asNumber)),
+      payinHash: asOptional(asString),
+      payoutHash: asOptional(asString),
+      refundAddress: asOptional(asString),
+      refundHash: asOptional(asString)
+    })
+  )
+})
+
 function checkReply(
   reply: { error?: { code?: number; message?: string } },
   request: EdgeSwapRequestPlugin
@@ -105,10 +142,15 @@ function checkReply(
 
 export function makeChangeHeroPlugin(
   opts: EdgeCorePluginOptions
-): EdgeSwapPlugin {
+): EdgeSwapPluginWithStatus {
   const { io } = opts
   const { fetchCors = io.fetch } = io
   const { apiKey } = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
 
   async function call(json: any): Promise<any> {
     const body = JSON.stringify(json)
@@ -283,15 +325,43 @@ export function makeChangeHeroPlugin(
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
     async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
       checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
+      checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
       const newRequest = await getMaxSwappable(getFixedQuote, request)
       const swapOrder = await getFixedQuote(newRequest)
       return await makeSwapPluginQuote(swapOrder)
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const reply = await call({
+        jsonrpc: '2.0',
+        id: 'one',
+        method: 'getTransactions',
+        params: { id: orderId }
+      })
+      if (reply.error != null) {
+        throw new Error('ChangeHero error: ' + JSON.stringify(reply.error))
+      }
+
+      const [transaction] = asGetTransactionsReply(reply).result
+      if (transaction == null) {
+        throw new Error(`ChangeHero could not find order ${orderId}`)
+      }
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: transaction.id,
+        partnerStatus: transaction.status,
+        depositTxid: transaction.payinHash,
+        payoutTxid: transaction.payoutHash,
+        payoutExchangeAmount: transaction.amountTo?.toString(),
+        refundAddress: transaction.refundAddress,
+        refundTxid: transaction.refundHash
+      })
     }
   }
 
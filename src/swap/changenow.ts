@@ -12,7 +12,6 @@ import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   SwapAboveLimitError,
@@ -26,11 +25,22 @@ import {
   getCodesWithTranscription,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { EdgeSwapRequestPlugin } from './types'
+import {
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 const pluginId = 'changenow'
 
 const swapInfo: EdgeSwapInfo = {
@@ -60,12 +70,31 @@ const MAINNET_CODE_TRANSCRIPTION = {
   binancesmartchain: 'BSC'
 }
 
+// See https://documenter.getpostman.com/view/8180765/UVJfjazx for statuses
+const ORDER_STATE_MAP: OrderStateMap = {
+  new: 'waitingForDeposit',
+  waiting: 'waitingForDeposit',
+  confirming: 'confirming',
+  verifying: 'confirming',
+  exchanging: 'exchanging',
+  sending: 'sending',
+  finished: 'completed',
+  refunded: 'refunded',
+  failed: 'failed',
+  expired: 'expired'
+}
+
 export function makeChangeNowPlugin(
   opts: EdgeCorePluginOptions
-): EdgeSwapPlugin {
+): EdgeSwapPluginWithStatus {
   const { io } = opts
   const { fetch } = io
   const { apiKey } = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
 
   const headers = {
     'Content-Type': 'application/json',
@@ -304,7 +333,7 @@ export function makeChangeNowPlugin(
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
 
     async fetchSwapQuote(
@@ -312,9 +341,10 @@ export function makeChangeNowPlugin(
       userSettings: Object | undefined,
       opts: { promoCode?: string }
     ): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
 
       checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
+      checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
       const newRequest = await getMaxSwappable(
         fetchSwapQuoteInner,
@@ -323,6 +353,33 @@ export function makeChangeNowPlugin(
       )
       const swapOrder = await fetchSwapQuoteInner(newRequest, opts)
       return await makeSwapPluginQuote(swapOrder)
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const response = await fetch(
+        uri + `exchange/by-id?id=${encodeURIComponent(orderId)}`,
+        {
+          headers
+        }
+      )
+      if (!response.ok) {
+        const text = await response.text()
+        throw new Error(
+          `ChangeNow call returned error code ${response.status}, ${text}`
+        )
+      }
+      const status = asOrderStatus(await response.json())
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: status.id,
+        partnerStatus: status.status,
+        depositTxid: status.payinHash,
+        payoutTxid: status.payoutHash,
+        payoutExchangeAmount: status.amountTo?.toString(),
+        refundAddress: status.refundAddress,
+        refundTxid: status.refundHash,
+        refundExchangeAmount: status.refundAmount?.toString()
+      })
     }
   }
   return out
@@ -358,4 +415,15 @@ const asOrder = asObject({
   id: asString
 })
 
+const asOrderStatus = asObject({
+  id: asString,
+  status: asString,
+  payinHash: asMaybe(asString),
+  payoutHash: asMaybe(asString),
+  amountTo: asMaybe(asNumber),
+  refundAddress: asMaybe(asString),
+  refundHash: asMaybe(asString),
+  refundAmount: asMaybe(asNumber)
+})
+
 type ChangeNowResponse = ReturnType<typeof asOrder> & { validUntil?: Date }
@@ -0,0 +1,47 @@
+// Source: https://github.com/lifinance/contracts/blob/main/src/Periphery/Permit2Proxy.sol
+// Only the entry points that forward a signed permit to the LI.FI diamond.
+export default [
+  {
+    inputs: [
+      { internalType: 'address', name: 'tokenAddress', type: 'address' },
+      { internalType: 'uint256', name: 'amount', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'uint8', name: 'v', type: 'uint8' },
+      { internalType: 'bytes32', name: 'r', type: 'bytes32' },
+      { internalType: 'bytes32', name: 's', type: 'bytes32' },
+      { internalType: 'bytes', name: 'diamondCalldata', type: 'bytes' }
+    ],
+    name: 'callDiamondWithEIP2612Signature',
+    outputs: [{ internalType: 'bytes', name: '', type: 'bytes' }],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [
+      { internalType: 'bytes', name: '_diamondCalldata', type: 'bytes' },
+      {
+        components: [
+          {
+            components: [
+              { internalType: 'address', name: 'token', type: 'address' },
+              { internalType: 'uint256', name: 'amount', type: 'uint256' }
+            ],
+            internalType: 'struct ISignatureTransfer.TokenPermissions',
+            name: 'permitted',
+            type: 'tuple'
+          },
+          { internalType: 'uint256', name: 'nonce', type: 'uint256' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' }
+        ],
+        internalType: 'struct ISignatureTransfer.PermitTransferFrom',
+        name: '_permit',
+        type: 'tuple'
+      },
+      { internalType: 'bytes', name: '_signature', type: 'bytes' }
+    ],
+    name: 'callDiamondWithPermit2',
+    outputs: [{ internalType: 'bytes', name: '', type: 'bytes' }],
+    stateMutability: 'payable',
+    type: 'function'
+  }
+]
@@ -0,0 +1,100 @@
+// Source: https://optimistic.etherscan.io/address/0xa062ae8a9c5e11aaa026fc2670b0d65ccc8b2858#code
+// Only the quoting & swapping functions we use.
+export default [
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'bool', name: 'stable', type: 'bool' },
+          { internalType: 'address', name: 'factory', type: 'address' }
+        ],
+        internalType: 'struct IRouter.Route[]',
+        name: 'routes',
+        type: 'tuple[]'
+      }
+    ],
+    name: 'getAmountsOut',
+    outputs: [
+      { internalType: 'uint256[]', name: 'amounts', type: 'uint256[]' }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'amountOutMin', type: 'uint256' },
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'bool', name: 'stable', type: 'bool' },
+          { internalType: 'address', name: 'factory', type: 'address' }
+        ],
+        internalType: 'struct IRouter.Route[]',
+        name: 'routes',
+        type: 'tuple[]'
+      },
+      { internalType: 'address', name: 'to', type: 'address' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' }
+    ],
+    name: 'swapExactETHForTokens',
+    outputs: [
+      { internalType: 'uint256[]', name: 'amounts', type: 'uint256[]' }
+    ],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+      { internalType: 'uint256', name: 'amountOutMin', type: 'uint256' },
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'bool', name: 'stable', type: 'bool' },
+          { internalType: 'address', name: 'factory', type: 'address' }
+        ],
+        internalType: 'struct IRouter.Route[]',
+        name: 'routes',
+        type: 'tuple[]'
+      },
+      { internalType: 'address', name: 'to', type: 'address' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' }
+    ],
+    name: 'swapExactTokensForETH',
+    outputs: [
+      { internalType: 'uint256[]', name: 'amounts', type: 'uint256[]' }
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+      { internalType: 'uint256', name: 'amountOutMin', type: 'uint256' },
+      {
+        components: [
+          { internalType: 'address', name: 'from', type: 'address' },
+          { internalType: 'address', name: 'to', type: 'address' },
+          { internalType: 'bool', name: 'stable', type: 'bool' },
+          { internalType: 'address', name: 'factory', type: 'address' }
+        ],
+        internalType: 'struct IRouter.Route[]',
+        name: 'routes',
+        type: 'tuple[]'
+      },
+      { internalType: 'address', name: 'to', type: 'address' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' }
+    ],
+    name: 'swapExactTokensForTokens',
+    outputs: [
+      { internalType: 'uint256[]', name: 'amounts', type: 'uint256[]' }
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  }
+]
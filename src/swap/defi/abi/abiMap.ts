@@ -1,119 +1,154 @@
+import { asBoolean, asMap, asObject, asOptional, asString } from 'cleaners'
 import { ContractInterface } from 'ethers'
 
-import TC_AVAX_GENERIC from './TC_AVAX_GENERIC'
-import TC_AVAX_PANGOLIN from './TC_AVAX_PANGOLIN'
-import TC_AVAX_TRADER_JOE from './TC_AVAX_TRADER_JOE'
-import TC_ETH_GENERIC from './TC_ETH_GENERIC'
-import TC_ETH_LEG_UNISWAP_V2 from './TC_ETH_LEG_UNISWAP_V2'
-import TC_ETH_SHORT_SUSHISWAP from './TC_ETH_SHORT_SUSHISWAP'
-import TC_ETH_SHORT_UNISWAP_V2 from './TC_ETH_SHORT_UNISWAP_V2'
-import TC_ETH_SHORT_UNISWAP_V3_001 from './TC_ETH_SHORT_UNISWAP_V3_001'
-import TC_ETH_SHORT_UNISWAP_V3_1 from './TC_ETH_SHORT_UNISWAP_V3_1'
-import TC_ETH_SHORT_UNISWAP_V3_03 from './TC_ETH_SHORT_UNISWAP_V3_03'
-import TC_ETH_SHORT_UNISWAP_V3_005 from './TC_ETH_SHORT_UNISWAP_V3_005'
-import TC_ETH_SUSHISWAP from './TC_ETH_SUSHISWAP'
-import TC_ETH_UNISWAP_V2 from './TC_ETH_UNISWAP_V2'
-import TC_ETH_UNISWAP_V3_1 from './TC_ETH_UNISWAP_V3_1'
-import TC_ETH_UNISWAP_V3_03 from './TC_ETH_UNISWAP_V3_03'
-import TC_ETH_UNISWAP_V3_005 from './TC_ETH_UNISWAP_V3_005'
+import TC_AGGREGATOR_GENERIC from './TC_AGGREGATOR_GENERIC'
+import TC_AGGREGATOR_UNISWAP_V2 from './TC_AGGREGATOR_UNISWAP_V2'
+import TC_AGGREGATOR_UNISWAP_V2_LEG from './TC_AGGREGATOR_UNISWAP_V2_LEG'
+import TC_AGGREGATOR_UNISWAP_V3 from './TC_AGGREGATOR_UNISWAP_V3'
 
-export type TcRouterType =
-  | 'TC_ROUTER_GENERIC'
-  | 'TC_ROUTER_UNISWAP'
-  | 'TC_ROUTER_PANGOLIN'
-  | 'INVALID'
-interface AbiMap {
-  [pluginId: string]: {
-    [contractAddress: string]: {
-      name: string
-      type: TcRouterType
-      data: ContractInterface
-    }
-  }
+/**
+ * ThorSwap deploys an aggregator contract for each DEX & fee tier,
+ * but the deployments are built from a handful of contracts.
+ * Each family shares one ABI, so a new deployment only needs an address.
+ */
+export const tcAggregatorAbis: { [family: string]: ContractInterface } = {
+  generic: TC_AGGREGATOR_GENERIC,
+  uniswapV2: TC_AGGREGATOR_UNISWAP_V2,
+  uniswapV2Leg: TC_AGGREGATOR_UNISWAP_V2_LEG,
+  uniswapV3: TC_AGGREGATOR_UNISWAP_V3
 }
-export const abiMap: AbiMap = {
+
+export const asTcAggregator = asObject({
+  name: asString,
+  // Families this version doesn't know about are ignored:
+  family: asString,
+  // Set for contracts that don't behave like the rest of their family:
+  disabled: asOptional(asBoolean, false)
+})
+
+// Aggregators by currency plugin, then by contract address:
+export const asTcAggregatorMap = asMap(asMap(asTcAggregator))
+
+export type TcAggregator = ReturnType<typeof asTcAggregator>
+export type TcAggregatorMap = ReturnType<typeof asTcAggregatorMap>
+
+export const tcAggregators: TcAggregatorMap = {
   ethereum: {
     '0x7c38b8b2eff28511ecc14a621e263857fb5771d3': {
       name: 'Thorchain Aggregator Ethereum Uniswap V2',
-      data: TC_ETH_UNISWAP_V2,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV2',
+      disabled: false
     },
     '0x0f2cd5df82959e00be7afeef8245900fc4414199': {
       name: 'Thorchain Aggregator Ethereum Sushiswap',
-      data: TC_ETH_SUSHISWAP,
-      type: 'INVALID'
+      family: 'uniswapV2',
+      disabled: true
     },
     '0x0747c681e5ada7936ad915ccff6cd3bd71dbf121': {
       name: 'Thorchain Aggregator Ethereum Uniswap V3 0.05%',
-      data: TC_ETH_UNISWAP_V3_005,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0xd1ea5f7ce9da98d0bd7b1f4e3e05985e88b1ef10': {
       name: 'Thorchain Aggregator Ethereum Uniswap V3 0.3%',
-      data: TC_ETH_UNISWAP_V3_03,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0x94a852f0a21e473078846cf88382dd8d15bd1dfb': {
       name: 'Thorchain Aggregator Ethereum Uniswap V3 1.0%',
-      data: TC_ETH_UNISWAP_V3_1,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0x3660de6c56cfd31998397652941ece42118375da': {
       name: 'Thorchain Aggregator Leg Ethereum Uniswap V2',
-      data: TC_ETH_LEG_UNISWAP_V2,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV2Leg',
+      disabled: false
     },
     '0xd31f7e39afecec4855fecc51b693f9a0cec49fd2': {
       name: 'Thorchain Aggregator Ethereum Generic',
-      data: TC_ETH_GENERIC,
-      type: 'TC_ROUTER_GENERIC'
+      family: 'generic',
+      disabled: false
     },
     '0x86904eb2b3c743400d03f929f2246efa80b91215': {
       name: 'Thorchain Aggregator Ethereum Short Notation Uniswap V2',
-      data: TC_ETH_SHORT_UNISWAP_V2,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV2',
+      disabled: false
     },
     '0xbf365e79aa44a2164da135100c57fdb6635ae870': {
       name: 'Thorchain Aggregator Ethereum Short Notation Sushiswap',
-      data: TC_ETH_SHORT_SUSHISWAP,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV2',
+      disabled: false
     },
     '0xbd68cbe6c247e2c3a0e36b8f0e24964914f26ee8': {
       name: 'Thorchain Aggregator Ethereum Short Notation Uniswap V3 0.01%',
-      data: TC_ETH_SHORT_UNISWAP_V3_001,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0xe4ddca21881bac219af7f217703db0475d2a9f02': {
       name: 'Thorchain Aggregator Ethereum Short Notation Uniswap V3 0.005',
-      data: TC_ETH_SHORT_UNISWAP_V3_005,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0x11733abf0cdb43298f7e949c930188451a9a9ef2': {
       name: 'Thorchain Aggregator Ethereum Short Notation Uniswap V3 0.3%',
-      data: TC_ETH_SHORT_UNISWAP_V3_03,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     },
     '0xb33874810e5395eb49d8bd7e912631db115d5a03': {
       name: 'Thorchain Aggregator Ethereum Short Notation Uniswap V3 1%',
-      data: TC_ETH_SHORT_UNISWAP_V3_1,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV3',
+      disabled: false
     }
   },
   avalanche: {
     '0x942c6da485fd6cef255853ef83a149d43a73f18a': {
       name: 'Thorchain Aggregator Avalanche Pangolin',
-      data: TC_AVAX_PANGOLIN,
-      type: 'TC_ROUTER_PANGOLIN'
+      family: 'uniswapV2',
+      disabled: false
     },
     '0x3b7dbdd635b99cea39d3d95dbd0217f05e55b212': {
       name: 'Thorchain Aggregator Avalanche Trader Joe',
-      data: TC_AVAX_TRADER_JOE,
-      type: 'TC_ROUTER_UNISWAP'
+      family: 'uniswapV2',
+      disabled: false
     },
     '0x7c38b8b2eff28511ecc14a621e263857fb5771d3': {
       name: 'Thorchain Aggregator Avalanche Generic',
-      data: TC_AVAX_GENERIC,
-      type: 'TC_ROUTER_GENERIC'
+      family: 'generic',
+      disabled: false
     }
   }
 }
+
+const findAggregator = (
+  aggregators: TcAggregatorMap,
+  currencyPluginId: string,
+  contractAddress: string
+): TcAggregator | undefined => {
+  const contracts = aggregators[currencyPluginId] ?? {}
+  const address = Object.keys(contracts).find(
+    address => address.toLowerCase() === contractAddress.toLowerCase()
+  )
+  if (address != null) return contracts[address]
+}
+
+/**
+ * Looks up the ABI for an aggregator contract we know how to call.
+ * Contracts from the info server take precedence over the built-in ones,
+ * so they can add new deployments or disable broken ones.
+ */
+export const getTcAggregatorAbi = (
+  currencyPluginId: string,
+  contractAddress: string,
+  infoAggregators: TcAggregatorMap = {}
+): ContractInterface | undefined => {
+  const aggregator =
+    findAggregator(infoAggregators, currencyPluginId, contractAddress) ??
+    findAggregator(tcAggregators, currencyPluginId, contractAddress)
+  if (aggregator == null || aggregator.disabled) return
+  if (
+    !Object.prototype.hasOwnProperty.call(tcAggregatorAbis, aggregator.family)
+  ) {
+    return
+  }
+  return tcAggregatorAbis[aggregator.family]
+}
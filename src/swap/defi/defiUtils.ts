@@ -1,22 +1,135 @@
-import { EdgeCurrencyInfo, EdgeMetaToken } from 'edge-core-js/types'
+import { gt, gte, lt, mul, round, sub } from 'biggystring'
+import {
+  asArray,
+  asBoolean,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+import {
+  EdgeCurrencyInfo,
+  EdgeCurrencyWallet,
+  EdgeSpendInfo,
+  EdgeTransaction,
+  JsonObject
+} from 'edge-core-js/types'
 import { ethers } from 'ethers'
 
+import { getContractAddress } from '../../swap-helpers'
+import { asNumberString, EdgeSwapRequestPlugin } from '../types'
 import abi from './abi/THORCHAIN_SWAP_ABI'
 import erc20Abi from './abi/UNISWAP_V2_ERC20_ABI'
 
+export const DEFAULT_SLIPPAGE = '0.05'
+export const DEFAULT_DEADLINE_MS = 1000 * 60
+
+const MIN_SLIPPAGE = '0.001'
+const MAX_SLIPPAGE = '0.5'
+const MIN_DEADLINE_MS = 1000 * 30
+const MAX_DEADLINE_MS = 1000 * 60 * 60
+
+const asDexSwapSettings = asObject({
+  // Fraction of the expected output the user is willing to give up:
+  slippage: asOptional(asNumberString),
+  deadlineMs: asOptional(asNumber),
+  // Approve the maximum amount, so later swaps need no approval:
+  unlimitedApproval: asOptional(asBoolean),
+  // Reset any allowance the swap leaves behind:
+  revokeApproval: asOptional(asBoolean)
+})
+
+export interface DexSwapSettings {
+  slippage: string
+  deadlineMs: number
+  unlimitedApproval: boolean
+  revokeApproval: boolean
+}
+
+/**
+ * Reads the slippage tolerance & deadline for a DEX swap.
+ * Values on the request take priority over the plugin's user settings,
+ * and values the user chose must fall within sane bounds.
+ */
+export const getDexSwapSettings = (
+  userSettings: JsonObject | undefined,
+  request: EdgeSwapRequestPlugin,
+  defaults: Partial<DexSwapSettings> = {}
+): DexSwapSettings => {
+  const fromSettings = asDexSwapSettings(userSettings ?? {})
+  const fromRequest = asDexSwapSettings(request)
+  const slippage = fromRequest.slippage ?? fromSettings.slippage
+  const deadlineMs = fromRequest.deadlineMs ?? fromSettings.deadlineMs
+
+  if (
+    slippage != null &&
+    (lt(slippage, MIN_SLIPPAGE) || gt(slippage, MAX_SLIPPAGE))
+  ) {
+    throw new Error(
+      `Slippage ${slippage} must be between ${MIN_SLIPPAGE} and ${MAX_SLIPPAGE}`
+    )
+  }
+  if (
+    deadlineMs != null &&
+    (deadlineMs < MIN_DEADLINE_MS || deadlineMs > MAX_DEADLINE_MS)
+  ) {
+    throw new Error(
+      `Deadline ${deadlineMs}ms must be between ${MIN_DEADLINE_MS}ms and ${MAX_DEADLINE_MS}ms`
+    )
+  }
+
+  return {
+    slippage: slippage ?? defaults.slippage ?? DEFAULT_SLIPPAGE,
+    deadlineMs: deadlineMs ?? defaults.deadlineMs ?? DEFAULT_DEADLINE_MS,
+    unlimitedApproval:
+      fromRequest.unlimitedApproval ?? fromSettings.unlimitedApproval ?? false,
+    revokeApproval:
+      fromRequest.revokeApproval ?? fromSettings.revokeApproval ?? false
+  }
+}
+
+/**
+ * The least a swap can pay out once the slippage tolerance is used up.
+ */
+export const getMinReceiveAmount = (
+  expectedNativeAmount: string,
+  slippage: string
+): string => round(mul(expectedNativeAmount, sub('1', slippage)), 0)
+
 /**
- * Get the token contract addresses from the wallet's EdgeMetaTokens
+ * Get the wrapped native token's contract address from the EdgeMetaTokens
  */
-const getMetaTokenAddress = (
-  metaTokens: EdgeMetaToken[],
-  tokenCurrencyCode: string
+const getWrappedAddress = (currencyInfo: EdgeCurrencyInfo): string => {
+  const { currencyCode, metaTokens } = currencyInfo
+  const wrappedCurrencyCode = `W${currencyCode}`
+  const metaToken = metaTokens.find(
+    mt => mt.currencyCode === wrappedCurrencyCode
+  )
+
+  if (metaToken?.contractAddress == null)
+    throw new Error(
+      'Could not find contract address for ' + wrappedCurrencyCode
+    )
+
+  return metaToken.contractAddress
+}
+
+/**
+ * Get a token's contract address from the wallet's tokens,
+ * or the wrapped equivalent for the native currency.
+ */
+const getTokenAddress = (
+  wallet: EdgeCurrencyWallet,
+  tokenId: string | undefined,
+  wrappedAddress: string
 ): string => {
-  const metaToken = metaTokens.find(mt => mt.currencyCode === tokenCurrencyCode)
+  if (tokenId == null) return wrappedAddress
 
-  if (metaToken == null || metaToken?.contractAddress === undefined)
-    throw new Error('Could not find contract address for ' + tokenCurrencyCode)
+  const contractAddress = getContractAddress(wallet, tokenId)
+  if (contractAddress == null)
+    throw new Error('Could not find contract address for ' + tokenId)
 
-  return metaToken.contractAddress ?? ''
+  return contractAddress
 }
 
 export interface InOutTokenAddresses {
@@ -34,29 +147,26 @@ export interface InOutTokenAddresses {
  * contract addresses, if different.
  */
 export const getInOutTokenAddresses = (
-  currencyInfo: EdgeCurrencyInfo,
-  fromCurrencyCode: string,
-  toCurrencyCode: string
+  wallet: EdgeCurrencyWallet,
+  fromTokenId: string | undefined,
+  toTokenId: string | undefined
 ): InOutTokenAddresses => {
-  const { currencyCode: nativeCurrencyCode, metaTokens } = currencyInfo
-  const wrappedCurrencyCode = `W${nativeCurrencyCode}`
-  const isFromNativeCurrency = fromCurrencyCode === nativeCurrencyCode
-  const isToNativeCurrency = toCurrencyCode === nativeCurrencyCode
-  const isFromWrappedCurrency = fromCurrencyCode === wrappedCurrencyCode
-  const isToWrappedCurrency = toCurrencyCode === wrappedCurrencyCode
+  const wrappedAddress = getWrappedAddress(wallet.currencyInfo)
+  const fromTokenAddress = getTokenAddress(wallet, fromTokenId, wrappedAddress)
+  const toTokenAddress = getTokenAddress(wallet, toTokenId, wrappedAddress)
+
+  const isFromNativeCurrency = fromTokenId == null
+  const isToNativeCurrency = toTokenId == null
+  const isFromWrappedCurrency =
+    !isFromNativeCurrency &&
+    fromTokenAddress.toLowerCase() === wrappedAddress.toLowerCase()
+  const isToWrappedCurrency =
+    !isToNativeCurrency &&
+    toTokenAddress.toLowerCase() === wrappedAddress.toLowerCase()
   const isWrappingSwap =
     (isFromNativeCurrency && isToWrappedCurrency) ||
     (isFromWrappedCurrency && isToNativeCurrency)
 
-  const fromTokenAddress = getMetaTokenAddress(
-    metaTokens,
-    isFromNativeCurrency ? wrappedCurrencyCode : fromCurrencyCode
-  )
-  const toTokenAddress = getMetaTokenAddress(
-    metaTokens,
-    isToNativeCurrency ? wrappedCurrencyCode : toCurrencyCode
-  )
-
   return {
     fromTokenAddress,
     toTokenAddress,
@@ -73,12 +183,74 @@ const getEvmCheckSumAddress = (assetAddress: string): string => {
   return ethers.utils.getAddress(assetAddress.toLowerCase())
 }
 
-export const getEvmApprovalData = async (params: {
-  contractAddress: string
+const asEvmOtherSettings = asObject({
+  rpcServers: asArray(asString)
+})
+
+/**
+ * Sends each RPC call to the servers in turn, until one of them answers.
+ * ethers' FallbackProvider wants a quorum, which public servers can't
+ * reliably give us.
+ */
+export class EvmWaterfallProvider extends ethers.providers
+  .StaticJsonRpcProvider {
+  readonly providers: ethers.providers.JsonRpcProvider[]
+
+  constructor(providers: ethers.providers.JsonRpcProvider[]) {
+    super(providers[0]?.connection)
+    this.providers = providers
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    let lastError: unknown = new Error('No RPC servers')
+    for (const provider of this.providers) {
+      try {
+        return await provider.send(method, params)
+      } catch (error: unknown) {
+        lastError = error
+      }
+    }
+    throw lastError
+  }
+}
+
+/**
+ * Connects to the RPC servers the wallet's own currency plugin uses,
+ * if it lists any.
+ */
+export const getEvmProvider = (
+  wallet: EdgeCurrencyWallet
+): ethers.providers.Provider | undefined => {
+  const { otherSettings } = wallet.currencyInfo.defaultSettings
+  try {
+    const { rpcServers } = asEvmOtherSettings(otherSettings)
+    if (rpcServers.length === 0) return
+    return new EvmWaterfallProvider(
+      rpcServers.map(url => new ethers.providers.StaticJsonRpcProvider(url))
+    )
+  } catch (error: unknown) {}
+}
+
+/**
+ * Reads how much of a token the spender may still move for the owner.
+ */
+export const getEvmAllowance = async (params: {
+  provider: ethers.providers.Provider
   assetAddress: string
+  ownerAddress: string
+  spenderAddress: string
+}): Promise<string> => {
+  const { provider, assetAddress, ownerAddress, spenderAddress } = params
+  const contract = new ethers.Contract(assetAddress, erc20Abi, provider)
+  const allowance = await contract.allowance(ownerAddress, spenderAddress)
+  return allowance.toString()
+}
+
+const makeEvmApproveData = async (
+  contractAddress: string,
+  assetAddress: string,
   nativeAmount: string
-}): Promise<string | undefined> => {
-  const { contractAddress, assetAddress, nativeAmount } = params
+): Promise<string | undefined> => {
   const contract = new ethers.Contract(
     assetAddress,
     erc20Abi,
@@ -97,6 +269,111 @@ export const getEvmApprovalData = async (params: {
   return approveTx.data
 }
 
+/**
+ * Builds the data for an ERC-20 approval, or returns undefined if the
+ * existing allowance already covers the amount.
+ * If we can't check the allowance, we always approve.
+ */
+export const getEvmApprovalData = async (params: {
+  contractAddress: string
+  assetAddress: string
+  nativeAmount: string
+  provider?: ethers.providers.Provider
+  ownerAddress?: string
+  unlimited?: boolean
+}): Promise<string | undefined> => {
+  const {
+    contractAddress,
+    assetAddress,
+    nativeAmount,
+    provider,
+    ownerAddress,
+    unlimited = false
+  } = params
+
+  if (provider != null && ownerAddress != null) {
+    const allowance = await getEvmAllowance({
+      provider,
+      assetAddress,
+      ownerAddress,
+      spenderAddress: contractAddress
+    }).catch(() => '0')
+    if (gte(allowance, nativeAmount)) return
+  }
+
+  return await makeEvmApproveData(
+    contractAddress,
+    assetAddress,
+    unlimited ? ethers.constants.MaxUint256.toString() : nativeAmount
+  )
+}
+
+/**
+ * Builds the data for an ERC-20 approval that resets the allowance to zero.
+ */
+export const getEvmRevokeData = async (params: {
+  contractAddress: string
+  assetAddress: string
+}): Promise<string | undefined> =>
+  await makeEvmApproveData(params.contractAddress, params.assetAddress, '0')
+
+/**
+ * Makes the approval & revoke transactions an EVM token swap needs,
+ * following the user's approval settings. The approval is skipped
+ * when the existing allowance already covers the swap.
+ */
+export const makeEvmApprovalTxs = async (params: {
+  wallet: EdgeCurrencyWallet
+  currencyCode: string
+  contractAddress: string
+  assetAddress: string
+  nativeAmount: string
+  settings: Pick<DexSwapSettings, 'unlimitedApproval' | 'revokeApproval'>
+  name: string
+  customNetworkFee?: JsonObject
+}): Promise<{ preTx?: EdgeTransaction; postTx?: EdgeTransaction }> => {
+  const {
+    wallet,
+    currencyCode,
+    contractAddress,
+    assetAddress,
+    nativeAmount,
+    settings,
+    name,
+    customNetworkFee
+  } = params
+
+  const makeTx = async (memo: string): Promise<EdgeTransaction> => {
+    const spendInfo: EdgeSpendInfo = {
+      currencyCode,
+      spendTargets: [{ memo, nativeAmount: '0', publicAddress: assetAddress }],
+      metadata: { name, category: 'expense:Token Approval' }
+    }
+    if (customNetworkFee != null) {
+      spendInfo.networkFeeOption = 'custom'
+      spendInfo.customNetworkFee = customNetworkFee
+    }
+    return await wallet.makeSpend(spendInfo)
+  }
+
+  // An exact approval is used up by the swap, so only an unlimited
+  // or pre-existing allowance can be left behind to revoke:
+  const approvalData = await getEvmApprovalData({
+    contractAddress,
+    assetAddress,
+    nativeAmount,
+    provider: getEvmProvider(wallet),
+    ownerAddress: (await wallet.getReceiveAddress()).publicAddress,
+    unlimited: settings.unlimitedApproval && !settings.revokeApproval
+  })
+  if (approvalData != null) return { preTx: await makeTx(approvalData) }
+  if (!settings.revokeApproval) return {}
+
+  const revokeData = await getEvmRevokeData({ contractAddress, assetAddress })
+  if (revokeData == null) return {}
+  return { postTx: await makeTx(revokeData) }
+}
+
 export const getEvmTokenData = async (params: {
   memo: string
   // usersSendingAddress: string,
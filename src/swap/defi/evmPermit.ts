@@ -0,0 +1,300 @@
+import { gte } from 'biggystring'
+import { asMaybe, asObject, asOptional, asString, asValue } from 'cleaners'
+import { EdgeCurrencyWallet } from 'edge-core-js/types'
+import { ethers } from 'ethers'
+
+import permitAbi from './abi/ERC20_PERMIT_ABI'
+import { getEvmAllowance } from './defiUtils'
+
+// Uniswap's Permit2 lives at the same address on every EVM chain:
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3'
+
+interface TypedDataField {
+  name: string
+  type: string
+}
+
+/**
+ * EIP-712 typed data, in the `eth_signTypedData_v4` shape.
+ */
+export interface EvmTypedData {
+  types: { [type: string]: TypedDataField[] }
+  primaryType: string
+  domain: { [key: string]: string | number }
+  message: { [key: string]: unknown }
+}
+
+/**
+ * An EIP-2612 signature, letting the spender call `permit` on the token.
+ */
+export interface Eip2612Permit {
+  type: 'eip2612'
+  deadline: number
+  v: number
+  r: string
+  s: string
+}
+
+/**
+ * A Permit2 signature transfer, which the spender redeems through Permit2.
+ * The owner must have already approved Permit2 itself.
+ */
+export interface Permit2Permit {
+  type: 'permit2'
+  nonce: string
+  deadline: number
+  signature: string
+}
+
+export type EvmPermit = Eip2612Permit | Permit2Permit
+
+/**
+ * A permit the owner has yet to sign,
+ * along with the details the signed permit will need.
+ */
+export type UnsignedEvmPermit =
+  | { type: 'eip2612'; deadline: number; typedData: EvmTypedData }
+  | {
+      type: 'permit2'
+      nonce: string
+      deadline: number
+      typedData: EvmTypedData
+    }
+
+const EIP712_DOMAIN_TYPE: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+]
+
+const EIP2612_PERMIT_TYPEHASH = ethers.utils.id(
+  'Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)'
+)
+
+export interface Eip2612Domain {
+  name: string
+  version: string
+  chainId: number
+  verifyingContract: string
+}
+
+export const makeEip2612TypedData = (params: {
+  domain: Eip2612Domain
+  owner: string
+  spender: string
+  value: string
+  nonce: string
+  deadline: number
+}): EvmTypedData => {
+  const { domain, owner, spender, value, nonce, deadline } = params
+  return {
+    types: {
+      EIP712Domain: EIP712_DOMAIN_TYPE,
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ]
+    },
+    primaryType: 'Permit',
+    domain: { ...domain },
+    message: { owner, spender, value, nonce, deadline }
+  }
+}
+
+export const makePermit2TypedData = (params: {
+  chainId: number
+  token: string
+  amount: string
+  spender: string
+  nonce: string
+  deadline: number
+}): EvmTypedData => {
+  const { chainId, token, amount, spender, nonce, deadline } = params
+  return {
+    types: {
+      // Permit2's domain has no version:
+      EIP712Domain: EIP712_DOMAIN_TYPE.filter(
+        (field: TypedDataField) => field.name !== 'version'
+      ),
+      PermitTransferFrom: [
+        { name: 'permitted', type: 'TokenPermissions' },
+        { name: 'spender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ],
+      TokenPermissions: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint256' }
+      ]
+    },
+    primaryType: 'PermitTransferFrom',
+    domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+    message: { permitted: { token, amount }, spender, nonce, deadline }
+  }
+}
+
+/**
+ * Returns the hash an EIP-712 domain should have on-chain.
+ */
+export const hashTypedDataDomain = (domain: EvmTypedData['domain']): string =>
+  ethers.utils._TypedDataEncoder.hashDomain(domain)
+
+const asCallException = asObject({
+  code: asValue(ethers.errors.CALL_EXCEPTION),
+  error: asOptional(asObject({ code: asOptional(asString) }))
+})
+
+/**
+ * Ethers reports every failed `eth_call` as a call exception,
+ * so look inside to tell a revert apart from a server that didn't answer.
+ */
+const isRevert = (error: unknown): boolean => {
+  const exception = asMaybe(asCallException)(error)
+  if (exception == null) return false
+  const code = exception.error?.code
+  return code !== ethers.errors.SERVER_ERROR && code !== ethers.errors.TIMEOUT
+}
+
+/**
+ * Finds the EIP-712 domain a token uses for `permit`, or returns undefined
+ * if the token doesn't support EIP-2612. Tokens don't publish their domain,
+ * so we rebuild it and compare against the on-chain `DOMAIN_SEPARATOR`.
+ *
+ * Some tokens, such as DAI, have a domain but sign a different `Permit`.
+ * Those publish their `PERMIT_TYPEHASH`, so we check it where it exists.
+ */
+export const getEip2612Domain = async (
+  provider: ethers.providers.Provider,
+  tokenAddress: string,
+  chainId: number
+): Promise<Eip2612Domain | undefined> => {
+  const token = new ethers.Contract(tokenAddress, permitAbi, provider)
+  const fallback = <T>(value: T) => (error: unknown): T => {
+    if (isRevert(error)) return value
+    throw error
+  }
+  const [name, separator] = await Promise.all([
+    token.name(),
+    token.DOMAIN_SEPARATOR()
+  ]).catch(fallback([undefined, undefined]))
+  if (name == null || separator == null) return
+  const version: string = await token.version().catch(fallback('1'))
+  const domain: Eip2612Domain = {
+    name,
+    version,
+    chainId,
+    verifyingContract: ethers.utils.getAddress(tokenAddress)
+  }
+  if (hashTypedDataDomain({ ...domain }) !== separator) return
+  const typehash: string | undefined = await token
+    .PERMIT_TYPEHASH()
+    .catch(fallback(undefined))
+  if (typehash != null && typehash !== EIP2612_PERMIT_TYPEHASH) return
+  return domain
+}
+
+/**
+ * Asks the wallet to sign EIP-712 typed data.
+ */
+export const signEvmTypedData = async (
+  wallet: EdgeCurrencyWallet,
+  typedData: EvmTypedData
+): Promise<string> =>
+  await wallet.signMessage(JSON.stringify(typedData), {
+    otherParams: { typedData: true }
+  })
+
+/**
+ * Prepares a permit letting the spender pull the swap amount in the same
+ * transaction as the swap, so no separate approval is needed.
+ * EIP-2612 is preferred, since it needs no prior setup. Permit2 is used
+ * if the spender accepts it and the owner has already approved Permit2.
+ *
+ * Returns undefined if the token supports neither, so the caller
+ * can fall back to an approval transaction. Other failures, such as
+ * an RPC server that doesn't answer, are thrown.
+ *
+ * The permit is not signed yet, so quotes can include it without
+ * bothering the user. Call `signEvmPermit` once they accept the quote.
+ *
+ * Only spenders that redeem the signature themselves can use this.
+ * The THORChain & Uniswap V2 routers only take plain allowances.
+ */
+export const getEvmPermit = async (params: {
+  wallet: EdgeCurrencyWallet
+  provider: ethers.providers.Provider
+  assetAddress: string
+  spenderAddress: string
+  nativeAmount: string
+  deadline: number // unix timestamp
+  allowPermit2: boolean
+}): Promise<UnsignedEvmPermit | undefined> => {
+  const {
+    wallet,
+    provider,
+    assetAddress,
+    spenderAddress,
+    nativeAmount,
+    deadline,
+    allowPermit2
+  } = params
+
+  const owner = (await wallet.getReceiveAddress()).publicAddress
+  const { chainId } = await provider.getNetwork()
+
+  const domain = await getEip2612Domain(provider, assetAddress, chainId)
+  if (domain != null) {
+    const token = new ethers.Contract(assetAddress, permitAbi, provider)
+    const nonce = await token.nonces(owner)
+    const typedData = makeEip2612TypedData({
+      domain,
+      owner,
+      spender: spenderAddress,
+      value: nativeAmount,
+      nonce: nonce.toString(),
+      deadline
+    })
+    return { type: 'eip2612', deadline, typedData }
+  }
+
+  if (!allowPermit2) return
+  const permit2Allowance = await getEvmAllowance({
+    provider,
+    assetAddress,
+    ownerAddress: owner,
+    spenderAddress: PERMIT2_ADDRESS
+  })
+  if (!gte(permit2Allowance, nativeAmount)) return
+
+  // Permit2 nonces are an unordered bitmap, so any unused value works:
+  const nonce = ethers.BigNumber.from(ethers.utils.randomBytes(31)).toString()
+  const typedData = makePermit2TypedData({
+    chainId,
+    token: assetAddress,
+    amount: nativeAmount,
+    spender: spenderAddress,
+    nonce,
+    deadline
+  })
+  return { type: 'permit2', nonce, deadline, typedData }
+}
+
+/**
+ * Asks the wallet to sign a permit from `getEvmPermit`.
+ */
+export const signEvmPermit = async (
+  wallet: EdgeCurrencyWallet,
+  permit: UnsignedEvmPermit
+): Promise<EvmPermit> => {
+  const signature = await signEvmTypedData(wallet, permit.typedData)
+  if (permit.type === 'permit2') {
+    const { nonce, deadline } = permit
+    return { type: 'permit2', nonce, deadline, signature }
+  }
+  const { v, r, s } = ethers.utils.splitSignature(signature)
+  return { type: 'eip2612', deadline: permit.deadline, v, r, s }
+}
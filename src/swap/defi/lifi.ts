@@ -1,35 +1,60 @@
-import { mul } from 'biggystring'
-import { asArray, asNumber, asObject, asOptional, asString } from 'cleaners'
+import { add, div, mul } from 'biggystring'
+import {
+  asArray,
+  asMap,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
 import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
-  EdgeTransaction,
+  JsonObject,
   SwapCurrencyError
 } from 'edge-core-js/types'
+import { ethers } from 'ethers'
 
 import {
   checkInvalidCodes,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeFractionFee,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../../swap-helpers'
 import { div18 } from '../../util/biggystringplus'
+import {
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../../util/exchangeInfo'
 import {
   convertRequest,
-  fetchInfo,
   fetchWaterfall,
   getAddress,
   hexToDecimal,
-  makeQueryParams,
-  promiseWithTimeout
+  makeQueryParams
 } from '../../util/utils'
-import { asNumberString, EdgeSwapRequestPlugin, StringMap } from '../types'
-import { getEvmApprovalData } from './defiUtils'
+import {
+  asNumberString,
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  StringMap,
+  SwapFee,
+  SwapOrderStatus
+} from '../types'
+import permit2ProxyAbi from './abi/LIFI_PERMIT2_PROXY_ABI'
+import {
+  getDexSwapSettings,
+  getEvmProvider,
+  makeEvmApprovalTxs
+} from './defiUtils'
+import { EvmPermit, getEvmPermit, signEvmPermit } from './evmPermit'
 
 const pluginId = 'lifi'
 const swapInfo: EdgeSwapInfo = {
@@ -46,8 +71,8 @@ const asInitOptions = asObject({
 })
 
 const LIFI_SERVERS_DEFAULT = ['https://li.quest']
-const EXPIRATION_MS = 1000 * 60
-const EXCHANGE_INFO_UPDATE_FREQ_MS = 60000
+// LI.FI's own default, when the user hasn't chosen a tolerance:
+const LIFI_DEFAULT_SLIPPAGE = '0.005'
 
 export const INVALID_CURRENCY_CODES: InvalidCurrencyCodes = {
   from: {},
@@ -79,52 +104,46 @@ const MAINNET_CODE_TRANSCRIPTION: StringMap = {
   velas: 'VEL'
 }
 
-const asExchangeInfo = asObject({
-  swap: asObject({
-    plugins: asObject({
-      lifi: asOptional(
-        asObject({
-          // perAssetSpread: asOptional(asArray(asAssetSpread)),
-          // volatilitySpread: asOptional(asNumber),
-          // likeKindVolatilitySpread: asOptional(asNumber),
-          // daVolatilitySpread: asOptional(asNumber),
-          lifiServers: asOptional(asArray(asString))
-        })
-      )
-    })
-  })
+const asLifiExchangeInfo = asObject({
+  // perAssetSpread: asOptional(asArray(asAssetSpread)),
+  // volatilitySpread: asOptional(asNumber),
+  // likeKindVolatilitySpread: asOptional(asNumber),
+  // daVolatilitySpread: asOptional(asNumber),
+  lifiServers: asOptional(asArray(asString)),
+  // LI.FI's Permit2Proxy contract on each chain, by pluginId:
+  permit2Proxies: asOptional(asMap(asString), {})
+})
+
+const asToken = asObject({
+  address: asString, // "0x2791bca1f2de4661ed88a30c99a7a9449aa84174",
+  chainId: asNumber, // 137,
+  symbol: asString, // "USDC",
+  decimals: asNumber, // 6,
+  name: asString, // "USDC",
+  priceUSD: asNumberString, // "1",
+  coinKey: asString // "USDC"
+})
+
+const asAction = asObject({
+  fromChainId: asNumber,
+  // fromAmount: asNumberString,
+  // fromToken: asToken,
+  toChainId: asNumber
+  // toToken: asToken
 })
 
-// const asToken = asObject({
-//   address: asString, // "0x2791bca1f2de4661ed88a30c99a7a9449aa84174",
-//   chainId: asNumber, // 137,
-//   symbol: asString, // "USDC",
-//   decimals: asNumber, // 6,
-//   name: asString, // "USDC",
-//   priceUSD: asNumberString, // "1",
-//   coinKey: asString // "USDC"
-// })
-
-// const asAction = asObject({
-//   fromChainId: asNumber,
-//   fromAmount: asNumberString,
-//   fromToken: asToken,
-//   toChainId: asNumber,
-//   toToken: asToken
-// })
-
-// const asFeeCost = asObject({
-//   amount: asNumberString, // "56495962827064236208",
-//   token: asToken
-// })
+const asFeeCost = asObject({
+  amount: asNumberString, // "56495962827064236208",
+  token: asToken
+})
 
 const asEstimate = asObject({
   fromAmount: asNumberString, // "400000",
   toAmount: asNumberString, // "237318132569913",
   toAmountMin: asNumberString, // "225452225941418",
   approvalAddress: asString, // "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE",
-  executionDuration: asNumber // 1168,
-  // feeCosts: asArray(asFeeCost)
+  executionDuration: asNumber, // 1168,
+  feeCosts: asOptional(asArray(asFeeCost), [])
 })
 
 const asTransactionRequest = asObject({
@@ -146,28 +165,131 @@ const asIncludedStep = asObject({
 const asV1Quote = asObject({
   id: asString,
   type: asString,
+  tool: asString, // "stargate"
   estimate: asEstimate,
   includedSteps: asArray(asIncludedStep),
-  // action: asAction,
+  action: asAction,
   transactionRequest: asTransactionRequest
 })
 
-type ExchangeInfo = ReturnType<typeof asExchangeInfo>
+const asTransferSide = asObject({
+  txHash: asOptional(asString),
+  amount: asOptional(asNumberString),
+  token: asOptional(
+    asObject({
+      decimals: asNumber
+    })
+  )
+})
 
-let exchangeInfo: ExchangeInfo | undefined
-let exchangeInfoLastUpdate: number = 0
+const asV1Status = asObject({
+  status: asString, // "PENDING"
+  substatus: asOptional(asString), // "WAIT_DESTINATION_TRANSACTION"
+  // Missing until LI.FI finds the transaction:
+  sending: asOptional(asTransferSide),
+  receiving: asOptional(asTransferSide)
+})
 
-export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
-  const { io, log } = opts
+// LI.FI statuses, refined by substatus where one is known:
+const ORDER_STATE_MAP: OrderStateMap = {
+  // Not indexed yet:
+  NOT_FOUND: 'confirming',
+  INVALID: 'failed',
+  PENDING: 'exchanging',
+  'PENDING:WAIT_SOURCE_CONFIRMATIONS': 'confirming',
+  'PENDING:WAIT_DESTINATION_TRANSACTION': 'sending',
+  DONE: 'completed',
+  'DONE:COMPLETED': 'completed',
+  'DONE:PARTIAL': 'partial',
+  'DONE:REFUNDED': 'refunded',
+  FAILED: 'failed',
+  'FAILED:EXPIRED': 'expired'
+}
+
+/**
+ * LI.FI tracks transfers by their source transaction. The bridge &
+ * chains are optional, but spare the status endpoint a search.
+ * Swaps on a single chain have no bridge.
+ */
+export interface LifiOrder {
+  txHash: string
+  bridge?: string
+  fromChain: number
+  toChain: number
+}
+
+export const makeLifiOrderId = (order: LifiOrder): string =>
+  [order.txHash, order.bridge ?? '', order.fromChain, order.toChain].join(':')
+
+export const parseLifiOrderId = (orderId: string): LifiOrder => {
+  const [txHash, bridge, fromChain, toChain] = orderId.split(':')
+  if (txHash === '' || bridge == null || fromChain == null || toChain == null) {
+    throw new Error(`Invalid LI.FI order id ${orderId}`)
+  }
+  return {
+    txHash,
+    bridge: bridge === '' ? undefined : bridge,
+    fromChain: Number(fromChain),
+    toChain: Number(toChain)
+  }
+}
+
+/**
+ * Converts a native amount LI.FI reports into exchange units.
+ */
+const toExchangeAmount = (
+  side: ReturnType<typeof asTransferSide> | undefined
+): string | undefined => {
+  if (side?.amount == null || side.token == null) return
+  const { decimals } = side.token
+  return div(side.amount, '1' + '0'.repeat(decimals), decimals)
+}
+
+// Redeeming the permit through the proxy costs more than the bare swap:
+const PERMIT_GAS_OVERHEAD = '100000'
+
+const permit2ProxyInterface = new ethers.utils.Interface(permit2ProxyAbi)
+
+/**
+ * Wraps the diamond calldata in a call to LI.FI's Permit2Proxy,
+ * which redeems the permit before forwarding the swap.
+ */
+const makePermitProxyData = (
+  permit: EvmPermit,
+  diamondCalldata: string,
+  assetAddress: string,
+  nativeAmount: string
+): string => {
+  if (permit.type === 'eip2612') {
+    const { deadline, v, r, s } = permit
+    return permit2ProxyInterface.encodeFunctionData(
+      'callDiamondWithEIP2612Signature',
+      [assetAddress, nativeAmount, deadline, v, r, s, diamondCalldata]
+    )
+  }
+  const { nonce, deadline, signature } = permit
+  return permit2ProxyInterface.encodeFunctionData('callDiamondWithPermit2', [
+    diamondCalldata,
+    [[assetAddress, nativeAmount], nonce, deadline],
+    signature
+  ])
+}
+
+export function makeLifiPlugin(
+  opts: EdgeCorePluginOptions
+): EdgeSwapPluginWithStatus {
+  const { io } = opts
   const { affiliateFeeBasis } = asInitOptions(opts.initOptions)
   const affiliateFee = div18(affiliateFeeBasis, '10000')
+  const infoLoader = makeExchangeInfoLoader(opts, 'lifi', asLifiExchangeInfo)
 
   const headers = {
     'Content-Type': 'application/json'
   }
 
   const fetchSwapQuoteInner = async (
-    request: EdgeSwapRequestPlugin
+    request: EdgeSwapRequestPlugin,
+    userSettings: JsonObject | undefined
   ): Promise<SwapOrder> => {
     const {
       fromCurrencyCode,
@@ -179,10 +301,6 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       toWallet,
       quoteFor
     } = request
-    if (quoteFor !== 'from') {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
-    }
-
     const fromToken = fromWallet.currencyConfig.allTokens[fromTokenId ?? '']
     let fromContractAddress
     let sendingToken = false
@@ -205,7 +323,7 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
 
-    const { appId, integrator } = asInitOptions(opts.initOptions)
+    const { integrator } = asInitOptions(opts.initOptions)
     const fetch = io.fetch
 
     // Do not support transfer between same assets
@@ -233,99 +351,122 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
 
-    const now = Date.now()
-    if (
-      now - exchangeInfoLastUpdate > EXCHANGE_INFO_UPDATE_FREQ_MS ||
-      exchangeInfo == null
-    ) {
-      try {
-        const exchangeInfoResponse = await promiseWithTimeout(
-          fetchInfo(fetch, `v1/exchangeInfo/${appId}`)
-        )
+    const exchangeInfo = await infoLoader.getInfo()
+    checkExchangeInfo(exchangeInfo, request, swapInfo)
+    lifiServers = exchangeInfo?.lifiServers ?? lifiServers
 
-        if (exchangeInfoResponse.ok === true) {
-          exchangeInfo = asExchangeInfo(await exchangeInfoResponse.json())
-          exchangeInfoLastUpdate = now
-        } else {
-          // Error is ok. We just use defaults
-          const text: string = await exchangeInfoResponse.text()
-          log.warn(
-            `Error getting info server exchangeInfo. Using defaults... Error: ${text}`
-          )
-        }
-      } catch (e: any) {
-        log.warn(
-          'Error getting info server exchangeInfo. Using defaults...',
-          e.message
-        )
-      }
-    }
-
-    if (exchangeInfo != null) {
-      const { lifi } = exchangeInfo.swap.plugins
-      lifiServers = lifi?.lifiServers ?? lifiServers
-    }
+    const settings = getDexSwapSettings(userSettings, request, {
+      slippage: LIFI_DEFAULT_SLIPPAGE
+    })
+    const { slippage, deadlineMs } = settings
 
     const params = makeQueryParams({
       fromChain: fromMainnetCode,
       toChain: toMainnetCode,
       fromToken: fromContractAddress,
       toToken: toContractAddress,
-      fromAmount: nativeAmount,
+      // Exact-output quotes name the amount to receive instead:
+      ...(quoteFor === 'to'
+        ? { toAmount: nativeAmount }
+        : { fromAmount: nativeAmount }),
       fromAddress,
       toAddress,
       integrator,
-      fee: affiliateFee
+      fee: affiliateFee,
+      slippage
     })
+    const quotePath = quoteFor === 'to' ? 'v1/quote/toAmount' : 'v1/quote'
     // Get current pool
     const [quoteResponse] = await Promise.all([
-      fetchWaterfall(fetch, lifiServers, `v1/quote?${params}`, {
+      fetchWaterfall(fetch, lifiServers, `${quotePath}?${params}`, {
         headers
       })
     ])
 
     if (!quoteResponse.ok) {
       const responseText = await quoteResponse.text()
-      throw new Error(`Lifi could not fetch v1/quote: ${responseText}`)
+      throw new Error(`Lifi could not fetch ${quotePath}: ${responseText}`)
     }
 
     const quoteJson = await quoteResponse.json()
     const quote = asV1Quote(quoteJson)
-    const { estimate, includedSteps } = quote
-    const { approvalAddress, toAmountMin } = estimate
-
-    const { data, gasLimit, gasPrice } = quote.transactionRequest
+    const { action, estimate, includedSteps, tool } = quote
+    const { approvalAddress, feeCosts, fromAmount, toAmountMin } = estimate
+    const fromNativeAmount = quoteFor === 'to' ? fromAmount : nativeAmount
+
+    const { chainId, data, gasLimit, gasPrice } = quote.transactionRequest
+
+    // Bridge & DEX fees charged in the source asset come out of
+    // the amount we send, so report the others on their own.
+    // Tickers can be shared, so match the asset by its address,
+    // which LI.FI gives as zero for mainnet coins:
+    const sourceAddress = sendingToken
+      ? fromContractAddress.toLowerCase()
+      : ethers.constants.AddressZero
+    let protocolFee = '0'
+    const otherFees: { [tokenKey: string]: SwapFee } = {}
+    for (const { amount, token } of feeCosts) {
+      if (
+        token.chainId === chainId &&
+        token.address.toLowerCase() === sourceAddress
+      ) {
+        protocolFee = add(protocolFee, amount)
+        continue
+      }
+      const tokenKey = `${token.chainId}:${token.address.toLowerCase()}`
+      const { nativeAmount = '0' } = otherFees[tokenKey] ?? {}
+      otherFees[tokenKey] = {
+        currencyCode: token.symbol,
+        nativeAmount: add(nativeAmount, amount)
+      }
+    }
+    const otherProtocolFees = Object.values(otherFees)
     const gasPriceDecimal = hexToDecimal(gasPrice)
     const gasPriceGwei = div18(gasPriceDecimal, '1000000000')
     const providers = includedSteps.map(s => s.toolDetails.name)
 
-    let preTx: EdgeTransaction | undefined
-    if (sendingToken) {
-      const approvalData = await getEvmApprovalData({
-        contractAddress: approvalAddress,
-        assetAddress: fromContractAddress,
-        nativeAmount
-      })
-
-      const spendInfo: EdgeSpendInfo = {
-        currencyCode: request.fromCurrencyCode,
-        spendTargets: [
-          {
-            memo: approvalData,
-            nativeAmount: '0',
-            publicAddress: fromContractAddress
-          }
-        ],
-        networkFeeOption: 'custom',
-        customNetworkFee: {
-          gasPrice: gasPriceGwei
-        },
-        metadata: {
-          name: 'Li.Fi',
-          category: 'expense:Token Approval'
-        }
-      }
-      preTx = await request.fromWallet.makeSpend(spendInfo)
+    // Prefer a permit through LI.FI's proxy, if the chain has one:
+    const expirationDate = new Date(Date.now() + deadlineMs)
+    const proxyAddress =
+      exchangeInfo?.permit2Proxies[fromWallet.currencyInfo.pluginId]
+    const provider = getEvmProvider(fromWallet)
+    const permit =
+      sendingToken && proxyAddress != null && provider != null
+        ? await getEvmPermit({
+            wallet: fromWallet,
+            provider,
+            assetAddress: fromContractAddress,
+            spenderAddress: proxyAddress,
+            nativeAmount: fromNativeAmount,
+            deadline: Math.round(expirationDate.getTime() / 1000),
+            allowPermit2: true
+          })
+        : undefined
+
+    // Otherwise, approve LI.FI, unless it already has enough allowance
+    const { preTx, postTx } =
+      sendingToken && permit == null
+        ? await makeEvmApprovalTxs({
+            wallet: fromWallet,
+            currencyCode: request.fromCurrencyCode,
+            contractAddress: approvalAddress,
+            assetAddress: fromContractAddress,
+            nativeAmount: fromNativeAmount,
+            settings,
+            name: 'Li.Fi',
+            customNetworkFee: { gasPrice: gasPriceGwei }
+          })
+        : { preTx: undefined, postTx: undefined }
+
+    // XXX Hack. Lifi doesn't properly estimate ethereum gas limits. Increase by 40%
+    let gasLimitDecimal =
+      fromWallet.currencyInfo.pluginId !== 'ethereum'
+        ? hexToDecimal(gasLimit)
+        : mul(hexToDecimal(gasLimit), '1.4')
+    let publicAddress = approvalAddress
+    if (permit != null && proxyAddress != null) {
+      gasLimitDecimal = add(gasLimitDecimal, PERMIT_GAS_OVERHEAD)
+      publicAddress = proxyAddress
     }
 
     const spendInfo: EdgeSpendInfo = {
@@ -333,17 +474,13 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       spendTargets: [
         {
           memo: data,
-          nativeAmount: nativeAmount,
-          publicAddress: approvalAddress
+          nativeAmount: fromNativeAmount,
+          publicAddress
         }
       ],
       networkFeeOption: 'custom',
       customNetworkFee: {
-        // XXX Hack. Lifi doesn't properly estimate ethereum gas limits. Increase by 40%
-        gasLimit:
-          fromWallet.currencyInfo.pluginId !== 'ethereum'
-            ? hexToDecimal(gasLimit)
-            : mul(hexToDecimal(gasLimit), '1.4'),
+        gasLimit: gasLimitDecimal,
         gasPrice: gasPriceGwei
       },
       swapData: {
@@ -356,6 +493,28 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       }
     }
 
+    // The proxy call needs the permit signature,
+    // which we only ask for once the user accepts the quote:
+    const assetAddress = fromContractAddress
+    const finishSpendInfo =
+      permit != null
+        ? async (): Promise<EdgeSpendInfo> => {
+            const signed = await signEvmPermit(fromWallet, permit)
+            const memo = makePermitProxyData(
+              signed,
+              data,
+              assetAddress,
+              fromNativeAmount
+            )
+            return {
+              ...spendInfo,
+              spendTargets: [
+                { memo, nativeAmount: fromNativeAmount, publicAddress }
+              ]
+            }
+          }
+        : undefined
+
     const providersStr = providers.join(' -> ')
     const metadataNotes = `DEX Providers: ${providersStr}`
 
@@ -363,25 +522,95 @@ export function makeLifiPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       request,
       spendInfo,
       swapInfo,
-      fromNativeAmount: nativeAmount,
-      expirationDate: new Date(Date.now() + EXPIRATION_MS),
+      fromNativeAmount,
+      expirationDate,
       preTx,
-      metadataNotes
+      postTx,
+      metadataNotes,
+      minReceiveAmount: toAmountMin,
+      finishSpendInfo,
+      makeOrderId: txHash =>
+        makeLifiOrderId({
+          txHash,
+          bridge: action.fromChainId !== action.toChainId ? tool : undefined,
+          fromChain: action.fromChainId,
+          toChain: action.toChainId
+        }),
+      fees: {
+        protocolFee:
+          protocolFee !== '0'
+            ? { currencyCode: fromCurrencyCode, nativeAmount: protocolFee }
+            : undefined,
+        otherProtocolFees:
+          otherProtocolFees.length > 0 ? otherProtocolFees : undefined,
+        affiliateFee: makeFractionFee(
+          fromCurrencyCode,
+          fromNativeAmount,
+          affiliateFee
+        )
+      }
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
 
-    async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+    async fetchSwapQuote(
+      req: EdgeSwapRequest,
+      userSettings: JsonObject | undefined
+    ): Promise<EdgeSwapQuote> {
+      const request = convertRequest(req, swapInfo)
 
       const newRequest = await getMaxSwappable(
-        async r => await fetchSwapQuoteInner(r),
-        request
+        fetchSwapQuoteInner,
+        request,
+        userSettings
       )
-      const swapOrder = await fetchSwapQuoteInner(newRequest)
+      const swapOrder = await fetchSwapQuoteInner(newRequest, userSettings)
       return await makeSwapPluginQuote(swapOrder)
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const { txHash, bridge, fromChain, toChain } = parseLifiOrderId(orderId)
+      const exchangeInfo = await infoLoader.getInfo()
+      const lifiServers = exchangeInfo?.lifiServers ?? LIFI_SERVERS_DEFAULT
+
+      const params = makeQueryParams({
+        txHash,
+        ...(bridge != null ? { bridge } : {}),
+        fromChain,
+        toChain
+      })
+      const response = await fetchWaterfall(
+        io.fetch,
+        lifiServers,
+        `v1/status?${params}`,
+        { headers }
+      )
+      if (!response.ok) {
+        const responseText = await response.text()
+        throw new Error(`Lifi could not fetch v1/status: ${responseText}`)
+      }
+      const { status, substatus, sending, receiving } = asV1Status(
+        await response.json()
+      )
+
+      const detailedStatus = `${status}:${substatus ?? ''}`
+      const partnerStatus =
+        ORDER_STATE_MAP[detailedStatus] != null ? detailedStatus : status
+      const receivedTxid = receiving?.txHash
+      const receivedAmount = toExchangeAmount(receiving)
+
+      // Refunds arrive on the receiving side too:
+      const isRefund = ORDER_STATE_MAP[partnerStatus] === 'refunded'
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId,
+        partnerStatus,
+        depositTxid: sending?.txHash ?? txHash,
+        ...(isRefund
+          ? { refundTxid: receivedTxid, refundExchangeAmount: receivedAmount }
+          : { payoutTxid: receivedTxid, payoutExchangeAmount: receivedAmount })
+      })
     }
   }
   return out
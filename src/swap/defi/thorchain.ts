@@ -1,4 +1,4 @@
-import { add, div, gt, lt, mul, sub, toFixed } from 'biggystring'
+import { abs, add, div, gt, lt, mul, sub, toFixed } from 'biggystring'
 import {
   asArray,
   asBoolean,
@@ -10,33 +10,46 @@ import {
 import {
   EdgeCorePluginOptions,
   EdgeCurrencyWallet,
+  EdgeFetchFunction,
   EdgeSpendInfo,
   EdgeSwapInfo,
   EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   EdgeTransaction,
+  JsonObject,
   SwapBelowLimitError,
   SwapCurrencyError
 } from 'edge-core-js/types'
 
 import {
   checkInvalidCodes,
+  getContractAddress,
   getMaxSwappable,
   InvalidCurrencyCodes,
   isLikeKind,
+  makeFractionFee,
   makeSwapPluginQuote,
   SwapOrder
 } from '../../swap-helpers'
+import {
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../../util/exchangeInfo'
 import {
   convertRequest,
-  fetchInfo,
   fetchWaterfall,
   getAddress,
-  promiseWithTimeout
+  makeQueryParams
 } from '../../util/utils'
-import { EdgeSwapRequestPlugin } from '../types'
-import { getEvmApprovalData, getEvmTokenData } from './defiUtils'
+import { EdgeSwapRequestPlugin, SwapFee } from '../types'
+import {
+  DexSwapSettings,
+  getDexSwapSettings,
+  getEvmTokenData,
+  getMinReceiveAmount,
+  makeEvmApprovalTxs
+} from './defiUtils'
 
 const pluginId = 'thorchain'
 const swapInfo: EdgeSwapInfo = {
@@ -57,12 +70,23 @@ export const MIDGARD_SERVERS_DEFAULT = ['https://midgard.thorchain.info']
 export const THORNODE_SERVERS_DEFAULT = ['https://thornode.ninerealms.com']
 export const EXPIRATION_MS = 1000 * 60
 export const DIVIDE_PRECISION = 16
-export const EXCHANGE_INFO_UPDATE_FREQ_MS = 60000
 export const EVM_SEND_GAS = '80000'
 export const EVM_TOKEN_SEND_GAS = '80000'
 export const MIN_USD_SWAP = '30'
 export const THOR_LIMIT_UNITS = '100000000'
 
+// Streaming swaps split a large swap into sub-swaps, one every
+// `interval` blocks, giving arbitrageurs time to refill the pools:
+export const STREAMING_INTERVAL = 1
+export const MAX_STREAMING_QUANTITY = 100
+export const THORCHAIN_BLOCK_SECONDS = 6
+// THORChain delays large outbound payments by up to this many blocks:
+export const MAX_OUTBOUND_DELAY_BLOCKS = 720
+// Only stream when it beats a regular swap by at least this fraction:
+export const MIN_STREAMING_IMPROVEMENT = 0.001
+// Reject THORNode quotes that stray this far from our own pool math:
+export const THORNODE_QUOTE_MAX_DIVERGENCE = 0.02
+
 // ----------------------------------------------------------------------------
 // Volatility spread logic
 //
@@ -127,11 +151,13 @@ export const EVM_CURRENCY_CODES: { [cc: string]: boolean } = {
   AVAX: true,
   BCH: false,
   BNB: false,
+  BSC: true,
   BTC: false,
   DOGE: false,
   ETC: true,
   ETH: true,
   FTM: true,
+  GAIA: false,
   LTC: false,
   THOR: false
 }
@@ -140,28 +166,47 @@ export const EVM_CURRENCY_CODES: { [cc: string]: boolean } = {
 export const MAINNET_CODE_TRANSCRIPTION: { [cc: string]: ChainTypes } = {
   avalanche: 'AVAX',
   binancechain: 'BNB',
+  binancesmartchain: 'BSC',
   bitcoin: 'BTC',
   bitcoincash: 'BCH',
+  cosmoshub: 'GAIA',
   dogecoin: 'DOGE',
   ethereum: 'ETH',
   litecoin: 'LTC',
-  thorchain: 'THOR'
+  thorchain: 'THOR',
+  thorchainrune: 'THOR'
 }
 
+// Chains whose native asset has a different ticker than the chain:
+const NATIVE_ASSET_CODES: { [chain: string]: string } = {
+  BSC: 'BNB',
+  GAIA: 'ATOM',
+  THOR: 'RUNE'
+}
+
+export const getNativeAssetCode = (chain: string): string =>
+  NATIVE_ASSET_CODES[chain] ?? chain
+
+// RUNE has no pool of its own, since it is the other side of every pool:
+export const RUNE_ASSET = 'THOR.RUNE'
+
 const asMinAmount = asObject({
   minInputAmount: asString
 })
 
-export const asInboundAddresses = asArray(
-  asObject({
-    address: asString,
-    chain: asString,
-    outbound_fee: asString,
-    halted: asBoolean,
-    pub_key: asString,
-    router: asOptional(asString)
-  })
-)
+export const asInboundAddress = asObject({
+  address: asString,
+  chain: asString,
+  outbound_fee: asString,
+  halted: asBoolean,
+  pub_key: asString,
+  router: asOptional(asString),
+  gas_rate: asOptional(asString),
+  // The smallest amount the vault accepts, in THORChain's 1e8 units:
+  dust_threshold: asOptional(asString)
+})
+
+export const asInboundAddresses = asArray(asInboundAddress)
 
 export const asPool = asObject({
   asset: asString,
@@ -169,7 +214,10 @@ export const asPool = asObject({
   assetPrice: asString,
   assetPriceUSD: asString,
   assetDepth: asString,
-  runeDepth: asString
+  runeDepth: asString,
+  units: asOptional(asString, '0'),
+  saversDepth: asOptional(asString, '0'),
+  saversUnits: asOptional(asString, '0')
 })
 
 export const asAssetSpread = asObject({
@@ -182,45 +230,66 @@ export const asAssetSpread = asObject({
   volatilitySpread: asNumber
 })
 
-export const asExchangeInfo = asObject({
-  swap: asObject({
-    plugins: asObject({
-      thorchain: asObject({
-        perAssetSpread: asArray(asAssetSpread),
-        volatilitySpread: asNumber,
-        likeKindVolatilitySpread: asNumber,
-        daVolatilitySpread: asNumber,
-        midgardServers: asArray(asString),
-        nineRealmsServers: asOptional(asArray(asString)),
-        thornodeServers: asOptional(asArray(asString)),
-        thorSwapServers: asOptional(asArray(asString))
-      })
-    })
+export const asThorchainExchangeInfo = asObject({
+  perAssetSpread: asArray(asAssetSpread),
+  volatilitySpread: asNumber,
+  likeKindVolatilitySpread: asNumber,
+  daVolatilitySpread: asNumber,
+  midgardServers: asArray(asString),
+  nineRealmsServers: asOptional(asArray(asString)),
+  thornodeServers: asOptional(asArray(asString)),
+  thorSwapServers: asOptional(asArray(asString)),
+  // Quote through THORNode instead of our own pool math:
+  thornodeQuotes: asOptional(asBoolean, false),
+  thornodeQuoteMaxDivergence: asOptional(
+    asNumber,
+    THORNODE_QUOTE_MAX_DIVERGENCE
+  )
+})
+
+// Amounts are in THORChain's 1e8 units of each asset:
+export const asThornodeQuote = asObject({
+  inbound_address: asString,
+  expected_amount_out: asString,
+  expiry: asNumber,
+  dust_threshold: asOptional(asString),
+  total_swap_seconds: asOptional(asNumber),
+  fees: asObject({
+    asset: asString,
+    affiliate: asString,
+    outbound: asString,
+    liquidity: asString,
+    total: asString
   })
 })
 
 const asPools = asArray(asPool)
 
+export interface StreamingSwap {
+  interval: number // blocks between sub-swaps
+  quantity: number // number of sub-swaps
+}
+
 type AssetSpread = ReturnType<typeof asAssetSpread>
-type Pool = ReturnType<typeof asPool>
-type ExchangeInfo = ReturnType<typeof asExchangeInfo>
+export type InboundAddress = ReturnType<typeof asInboundAddress>
+type ThornodeQuote = ReturnType<typeof asThornodeQuote>
+export type Pool = ReturnType<typeof asPool>
 type MinAmount = ReturnType<typeof asMinAmount>
 
-let exchangeInfo: ExchangeInfo | undefined
-let exchangeInfoLastUpdate: number = 0
-
 export function makeThorchainPlugin(
   opts: EdgeCorePluginOptions
 ): EdgeSwapPlugin {
   const { io, log } = opts
   const { fetch } = io
-  const {
-    appId,
-    thorname,
-    affiliateFeeBasis,
-    ninerealmsClientId
-  } = asInitOptions(opts.initOptions)
+  const { thorname, affiliateFeeBasis, ninerealmsClientId } = asInitOptions(
+    opts.initOptions
+  )
   const affiliateFee = div(affiliateFeeBasis, '10000', DIVIDE_PRECISION)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    'thorchain',
+    asThorchainExchangeInfo
+  )
 
   const headers = {
     'Content-Type': 'application/json',
@@ -228,7 +297,8 @@ export function makeThorchainPlugin(
   }
 
   const fetchSwapQuoteInner = async (
-    request: EdgeSwapRequestPlugin
+    request: EdgeSwapRequestPlugin,
+    userSettings: JsonObject | undefined
   ): Promise<SwapOrder> => {
     const {
       fromCurrencyCode,
@@ -253,6 +323,8 @@ export function makeThorchainPlugin(
     let likeKindVolatilitySpread: number = LIKE_KIND_VOLATILITY_SPREAD_DEFAULT
     let volatilitySpread: number = VOLATILITY_SPREAD_DEFAULT
     let perAssetSpread: AssetSpread[] = PER_ASSET_SPREAD_DEFAULT
+    let thornodeQuotes = false
+    let thornodeQuoteMaxDivergence = THORNODE_QUOTE_MAX_DIVERGENCE
 
     checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
 
@@ -268,39 +340,16 @@ export function makeThorchainPlugin(
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
 
-    const now = Date.now()
-    if (
-      now - exchangeInfoLastUpdate > EXCHANGE_INFO_UPDATE_FREQ_MS ||
-      exchangeInfo == null
-    ) {
-      try {
-        const exchangeInfoResponse = await promiseWithTimeout(
-          fetchInfo(fetch, `v1/exchangeInfo/${appId}`)
-        )
-
-        if (exchangeInfoResponse.ok === true) {
-          exchangeInfo = asExchangeInfo(await exchangeInfoResponse.json())
-          exchangeInfoLastUpdate = now
-        } else {
-          // Error is ok. We just use defaults
-          log('Error getting info server exchangeInfo. Using defaults...')
-        }
-      } catch (e: any) {
-        log(
-          'Error getting info server exchangeInfo. Using defaults...',
-          e.message
-        )
-      }
-    }
-
+    const exchangeInfo = await infoLoader.getInfo()
+    checkExchangeInfo(exchangeInfo, request, swapInfo)
     if (exchangeInfo != null) {
-      const { thorchain } = exchangeInfo.swap.plugins
-      likeKindVolatilitySpread =
-        exchangeInfo.swap.plugins.thorchain.likeKindVolatilitySpread
-      volatilitySpread = thorchain.volatilitySpread
-      midgardServers = thorchain.midgardServers
-      thornodeServers = thorchain.thornodeServers ?? thornodeServers
-      perAssetSpread = thorchain.perAssetSpread
+      likeKindVolatilitySpread = exchangeInfo.likeKindVolatilitySpread
+      volatilitySpread = exchangeInfo.volatilitySpread
+      midgardServers = exchangeInfo.midgardServers
+      thornodeServers = exchangeInfo.thornodeServers ?? thornodeServers
+      perAssetSpread = exchangeInfo.perAssetSpread
+      thornodeQuotes = exchangeInfo.thornodeQuotes
+      thornodeQuoteMaxDivergence = exchangeInfo.thornodeQuoteMaxDivergence
     }
 
     const volatilitySpreadFinal = getVolatilitySpread({
@@ -317,6 +366,14 @@ export function makeThorchainPlugin(
 
     log.warn(`getVolatilitySpread: ${volatilitySpreadFinal.toString()}`)
 
+    // The volatility spread already pads the quote, so by default
+    // the swap limit is the quoted amount itself:
+    const settings = getDexSwapSettings(userSettings, request, {
+      slippage: '0',
+      deadlineMs: EXPIRATION_MS
+    })
+    const { slippage, deadlineMs } = settings
+
     // Get current pool
     const [iaResponse, poolResponse] = await Promise.all([
       fetchWaterfall(fetch, thornodeServers, 'thorchain/inbound_addresses', {
@@ -346,50 +403,80 @@ export function makeThorchainPlugin(
     const poolJson = await poolResponse.json()
     const pools = asPools(poolJson)
 
-    // Check for supported chain and asset
-    const inAddressObject = inboundAddresses.find(
-      addrObj => !addrObj.halted && addrObj.chain === fromMainnetCode
-    )
-    if (inAddressObject == null) {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+    // Check for supported chain and asset.
+    // THORChain itself has no inbound address, since RUNE is deposited:
+    let inAddressObject: InboundAddress | undefined
+    let thorAddress: string | undefined
+    if (fromMainnetCode !== 'THOR') {
+      inAddressObject = inboundAddresses.find(
+        addrObj => !addrObj.halted && addrObj.chain === fromMainnetCode
+      )
+      if (inAddressObject == null) {
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+      thorAddress = inAddressObject.address
     }
-    const { address: thorAddress } = inAddressObject
 
-    const outAddressObject = inboundAddresses.find(
-      addrObj => !addrObj.halted && addrObj.chain === toMainnetCode
-    )
-    if (outAddressObject == null) {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+    let outAssetOutboundFee = '0'
+    if (toMainnetCode !== 'THOR') {
+      const outAddressObject = inboundAddresses.find(
+        addrObj => !addrObj.halted && addrObj.chain === toMainnetCode
+      )
+      if (outAddressObject == null) {
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+      outAssetOutboundFee = outAddressObject.outbound_fee
     }
-    const { outbound_fee: outAssetOutboundFee } = outAddressObject
     log(
       `${toMainnetCode}.${toCurrencyCode} outAssetOutboundFee ${outAssetOutboundFee}`
     )
 
-    const sourcePool = pools.find(pool => {
-      const [asset] = pool.asset.split('-')
-      return asset === `${fromMainnetCode}.${fromCurrencyCode}`
-    })
-    if (sourcePool == null) {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+    // RUNE has no pool, so a missing pool means a RUNE leg.
+    // THORChain's other native assets aren't supported yet:
+    const findRoutePool = (
+      mainnetCode: string,
+      wallet: EdgeCurrencyWallet,
+      currencyCode: string,
+      tokenId: string | undefined
+    ): Pool | undefined => {
+      if (mainnetCode === 'THOR') {
+        if (tokenId == null) return
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+      const pool = findPool(
+        pools,
+        mainnetCode,
+        currencyCode,
+        getContractAddress(wallet, tokenId)
+      )
+      if (pool == null) {
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+      return pool
     }
-    const [
-      sourceAsset,
-      sourceTokenContractAddressAllCaps
-    ] = sourcePool.asset.split('-')
+
+    const sourcePool = findRoutePool(
+      fromMainnetCode,
+      fromWallet,
+      fromCurrencyCode,
+      fromTokenId
+    )
+    const sourceAsset = sourcePool?.asset ?? RUNE_ASSET
+    const [, sourceTokenContractAddressAllCaps] = sourceAsset.split('-')
     const sourceTokenContractAddress =
       sourceTokenContractAddressAllCaps != null
         ? sourceTokenContractAddressAllCaps.toLowerCase()
         : undefined
     log(`sourceAsset: ${sourceAsset}`)
 
-    const destPool = pools.find(pool => {
-      const [asset] = pool.asset.split('-')
-      return asset === `${toMainnetCode}.${toCurrencyCode}`
-    })
-    if (destPool == null) {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
-    }
+    const destPool = findRoutePool(
+      toMainnetCode,
+      toWallet,
+      toCurrencyCode,
+      toTokenId
+    )
+    const destAsset = destPool?.asset ?? RUNE_ASSET
+    const sourcePriceUsd = sourcePool?.assetPriceUSD ?? getRunePriceUsd(pools)
 
     // Add outbound fee
     const feeInDestCurrency = calcNetworkFee(
@@ -412,6 +499,7 @@ export function makeThorchainPlugin(
           minAmount,
           sourcePool,
           destPool,
+          sourcePriceUsd,
           volatilitySpreadFinal,
           affiliateFee,
           feeInDestCurrency
@@ -429,6 +517,7 @@ export function makeThorchainPlugin(
           minAmount,
           sourcePool,
           destPool,
+          sourcePriceUsd,
           volatilitySpreadFinal,
           affiliateFee,
           feeInDestCurrency
@@ -436,87 +525,144 @@ export function makeThorchainPlugin(
         log
       )
     }
-    const { fromNativeAmount, toNativeAmount, limit } = calcResponse
+    const { fromNativeAmount, streaming } = calcResponse
+    let { toNativeAmount } = calcResponse
+    let limit = getMinReceiveAmount(calcResponse.limit, slippage)
+    let outboundFee = toFixed(
+      await toWallet.denominationToNative(feeInDestCurrency, toCurrencyCode),
+      0,
+      0
+    )
+    let protocolFee: SwapFee | undefined
+    let maxFulfillmentSeconds =
+      streaming != null
+        ? (streaming.quantity * streaming.interval +
+            MAX_OUTBOUND_DELAY_BLOCKS) *
+          THORCHAIN_BLOCK_SECONDS
+        : undefined
+    let expirationDate = new Date(Date.now() + deadlineMs)
+
+    // THORNode only quotes exact-input swaps,
+    // so exact-output swaps always use our pool math:
+    if (thornodeQuotes && quoteFor === 'from') {
+      const amount = toFixed(
+        mul(
+          await fromWallet.nativeToDenomination(
+            fromNativeAmount,
+            fromCurrencyCode
+          ),
+          THOR_LIMIT_UNITS
+        ),
+        0,
+        0
+      )
+      const thornodeQuote = await fetchThornodeQuote(
+        fetch,
+        thornodeServers,
+        headers,
+        {
+          from_asset: sourceAsset,
+          to_asset: destAsset,
+          amount,
+          destination: toAddress,
+          affiliate: thorname,
+          affiliate_bps: affiliateFeeBasis,
+          streaming_interval: streaming?.interval,
+          streaming_quantity: streaming?.quantity
+        }
+      )
+      const { dust_threshold: dustThreshold, fees } = thornodeQuote
+
+      if (dustThreshold != null && !gt(amount, dustThreshold)) {
+        throw new SwapBelowLimitError(
+          swapInfo,
+          await thorToNative(
+            fromWallet,
+            fromCurrencyCode,
+            add(dustThreshold, '1')
+          ),
+          'from'
+        )
+      }
+
+      // THORNode doesn't know our spread, so take it from the output:
+      const toThorAmount = toFixed(
+        mul(thornodeQuote.expected_amount_out, sub('1', volatilitySpreadFinal)),
+        0,
+        0
+      )
+      const toExchangeAmount = div(
+        toThorAmount,
+        THOR_LIMIT_UNITS,
+        DIVIDE_PRECISION
+      )
+
+      // Cross-check against our own math, in case either one is off:
+      const divergence = div(
+        abs(sub(toExchangeAmount, calcResponse.toExchangeAmount)),
+        calcResponse.toExchangeAmount,
+        DIVIDE_PRECISION
+      )
+      log(`THORNode quote divergence: ${divergence}`)
+      if (gt(divergence, thornodeQuoteMaxDivergence.toString())) {
+        throw new Error(
+          `THORNode quote of ${toExchangeAmount} ${toCurrencyCode} diverges from the expected ${calcResponse.toExchangeAmount}`
+        )
+      }
+
+      toNativeAmount = await thorToNative(
+        toWallet,
+        toCurrencyCode,
+        toThorAmount
+      )
+      // THORNode quotes streaming swaps with the pools refilling
+      // between sub-swaps, so keep our single-swap limit for those:
+      if (streaming == null) {
+        limit = getMinReceiveAmount(toThorAmount, slippage)
+      }
+      outboundFee = await thorToNative(toWallet, toCurrencyCode, fees.outbound)
+      protocolFee = {
+        currencyCode: toCurrencyCode,
+        nativeAmount: await thorToNative(
+          toWallet,
+          toCurrencyCode,
+          fees.liquidity
+        )
+      }
+      thorAddress = thornodeQuote.inbound_address
+      // THORNode's total includes the outbound delay for this amount:
+      if (streaming != null && thornodeQuote.total_swap_seconds != null) {
+        maxFulfillmentSeconds = thornodeQuote.total_swap_seconds
+      }
+      const expiry = new Date(thornodeQuote.expiry * 1000)
+      if (expiry < expirationDate) expirationDate = expiry
+    }
 
-    let memo = buildSwapMemo({
+    const memo = buildSwapMemo({
       chain: toMainnetCode,
       asset: toCurrencyCode,
       address: toAddress,
       limit,
       affiliateAddress: thorname,
-      points: affiliateFeeBasis
+      points: affiliateFeeBasis,
+      streaming
     })
 
-    let ethNativeAmount = fromNativeAmount
-    let publicAddress = thorAddress
-    let approvalData
-    if (EVM_CURRENCY_CODES[fromMainnetCode]) {
-      if (fromMainnetCode !== fromCurrencyCode) {
-        const { router, address } = inAddressObject
-        if (router == null)
-          throw new Error(`Missing router address for ${fromMainnetCode}`)
-        if (sourceTokenContractAddress == null)
-          throw new Error(
-            `Missing sourceTokenContractAddress for ${fromMainnetCode}`
-          )
-        // Need to use ethers.js to craft a proper tx that calls Thorchain contract, then extract the data payload
-        memo = await getEvmTokenData({
-          assetAddress: sourceTokenContractAddress,
-          amountToSwapWei: Number(fromNativeAmount),
-          contractAddress: router,
-          vaultAddress: address,
-          memo
-        })
-
-        // Token transactions send no ETH (or other EVM mainnet coin)
-        ethNativeAmount = '0'
-        publicAddress = router
-
-        // Check if token approval is required and return necessary data field
-        approvalData = await getEvmApprovalData({
-          contractAddress: router,
-          assetAddress: sourceTokenContractAddress,
-          nativeAmount: fromNativeAmount
-        })
-      } else {
-        memo = '0x' + Buffer.from(memo).toString('hex')
-      }
-    } else {
-      // Cannot yet do tokens on non-EVM chains
-      if (fromMainnetCode !== fromCurrencyCode) {
-        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
-      }
-    }
-
-    let preTx: EdgeTransaction | undefined
-    if (approvalData != null) {
-      const spendInfo: EdgeSpendInfo = {
-        currencyCode: request.fromCurrencyCode,
-        spendTargets: [
-          {
-            memo: approvalData,
-            nativeAmount: '0',
-            publicAddress: sourceTokenContractAddress
-          }
-        ],
-        metadata: {
-          name: 'Thorchain',
-          category: 'expense:Token Approval'
-        }
-      }
-      preTx = await request.fromWallet.makeSpend(spendInfo)
-    }
-
+    const { spendInfo: vaultSpendInfo, preTx, postTx } = await makeVaultSpend({
+      wallet: fromWallet,
+      mainnetCode: fromMainnetCode,
+      currencyCode: fromCurrencyCode,
+      tokenId: fromTokenId,
+      assetAddress: sourceTokenContractAddress,
+      nativeAmount: fromNativeAmount,
+      memo,
+      vaultAddress: thorAddress,
+      routerAddress: inAddressObject?.router,
+      settings,
+      name: 'Thorchain'
+    })
     const spendInfo: EdgeSpendInfo = {
-      currencyCode: request.fromCurrencyCode,
-      spendTargets: [
-        {
-          memo,
-          nativeAmount: ethNativeAmount,
-          publicAddress
-        }
-      ],
-
+      ...vaultSpendInfo,
       swapData: {
         isEstimate: false,
         payoutAddress: toAddress,
@@ -524,23 +670,6 @@ export function makeThorchainPlugin(
         payoutNativeAmount: toNativeAmount,
         payoutWalletId: toWallet.id,
         plugin: { ...swapInfo }
-      },
-      otherParams: {
-        outputSort: 'targets'
-      }
-    }
-
-    if (EVM_CURRENCY_CODES[fromMainnetCode]) {
-      if (fromMainnetCode === fromCurrencyCode) {
-        // For mainnet coins of EVM chains, use gasLimit override since makeSpend doesn't
-        // know how to estimate an ETH spend with extra data
-        const gasLimit = getGasLimit(fromMainnetCode, fromCurrencyCode)
-        if (gasLimit != null) {
-          spendInfo.customNetworkFee = {
-            ...spendInfo.customNetworkFee,
-            gasLimit
-          }
-        }
       }
     }
 
@@ -549,25 +678,249 @@ export function makeThorchainPlugin(
       spendInfo,
       swapInfo,
       fromNativeAmount,
-      expirationDate: new Date(Date.now() + EXPIRATION_MS),
-      preTx
+      expirationDate,
+      preTx,
+      postTx,
+      minReceiveAmount: await thorToNative(toWallet, toCurrencyCode, limit),
+      ...(streaming != null
+        ? {
+            metadataNotes: `Streaming swap: ${streaming.quantity} sub-swaps`,
+            maxFulfillmentSeconds,
+            // Sub-swaps that miss the limit are refunded:
+            canBePartial: true
+          }
+        : {}),
+      fees: {
+        outboundFee: {
+          currencyCode: toCurrencyCode,
+          nativeAmount: outboundFee
+        },
+        protocolFee,
+        affiliateFee: makeFractionFee(
+          fromCurrencyCode,
+          fromNativeAmount,
+          affiliateFee
+        ),
+        spread: makeFractionFee(
+          fromCurrencyCode,
+          fromNativeAmount,
+          volatilitySpreadFinal
+        )
+      }
     }
   }
 
   const out: EdgeSwapPlugin = {
     swapInfo,
 
-    async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+    async fetchSwapQuote(
+      req: EdgeSwapRequest,
+      userSettings: JsonObject | undefined
+    ): Promise<EdgeSwapQuote> {
+      const request = convertRequest(req, swapInfo)
 
-      const newRequest = await getMaxSwappable(fetchSwapQuoteInner, request)
-      const swapOrder = await fetchSwapQuoteInner(newRequest)
+      const newRequest = await getMaxSwappable(
+        fetchSwapQuoteInner,
+        request,
+        userSettings
+      )
+      const swapOrder = await fetchSwapQuoteInner(newRequest, userSettings)
       return await makeSwapPluginQuote(swapOrder)
     }
   }
   return out
 }
 
+/**
+ * Finds an asset's pool. Token pools are matched by contract address,
+ * since tickers can collide. BEP-2 tokens use their full symbol,
+ * such as "BUSD-BD1", as the address.
+ */
+export const findPool = (
+  pools: Pool[],
+  mainnetCode: string,
+  currencyCode: string,
+  contractAddress: string | undefined
+): Pool | undefined =>
+  pools.find(pool => {
+    const [asset, poolContractAddress] = pool.asset.split('-')
+    if (asset !== `${mainnetCode}.${currencyCode}`) return false
+    if (contractAddress == null || poolContractAddress == null) return true
+    const address = contractAddress.toLowerCase()
+    const poolAddress = poolContractAddress.toLowerCase()
+    return (
+      address === poolAddress ||
+      address === `${currencyCode.toLowerCase()}-${poolAddress}`
+    )
+  })
+
+/**
+ * Converts an amount in THORChain's 1e8 units to the wallet's native units.
+ */
+export const thorToNative = async (
+  wallet: EdgeCurrencyWallet,
+  currencyCode: string,
+  thorAmount: string
+): Promise<string> => {
+  const exchangeAmount = div(thorAmount, THOR_LIMIT_UNITS, DIVIDE_PRECISION)
+  return toFixed(
+    await wallet.denominationToNative(exchangeAmount, currencyCode),
+    0,
+    0
+  )
+}
+
+/**
+ * Builds the spend that sends funds & a memo into THORChain.
+ * EVM tokens go through the router, which needs an allowance,
+ * while RUNE is deposited with a MsgDeposit, which has no recipient.
+ * Tokens on other chains, such as BEP-2, go straight to the vault
+ * with the memo, just like the chain's native asset.
+ */
+export const makeVaultSpend = async (params: {
+  wallet: EdgeCurrencyWallet
+  mainnetCode: ChainTypes
+  currencyCode: string
+  tokenId: string | undefined
+  assetAddress: string | undefined
+  nativeAmount: string
+  memo: string
+  vaultAddress: string | undefined
+  routerAddress: string | undefined
+  settings: Pick<DexSwapSettings, 'unlimitedApproval' | 'revokeApproval'>
+  name: string
+}): Promise<{
+  spendInfo: EdgeSpendInfo
+  preTx?: EdgeTransaction
+  postTx?: EdgeTransaction
+}> => {
+  const {
+    wallet,
+    mainnetCode,
+    currencyCode,
+    tokenId,
+    assetAddress,
+    nativeAmount,
+    vaultAddress,
+    routerAddress,
+    settings,
+    name
+  } = params
+  let { memo } = params
+
+  let ethNativeAmount = nativeAmount
+  let publicAddress = vaultAddress
+  let preTx: EdgeTransaction | undefined
+  let postTx: EdgeTransaction | undefined
+  if (EVM_CURRENCY_CODES[mainnetCode]) {
+    if (tokenId != null) {
+      if (routerAddress == null || vaultAddress == null)
+        throw new Error(`Missing router address for ${mainnetCode}`)
+      if (assetAddress == null)
+        throw new Error(`Missing sourceTokenContractAddress for ${mainnetCode}`)
+      // Need to use ethers.js to craft a proper tx that calls Thorchain contract, then extract the data payload
+      memo = await getEvmTokenData({
+        assetAddress,
+        amountToSwapWei: Number(nativeAmount),
+        contractAddress: routerAddress,
+        vaultAddress,
+        memo
+      })
+
+      // Token transactions send no ETH (or other EVM mainnet coin)
+      ethNativeAmount = '0'
+      publicAddress = routerAddress
+
+      // Approve the router, unless it already has enough allowance
+      const approvalTxs = await makeEvmApprovalTxs({
+        wallet,
+        currencyCode,
+        contractAddress: routerAddress,
+        assetAddress,
+        nativeAmount,
+        settings,
+        name
+      })
+      preTx = approvalTxs.preTx
+      postTx = approvalTxs.postTx
+    } else {
+      memo = '0x' + Buffer.from(memo).toString('hex')
+    }
+  }
+
+  const spendInfo: EdgeSpendInfo = {
+    currencyCode,
+    spendTargets: [
+      {
+        memo,
+        nativeAmount: ethNativeAmount,
+        publicAddress
+      }
+    ],
+    otherParams:
+      mainnetCode === 'THOR' ? { isDeposit: true } : { outputSort: 'targets' }
+  }
+
+  if (EVM_CURRENCY_CODES[mainnetCode]) {
+    if (tokenId == null) {
+      // For mainnet coins of EVM chains, use gasLimit override since makeSpend doesn't
+      // know how to estimate an ETH spend with extra data
+      const gasLimit = getGasLimit(mainnetCode, currencyCode)
+      if (gasLimit != null) {
+        spendInfo.customNetworkFee = {
+          ...spendInfo.customNetworkFee,
+          gasLimit
+        }
+      }
+    }
+  }
+
+  return { spendInfo, preTx, postTx }
+}
+
+/**
+ * Asks THORNode what a swap will pay out, using the protocol's own math.
+ */
+const fetchThornodeQuote = async (
+  fetch: EdgeFetchFunction,
+  thornodeServers: string[],
+  headers: { [key: string]: string },
+  params: {
+    from_asset: string
+    to_asset: string
+    amount: string
+    destination: string
+    affiliate: string
+    affiliate_bps: string
+    streaming_interval?: number
+    streaming_quantity?: number
+  }
+): Promise<ThornodeQuote> => {
+  const { streaming_interval: interval, streaming_quantity: quantity } = params
+  const query = makeQueryParams({
+    from_asset: params.from_asset,
+    to_asset: params.to_asset,
+    amount: params.amount,
+    destination: params.destination,
+    affiliate: params.affiliate,
+    affiliate_bps: params.affiliate_bps,
+    ...(interval != null && quantity != null
+      ? { streaming_interval: interval, streaming_quantity: quantity }
+      : {})
+  })
+  const response = await fetchWaterfall(
+    fetch,
+    thornodeServers,
+    `thorchain/quote/swap?${query}`,
+    { headers }
+  )
+  if (!response.ok) {
+    const responseText = await response.text()
+    throw new Error(`Thorchain could not fetch quote/swap: ${responseText}`)
+  }
+  return asThornodeQuote(await response.json())
+}
+
 interface BuildSwapMemoParams {
   chain: string
   asset: string
@@ -575,6 +928,7 @@ interface BuildSwapMemoParams {
   limit: string
   affiliateAddress: string
   points: string
+  streaming?: StreamingSwap
 }
 
 const calcSwapFrom = async (
@@ -585,8 +939,9 @@ const calcSwapFrom = async (
     toCurrencyCode: string
     nativeAmount: string
     minAmount: MinAmount | undefined
-    sourcePool: Pool
-    destPool: Pool
+    sourcePool: Pool | undefined
+    destPool: Pool | undefined
+    sourcePriceUsd: string
     volatilitySpreadFinal: string
     affiliateFee: string
     feeInDestCurrency: string
@@ -599,6 +954,7 @@ const calcSwapFrom = async (
   toNativeAmount: string
   toExchangeAmount: string
   limit: string
+  streaming?: StreamingSwap
 }> => {
   const {
     fromWallet,
@@ -609,6 +965,7 @@ const calcSwapFrom = async (
     minAmount,
     sourcePool,
     destPool,
+    sourcePriceUsd,
     volatilitySpreadFinal,
     affiliateFee,
     feeInDestCurrency,
@@ -626,12 +983,12 @@ const calcSwapFrom = async (
 
   // Check minimums if we can
   if (!dontCheckLimits) {
-    const srcInUsd = mul(sourcePool.assetPriceUSD, fromExchangeAmount)
+    const srcInUsd = mul(sourcePriceUsd, fromExchangeAmount)
     let fromMinNativeAmount
     if (lt(srcInUsd, MIN_USD_SWAP)) {
       const minExchangeAmount = div(
         MIN_USD_SWAP,
-        sourcePool.assetPriceUSD,
+        sourcePriceUsd,
         DIVIDE_PRECISION
       )
       fromMinNativeAmount = await fromWallet.denominationToNative(
@@ -660,11 +1017,28 @@ const calcSwapFrom = async (
   fromExchangeAmount = mul(sub('1', totalFeePercent), fromExchangeAmount)
   log(`fromExchangeAmount after % fees: ${fromExchangeAmount}`)
 
-  const result = calcDoubleSwapOutput(
-    Number(mul(fromExchangeAmount, THOR_LIMIT_UNITS)),
-    sourcePool,
-    destPool
+  const inputAmount = Number(mul(fromExchangeAmount, THOR_LIMIT_UNITS))
+  const singleResult = calcRouteSwapOutput(inputAmount, sourcePool, destPool)
+  let result = singleResult
+
+  // Stream the swap if that pays out noticeably more:
+  let streaming: StreamingSwap | undefined
+  const quantity = getMaxStreamingQuantity(
+    mul(sourcePriceUsd, fromExchangeAmount)
   )
+  if (quantity > 1) {
+    const streamingResult = calcStreamingSwapOutput(
+      inputAmount,
+      sourcePool,
+      destPool,
+      quantity
+    )
+    if (streamingResult > result * (1 + MIN_STREAMING_IMPROVEMENT)) {
+      result = streamingResult
+      streaming = { interval: STREAMING_INTERVAL, quantity }
+      log(`streaming quantity: ${quantity}`)
+    }
+  }
 
   let toExchangeAmount = div(
     result.toString(),
@@ -684,7 +1058,14 @@ const calcSwapFrom = async (
   )
   const toNativeAmount = toFixed(toNativeAmountFloat, 0, 0)
   log(`toNativeAmount: ${toNativeAmount}`)
-  const limit = toFixed(mul(toExchangeAmount, THOR_LIMIT_UNITS), 0, 0)
+
+  // Streaming only beats a regular swap if arbitrageurs refill the pools
+  // between sub-swaps, so the limit can't count on that happening:
+  const limit = toFixed(
+    sub(singleResult.toString(), mul(feeInDestCurrency, THOR_LIMIT_UNITS)),
+    0,
+    0
+  )
   log(`limit: ${limit}`)
 
   return {
@@ -692,7 +1073,8 @@ const calcSwapFrom = async (
     fromExchangeAmount,
     toNativeAmount,
     toExchangeAmount,
-    limit
+    limit,
+    streaming
   }
 }
 
@@ -704,8 +1086,9 @@ const calcSwapTo = async (
     toCurrencyCode: string
     nativeAmount: string
     minAmount: MinAmount | undefined
-    sourcePool: Pool
-    destPool: Pool
+    sourcePool: Pool | undefined
+    destPool: Pool | undefined
+    sourcePriceUsd: string
     volatilitySpreadFinal: string
     affiliateFee: string
     feeInDestCurrency: string
@@ -717,6 +1100,7 @@ const calcSwapTo = async (
   toNativeAmount: string
   toExchangeAmount: string
   limit: string
+  streaming?: StreamingSwap
 }> => {
   // Get exchange rate from destination to source asset
   const {
@@ -728,6 +1112,7 @@ const calcSwapTo = async (
     minAmount,
     sourcePool,
     destPool,
+    sourcePriceUsd,
     volatilitySpreadFinal,
     affiliateFee,
     feeInDestCurrency
@@ -740,18 +1125,47 @@ const calcSwapTo = async (
   )
   log(`toExchangeAmount: ${toExchangeAmount}`)
 
-  const limit = toFixed(mul(toExchangeAmount, THOR_LIMIT_UNITS), 0, 0)
+  let limit = toFixed(mul(toExchangeAmount, THOR_LIMIT_UNITS), 0, 0)
 
   toExchangeAmount = add(toExchangeAmount, feeInDestCurrency)
   log(
     `toExchangeAmount w/network fee of ${feeInDestCurrency}: ${toExchangeAmount}`
   )
 
-  const result = calcDoubleSwapInput(
-    Number(mul(toExchangeAmount, THOR_LIMIT_UNITS)),
-    sourcePool,
-    destPool
+  const outputAmount = Number(mul(toExchangeAmount, THOR_LIMIT_UNITS))
+  let result = calcRouteSwapInput(outputAmount, sourcePool, destPool)
+
+  // Stream the swap if that needs noticeably less input:
+  let streaming: StreamingSwap | undefined
+  const quantity = getMaxStreamingQuantity(
+    mul(
+      sourcePriceUsd,
+      div(result.toString(), THOR_LIMIT_UNITS, DIVIDE_PRECISION)
+    )
   )
+  if (quantity > 1) {
+    const streamingResult = calcStreamingSwapInput(
+      outputAmount,
+      sourcePool,
+      destPool,
+      quantity
+    )
+    if (streamingResult * (1 + MIN_STREAMING_IMPROVEMENT) < result) {
+      result = streamingResult
+      streaming = { interval: STREAMING_INTERVAL, quantity }
+      log(`streaming quantity: ${quantity}`)
+
+      // The streaming input only reaches the target if the pools refill
+      // between sub-swaps, so limit to what it pays out in one swap:
+      const singleResult = calcRouteSwapOutput(result, sourcePool, destPool)
+      limit = toFixed(
+        sub(singleResult.toString(), mul(feeInDestCurrency, THOR_LIMIT_UNITS)),
+        0,
+        0
+      )
+      log(`limit: ${limit}`)
+    }
+  }
 
   let fromExchangeAmount = div(
     result.toString(),
@@ -775,14 +1189,10 @@ const calcSwapTo = async (
 
   const fromNativeAmount = toFixed(fromNativeAmountFloat, 0, 0)
 
-  const srcInUsd = mul(sourcePool.assetPriceUSD, fromExchangeAmount)
+  const srcInUsd = mul(sourcePriceUsd, fromExchangeAmount)
   let minExchangeAmount = '0'
   if (lt(srcInUsd, MIN_USD_SWAP)) {
-    minExchangeAmount = div(
-      MIN_USD_SWAP,
-      sourcePool.assetPriceUSD,
-      DIVIDE_PRECISION
-    )
+    minExchangeAmount = div(MIN_USD_SWAP, sourcePriceUsd, DIVIDE_PRECISION)
   }
 
   // Check minimums
@@ -813,14 +1223,28 @@ const calcSwapTo = async (
     fromExchangeAmount,
     toNativeAmount,
     toExchangeAmount,
-    limit
+    limit,
+    streaming
   }
 }
 
-const buildSwapMemo = (params: BuildSwapMemoParams): string => {
-  const { chain, asset, address, limit, affiliateAddress, points } = params
+export const buildSwapMemo = (params: BuildSwapMemoParams): string => {
+  const {
+    chain,
+    asset,
+    address,
+    limit,
+    affiliateAddress,
+    points,
+    streaming
+  } = params
+  // Streaming swaps add the sub-swap interval & quantity to the limit:
+  const limitParams =
+    streaming != null
+      ? `${limit}/${streaming.interval}/${streaming.quantity}`
+      : limit
   // affiliate address could be a thorname, and the minimum received is not set in this example.
-  return `=:${chain}.${asset}:${address}:${limit}:${affiliateAddress}:${points}`
+  return `=:${chain}.${asset}:${address}:${limitParams}:${affiliateAddress}:${points}`
 }
 
 //
@@ -874,6 +1298,80 @@ export function calcDoubleSwapOutput(
   return result
 }
 
+// Calculate swap output along a route, where a missing pool means
+// that side is RUNE itself, which needs no swap
+export function calcRouteSwapOutput(
+  inputAmount: number,
+  sourcePool: Pool | undefined,
+  destPool: Pool | undefined
+): number {
+  const runeAmount =
+    sourcePool != null
+      ? calcSwapOutput(inputAmount, sourcePool, true)
+      : inputAmount
+  return destPool != null
+    ? calcSwapOutput(runeAmount, destPool, false)
+    : runeAmount
+}
+
+// Calculate swap input along a route, where a missing pool means
+// that side is RUNE itself, which needs no swap
+export function calcRouteSwapInput(
+  outputAmount: number,
+  sourcePool: Pool | undefined,
+  destPool: Pool | undefined
+): number {
+  const runeAmount =
+    destPool != null
+      ? calcSwapInput(outputAmount, destPool, false)
+      : outputAmount
+  return sourcePool != null
+    ? calcSwapInput(runeAmount, sourcePool, true)
+    : runeAmount
+}
+
+/**
+ * The price of RUNE in USD, implied by any pool's asset prices.
+ */
+export const getRunePriceUsd = (pools: Pool[]): string => {
+  const pool = pools.find(
+    pool => pool.status === 'available' && pool.assetPrice !== '0'
+  )
+  if (pool == null) throw new Error('Cannot find the price of RUNE')
+  return div(pool.assetPriceUSD, pool.assetPrice, DIVIDE_PRECISION)
+}
+
+/**
+ * The most sub-swaps a streaming swap can use,
+ * keeping each one above the minimum swap size.
+ */
+export const getMaxStreamingQuantity = (inputUsd: string): number => {
+  const quantity = Math.floor(Number(div(inputUsd, MIN_USD_SWAP, 8)))
+  return Math.min(quantity, MAX_STREAMING_QUANTITY)
+}
+
+// Calculate streaming swap output, assuming arbitrageurs
+// rebalance the pools between each sub-swap
+export function calcStreamingSwapOutput(
+  inputAmount: number,
+  pool1: Pool | undefined,
+  pool2: Pool | undefined,
+  quantity: number
+): number {
+  return quantity * calcRouteSwapOutput(inputAmount / quantity, pool1, pool2)
+}
+
+// Calculate streaming swap input, assuming arbitrageurs
+// rebalance the pools between each sub-swap
+export function calcStreamingSwapInput(
+  outputAmount: number,
+  pool1: Pool | undefined,
+  pool2: Pool | undefined,
+  quantity: number
+): number {
+  return quantity * calcRouteSwapInput(outputAmount / quantity, pool1, pool2)
+}
+
 // Calculate swap slippage for double swap
 export function calcDoubleSwapInput(
   outputAmount: number,
@@ -885,7 +1383,7 @@ export function calcDoubleSwapInput(
   return result
 }
 
-type ChainTypes =
+export type ChainTypes =
   | 'BTC'
   | 'ETH'
   | 'BCH'
@@ -893,6 +1391,8 @@ type ChainTypes =
   | 'LTC'
   | 'AVAX'
   | 'BNB'
+  | 'BSC'
+  | 'GAIA'
   | 'THOR'
 
 const SAT_UNITS = '100000000'
@@ -903,7 +1403,7 @@ export const getGasLimit = (
   asset: string
 ): string | undefined => {
   if (EVM_CURRENCY_CODES[chain]) {
-    if (chain === asset) {
+    if (getNativeAssetCode(chain) === asset) {
       return EVM_SEND_GAS
     } else {
       return EVM_TOKEN_SEND_GAS
@@ -919,22 +1419,23 @@ export const calcNetworkFee = (
   pools: Pool[]
 ): string => {
   switch (chain) {
+    case 'THOR':
+      return div('2000000', THOR_UNITS, DIVIDE_PRECISION)
     case 'BTC':
     case 'BCH':
     case 'LTC':
     case 'DOGE':
     case 'BNB':
-      return div(outboundFee, THOR_UNITS, DIVIDE_PRECISION)
-    case 'THOR':
-      return div('2000000', THOR_UNITS, DIVIDE_PRECISION)
+    case 'GAIA':
     case 'AVAX':
-    case 'ETH':
-      if (asset === chain) {
-        return div(outboundFee, THOR_UNITS, DIVIDE_PRECISION)
-      } else {
-        const ethAmount = div(outboundFee, THOR_UNITS, DIVIDE_PRECISION)
-        return convertChainAmountToAsset(pools, chain, asset, ethAmount)
-      }
+    case 'BSC':
+    case 'ETH': {
+      // The outbound fee is quoted in the chain's native asset,
+      // but tokens pay it in the token itself:
+      const nativeFee = div(outboundFee, THOR_UNITS, DIVIDE_PRECISION)
+      if (asset === getNativeAssetCode(chain)) return nativeFee
+      return convertChainAmountToAsset(pools, chain, asset, nativeFee)
+    }
     default:
       throw new Error(
         `could not calculate inbound fee for ${String(chain)}.${asset}`
@@ -950,7 +1451,7 @@ const convertChainAmountToAsset = (
 ): string => {
   // Find pool of main chain
   const sourcePool = pools.find(pool => {
-    return pool.asset === `${chain}.${chain}`
+    return pool.asset === `${chain}.${getNativeAssetCode(chain)}`
   })
   if (sourcePool == null) {
     throw new Error(`Cannot convert rate from ${chain} to ${asset}`)
@@ -1,9 +1,10 @@
-import { toFixed } from 'biggystring'
+import { add, div, gt, gte, lt, lte, mul, sub, toFixed } from 'biggystring'
 import {
   asArray,
   asBoolean,
   asEither,
   asNull,
+  asNumber,
   asObject,
   asOptional,
   asString,
@@ -11,6 +12,7 @@ import {
 } from 'cleaners'
 import {
   EdgeCorePluginOptions,
+  EdgeFetchFunction,
   EdgeSpendInfo,
   EdgeSwapInfo,
   EdgeSwapPlugin,
@@ -24,32 +26,47 @@ import { ethers } from 'ethers'
 
 import {
   checkInvalidCodes,
+  getContractAddress,
   getMaxSwappable,
-  getTokenId,
+  makeFractionFee,
   makeSwapPluginQuote,
   SwapOrder
 } from '../../swap-helpers'
+import {
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../../util/exchangeInfo'
 import {
   convertRequest,
-  fetchInfo,
   fetchWaterfall,
   getAddress,
-  makeQueryParams,
-  promiseWithTimeout
+  makeQueryParams
 } from '../../util/utils'
 import { EdgeSwapRequestPlugin } from '../types'
-import { abiMap } from './abi/abiMap'
-import { getEvmApprovalData, getEvmTokenData } from './defiUtils'
 import {
-  asExchangeInfo,
+  asTcAggregatorMap,
+  getTcAggregatorAbi,
+  TcAggregatorMap
+} from './abi/abiMap'
+import {
+  getDexSwapSettings,
+  getEvmTokenData,
+  getMinReceiveAmount,
+  makeEvmApprovalTxs
+} from './defiUtils'
+import {
   asInboundAddresses,
   asInitOptions,
+  asPool,
+  DIVIDE_PRECISION,
   EVM_CURRENCY_CODES,
-  EXCHANGE_INFO_UPDATE_FREQ_MS,
+  EVM_TOKEN_SEND_GAS,
   EXPIRATION_MS,
   getGasLimit,
+  getNativeAssetCode,
   INVALID_CURRENCY_CODES,
   MAINNET_CODE_TRANSCRIPTION,
+  MIDGARD_SERVERS_DEFAULT,
   THORNODE_SERVERS_DEFAULT
 } from './thorchain'
 
@@ -97,15 +114,48 @@ const asThorSwapQuoteResponse = asObject({
   routes: asArray(asThorSwapRoute)
 })
 
+type ThorSwapRoute = ReturnType<typeof asThorSwapRoute>
+
+export interface RankedThorSwapRoute {
+  route: ThorSwapRoute
+  netOutputUsd: string
+}
+
+export interface SellAmountQuote {
+  sellAmount: string
+  output: string
+  routes: RankedThorSwapRoute[]
+}
+
+// The aggregator's own section of the info server,
+// so it can be tuned or turned off separately from Thorchain.
+// Until the server publishes it, Thorchain's section carries these:
+const asThorchainDaExchangeInfo = asObject({
+  daVolatilitySpread: asNumber,
+  midgardServers: asArray(asString),
+  thornodeServers: asOptional(asArray(asString)),
+  thorSwapServers: asOptional(asArray(asString)),
+  // Aggregator contracts ThorSwap has deployed since this release:
+  daAggregators: asOptional(asTcAggregatorMap)
+})
+
 const DA_VOLATILITY_SPREAD_DEFAULT = 0.03
 const THORSWAP_DEFAULT_SERVERS = [
   'https://aggregator-prod-aulilvmdlq-uc.a.run.app'
 ]
 
-type ExchangeInfo = ReturnType<typeof asExchangeInfo>
+// Rough gas use of each aggregator contract method, for ranking routes:
+const ROUTE_GAS_ESTIMATES: { [contractMethod: string]: string } = {
+  swapIn: '300000'
+}
+const DEFAULT_ROUTE_GAS = '400000'
+// THORChain reports EVM gas rates in gwei:
+const GAS_RATE_UNITS = '1000000000'
 
-let exchangeInfo: ExchangeInfo | undefined
-let exchangeInfoLastUpdate: number = 0
+// Exact-output quotes settle for a sell amount whose output
+// lands within this fraction above the target:
+const REVERSE_QUOTE_TOLERANCE = '0.005'
+const REVERSE_QUOTE_MAX_ATTEMPTS = 10
 
 const tokenProxyMap: { [currencyPluginId: string]: string } = {
   ethereum: '0xf892fef9da200d9e84c9b0647ecff0f34633abe8',
@@ -117,12 +167,15 @@ export function makeThorchainDaPlugin(
 ): EdgeSwapPlugin {
   const { io, log } = opts
   const { fetch } = io
-  const {
-    appId,
-    affiliateFeeBasis,
-    ninerealmsClientId,
-    thorname
-  } = asInitOptions(opts.initOptions)
+  const { affiliateFeeBasis, ninerealmsClientId, thorname } = asInitOptions(
+    opts.initOptions
+  )
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    pluginId,
+    asThorchainDaExchangeInfo,
+    'thorchain'
+  )
 
   const headers = {
     'Content-Type': 'application/json',
@@ -130,7 +183,8 @@ export function makeThorchainDaPlugin(
   }
 
   const fetchSwapQuoteInner = async (
-    request: EdgeSwapRequestPlugin
+    request: EdgeSwapRequestPlugin,
+    userSettings: JsonObject | undefined
   ): Promise<SwapOrder> => {
     const {
       fromCurrencyCode,
@@ -153,6 +207,8 @@ export function makeThorchainDaPlugin(
     let daVolatilitySpread: number = DA_VOLATILITY_SPREAD_DEFAULT
     let thornodeServers: string[] = THORNODE_SERVERS_DEFAULT
     let thorswapServers: string[] = THORSWAP_DEFAULT_SERVERS
+    let midgardServers: string[] = MIDGARD_SERVERS_DEFAULT
+    let aggregators: TcAggregatorMap = {}
 
     checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
 
@@ -169,84 +225,82 @@ export function makeThorchainDaPlugin(
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
 
-    const now = Date.now()
-    if (
-      now - exchangeInfoLastUpdate > EXCHANGE_INFO_UPDATE_FREQ_MS ||
-      exchangeInfo == null
-    ) {
-      try {
-        const exchangeInfoResponse = await promiseWithTimeout(
-          fetchInfo(fetch, `v1/exchangeInfo/${appId}`)
-        )
-
-        if (exchangeInfoResponse.ok === true) {
-          exchangeInfo = asExchangeInfo(await exchangeInfoResponse.json())
-          exchangeInfoLastUpdate = now
-        } else {
-          // Error is ok. We just use defaults
-          log.warn('Error getting info server exchangeInfo. Using defaults...')
-        }
-      } catch (e: any) {
-        log.warn(
-          'Error getting info server exchangeInfo. Using defaults...',
-          e.message
-        )
-      }
-    }
-
+    const exchangeInfo = await infoLoader.getInfo()
+    checkExchangeInfo(exchangeInfo, request, swapInfo)
     if (exchangeInfo != null) {
-      const { thorchain } = exchangeInfo.swap.plugins
-      daVolatilitySpread = thorchain.daVolatilitySpread
-      thorswapServers = thorchain.thorSwapServers ?? THORSWAP_DEFAULT_SERVERS
-      thornodeServers = thorchain.thornodeServers ?? thornodeServers
+      daVolatilitySpread = exchangeInfo.daVolatilitySpread
+      thorswapServers = exchangeInfo.thorSwapServers ?? THORSWAP_DEFAULT_SERVERS
+      thornodeServers = exchangeInfo.thornodeServers ?? thornodeServers
+      midgardServers = exchangeInfo.midgardServers
+      aggregators = exchangeInfo.daAggregators ?? aggregators
     }
 
     const volatilitySpreadFinal = daVolatilitySpread // Might add a likeKind spread later
 
-    //
-    // Get Quote
-    //
-    if (reverseQuote) {
+    // The volatility spread is our default slippage tolerance:
+    const settings = getDexSwapSettings(userSettings, request, {
+      slippage: volatilitySpreadFinal.toString(),
+      deadlineMs: EXPIRATION_MS
+    })
+    const { slippage, deadlineMs } = settings
+
+    // ThorSwap identifies tokens by contract address:
+    const sourceTokenContractAddress = getContractAddress(
+      fromWallet,
+      request.fromTokenId
+    )?.toLowerCase()
+    const destTokenContractAddress = getContractAddress(
+      toWallet,
+      request.toTokenId
+    )?.toLowerCase()
+    if (
+      (request.fromTokenId != null && sourceTokenContractAddress == null) ||
+      (request.toTokenId != null && destTokenContractAddress == null)
+    ) {
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
+    const fromAssetSuffix =
+      sourceTokenContractAddress != null ? `-${sourceTokenContractAddress}` : ''
+    const toAssetSuffix =
+      destTokenContractAddress != null ? `-${destTokenContractAddress}` : ''
+    const sellAsset = `${fromMainnetCode}.${fromCurrencyCode}${fromAssetSuffix}`
+    const buyAsset = `${toMainnetCode}.${toCurrencyCode}${toAssetSuffix}`
+
+    const fetchThorSwapRoutes = async (
+      quoteParams: ThorSwapQuoteParams
+    ): Promise<ThorSwapRoute[]> => {
+      const queryParams = makeQueryParams(quoteParams)
+      const uri = `tokens/quote?${queryParams}`
+
+      log.warn(uri)
+
+      const thorSwapResponse = await fetchWaterfall(
+        fetch,
+        thorswapServers,
+        uri,
+        { headers }
+      )
+      if (!thorSwapResponse.ok) {
+        const responseText = await thorSwapResponse.text()
+        throw new Error(
+          `Thorchain could not get thorswap quote: ${JSON.stringify(
+            responseText,
+            null,
+            2
+          )}`
+        )
+      }
 
-    const sellAmount = await fromWallet.nativeToDenomination(
-      nativeAmount,
-      fromCurrencyCode
-    )
-
-    const fromIsToken = fromMainnetCode !== fromCurrencyCode
-    const fromTokenId = fromIsToken
-      ? `-0x${getTokenId(fromWallet, fromCurrencyCode) ?? ''}`
-      : undefined
-    const toIsToken = toMainnetCode !== toCurrencyCode
-    const toTokenId = toIsToken
-      ? `-0x${getTokenId(toWallet, toCurrencyCode) ?? ''}`
-      : undefined
-    const quoteParams: ThorSwapQuoteParams = {
-      sellAsset: `${fromMainnetCode}.${fromCurrencyCode}` + (fromTokenId ?? ''),
-      buyAsset: `${toMainnetCode}.${toCurrencyCode}` + (toTokenId ?? ''),
-      sellAmount,
-      slippage: (volatilitySpreadFinal * 100).toString(),
-      recipientAddress: toAddress,
-      senderAddress: fromAddress,
-      affiliateAddress: thorname,
-      affiliateBasisPoints: affiliateFeeBasis
+      const thorSwapJson = await thorSwapResponse.json()
+      return asThorSwapQuoteResponse(thorSwapJson).routes
     }
-    const sourceTokenContractAddress = fromTokenId?.replace('-0x', '0x')
-
-    const queryParams = makeQueryParams(quoteParams)
-    const uri = `tokens/quote?${queryParams}`
-
-    log.warn(uri)
-
-    const [iaResponse, thorSwapResponse] = await Promise.all([
-      fetchWaterfall(fetch, thornodeServers, 'thorchain/inbound_addresses', {
-        headers
-      }),
-      fetchWaterfall(fetch, thorswapServers, uri, { headers })
-    ])
 
+    const iaResponse = await fetchWaterfall(
+      fetch,
+      thornodeServers,
+      'thorchain/inbound_addresses',
+      { headers }
+    )
     if (!iaResponse.ok) {
       const responseText = await iaResponse.text()
       throw new Error(
@@ -257,23 +311,10 @@ export function makeThorchainDaPlugin(
         )}`
       )
     }
-    if (!thorSwapResponse.ok) {
-      const responseText = await thorSwapResponse.text()
-      throw new Error(
-        `Thorchain could not get thorswap quote: ${JSON.stringify(
-          responseText,
-          null,
-          2
-        )}`
-      )
-    }
 
     const iaJson = await iaResponse.json()
     const inboundAddresses = asInboundAddresses(iaJson)
 
-    const thorSwapJson = await thorSwapResponse.json()
-    const thorSwapQuote = asThorSwapQuoteResponse(thorSwapJson)
-
     // Check for supported chain and asset
     const inAddressObject = inboundAddresses.find(
       addrObj => !addrObj.halted && addrObj.chain === fromMainnetCode
@@ -282,11 +323,107 @@ export function makeThorchainDaPlugin(
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
     }
     const { router, address: thorAddress } = inAddressObject
-    const { routes } = thorSwapQuote
-    const [thorSwap] = routes
 
-    if (thorSwap == null)
+    // Only EVM chains pay for the aggregator contract's gas,
+    // so only they need the gas price to rank routes:
+    const isEvmSource = EVM_CURRENCY_CODES[fromMainnetCode]
+    const gasPriceUsd = isEvmSource
+      ? await fetchGasPriceUsd(
+          fetch,
+          midgardServers,
+          headers,
+          fromMainnetCode,
+          inAddressObject.gas_rate
+        )
+      : '0'
+
+    const fetchRankedRoutes = async (
+      sellNativeAmount: string
+    ): Promise<RankedThorSwapRoute[]> => {
+      const sellAmount = await fromWallet.nativeToDenomination(
+        sellNativeAmount,
+        fromCurrencyCode
+      )
+      const routes = await fetchThorSwapRoutes({
+        sellAsset,
+        buyAsset,
+        sellAmount,
+        slippage: mul(slippage, '100'),
+        recipientAddress: toAddress,
+        senderAddress: fromAddress,
+        affiliateAddress: thorname,
+        affiliateBasisPoints: affiliateFeeBasis
+      })
+      return rankThorSwapRoutes({
+        routes,
+        currencyPluginId: fromWallet.currencyInfo.pluginId,
+        aggregators,
+        isEvmSource,
+        gasLimit: getGasLimit(fromMainnetCode, fromCurrencyCode),
+        gasPriceUsd
+      })
+    }
+
+    //
+    // Get Quote
+    //
+    let fromNativeAmount = nativeAmount
+    let rankedRoutes: RankedThorSwapRoute[]
+    if (reverseQuote) {
+      // ThorSwap only quotes exact-input swaps, so quote the opposite
+      // swap for a first guess, then search for the sell amount:
+      const targetOutput = await toWallet.nativeToDenomination(
+        nativeAmount,
+        toCurrencyCode
+      )
+      const probeRoutes = await fetchThorSwapRoutes({
+        sellAsset: buyAsset,
+        buyAsset: sellAsset,
+        sellAmount: targetOutput,
+        slippage: mul(slippage, '100'),
+        recipientAddress: fromAddress,
+        senderAddress: toAddress,
+        affiliateAddress: thorname,
+        affiliateBasisPoints: affiliateFeeBasis
+      })
+      let probeOutput = '0'
+      for (const route of probeRoutes) {
+        if (gt(route.expectedOutput, probeOutput)) {
+          probeOutput = route.expectedOutput
+        }
+      }
+      if (probeOutput === '0') {
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+
+      const found = await findSellAmount({
+        targetOutput,
+        initialSellAmount: toFixed(
+          await fromWallet.denominationToNative(probeOutput, fromCurrencyCode),
+          0,
+          0
+        ),
+        async fetchQuote(sellAmount) {
+          const routes = await fetchRankedRoutes(sellAmount)
+          const output = routes[0]?.route.expectedOutputMaxSlippage ?? '0'
+          return { routes, output }
+        }
+      })
+      if (found == null) {
+        throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+      }
+      fromNativeAmount = found.sellAmount
+      rankedRoutes = found.routes
+    } else {
+      rankedRoutes = await fetchRankedRoutes(nativeAmount)
+    }
+
+    const [best, ...alternatives] = rankedRoutes
+    if (best == null) {
       throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
+    }
+    const thorSwap = best.route
+    log(`Picked ThorSwap route ${thorSwap.path}, ${best.netOutputUsd} USD net`)
 
     const {
       providers,
@@ -297,10 +434,6 @@ export function makeThorchainDaPlugin(
 
     const calldata = asCalldata(thorSwap.calldata)
 
-    if (providers.length <= 1) {
-      throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
-    }
-
     const tcDirect = providers[0] === 'THORCHAIN'
 
     const toNativeAmount = toFixed(
@@ -311,6 +444,14 @@ export function makeThorchainDaPlugin(
       0,
       0
     )
+    const expectedNativeAmount = toFixed(
+      await toWallet.denominationToNative(
+        thorSwap.expectedOutput,
+        toCurrencyCode
+      ),
+      0,
+      0
+    )
 
     // let customNetworkFee
     // let customNetworkFeeKey
@@ -343,12 +484,13 @@ export function makeThorchainDaPlugin(
 
     const contractAddress = tcDirect ? router : thorSwap.contract
     const calldataAny: any = thorSwap.calldata
-    let ethNativeAmount = nativeAmount
+    let ethNativeAmount = fromNativeAmount
     let publicAddress = thorAddress
-    let approvalData
+    let preTx: EdgeTransaction | undefined
+    let postTx: EdgeTransaction | undefined
 
     if (EVM_CURRENCY_CODES[fromMainnetCode]) {
-      if (fromMainnetCode !== fromCurrencyCode) {
+      if (request.fromTokenId != null) {
         if (contractAddress == null)
           throw new Error(`Missing router address for ${fromMainnetCode}`)
         if (sourceTokenContractAddress == null)
@@ -360,7 +502,7 @@ export function makeThorchainDaPlugin(
         if (tcDirect) {
           memo = await getEvmTokenData({
             assetAddress: sourceTokenContractAddress,
-            amountToSwapWei: Number(nativeAmount),
+            amountToSwapWei: Number(fromNativeAmount),
             contractAddress,
             vaultAddress: thorAddress,
             memo
@@ -371,52 +513,40 @@ export function makeThorchainDaPlugin(
           if (contractAddress == null)
             throw new Error('Invalid null contractAddress')
 
-          memo = await getCalldataData(
-            fromWallet.currencyInfo.pluginId,
+          memo = getCalldataData({
+            currencyPluginId: fromWallet.currencyInfo.pluginId,
             contractAddress,
             contractMethod,
-            calldataAny
-          )
+            calldata: calldataAny,
+            aggregators
+          })
         }
 
         ethNativeAmount = '0'
         publicAddress = contractAddress
 
-        // Check if token approval is required and return necessary data field
-        approvalData = await getEvmApprovalData({
+        // Approve the token proxy, unless it already has enough allowance
+        const approvalTxs = await makeEvmApprovalTxs({
+          wallet: fromWallet,
+          currencyCode: fromMainnetCode,
           contractAddress: tokenProxyMap[fromWallet.currencyInfo.pluginId],
           assetAddress: sourceTokenContractAddress,
-          nativeAmount: nativeAmount
+          nativeAmount: fromNativeAmount,
+          settings,
+          name: 'Thorchain DEX Aggregator'
         })
+        preTx = approvalTxs.preTx
+        postTx = approvalTxs.postTx
       } else {
         memo = '0x' + Buffer.from(memo).toString('hex')
       }
     } else {
       // Cannot yet do tokens on non-EVM chains
-      if (fromMainnetCode !== fromCurrencyCode) {
+      if (request.fromTokenId != null) {
         throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
       }
     }
 
-    let preTx: EdgeTransaction | undefined
-    if (approvalData != null) {
-      const spendInfo: EdgeSpendInfo = {
-        currencyCode: fromMainnetCode,
-        spendTargets: [
-          {
-            memo: approvalData,
-            nativeAmount: '0',
-            publicAddress: sourceTokenContractAddress
-          }
-        ],
-        metadata: {
-          name: 'Thorchain DEX Aggregator',
-          category: 'expense:Token Approval'
-        }
-      }
-      preTx = await request.fromWallet.makeSpend(spendInfo)
-    }
-
     const spendInfo: EdgeSpendInfo = {
       currencyCode: request.fromCurrencyCode,
       spendTargets: [
@@ -441,7 +571,7 @@ export function makeThorchainDaPlugin(
     }
 
     if (EVM_CURRENCY_CODES[fromMainnetCode]) {
-      if (fromMainnetCode === fromCurrencyCode) {
+      if (request.fromTokenId == null) {
         // For mainnet coins of EVM chains, use gasLimit override since makeSpend doesn't
         // know how to estimate an ETH spend with extra data
         const gasLimit = getGasLimit(fromMainnetCode, fromCurrencyCode)
@@ -455,99 +585,302 @@ export function makeThorchainDaPlugin(
     }
 
     const providersStr = providers.join(' -> ')
-    const notes = `DEX Providers: ${providersStr}\nPath: ${path}`
+    let notes = `DEX Providers: ${providersStr}\nPath: ${path}`
+    if (alternatives.length > 0) {
+      const alternativesStr = alternatives
+        .map(
+          ({ route }) =>
+            `${route.providers.join(' -> ')}: ${
+              route.expectedOutput
+            } ${toCurrencyCode}`
+        )
+        .join('\n')
+      notes += `\nOther routes:\n${alternativesStr}`
+    }
 
     return {
       request,
       spendInfo,
       swapInfo,
-      fromNativeAmount: nativeAmount,
-      expirationDate: new Date(Date.now() + EXPIRATION_MS),
+      fromNativeAmount,
+      expirationDate: new Date(Date.now() + deadlineMs),
       preTx,
-      metadataNotes: notes
+      postTx,
+      metadataNotes: notes,
+      minReceiveAmount: getMinReceiveAmount(expectedNativeAmount, slippage),
+      fees: {
+        affiliateFee: makeFractionFee(
+          fromCurrencyCode,
+          fromNativeAmount,
+          div(affiliateFeeBasis, '10000', DIVIDE_PRECISION)
+        ),
+        spread: makeFractionFee(
+          fromCurrencyCode,
+          fromNativeAmount,
+          volatilitySpreadFinal.toString()
+        )
+      }
     }
   }
 
   const out: EdgeSwapPlugin = {
     swapInfo,
 
-    async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+    async fetchSwapQuote(
+      req: EdgeSwapRequest,
+      userSettings: JsonObject | undefined
+    ): Promise<EdgeSwapQuote> {
+      const request = convertRequest(req, swapInfo)
 
-      const newRequest = await getMaxSwappable(fetchSwapQuoteInner, request)
-      const swapOrder = await fetchSwapQuoteInner(newRequest)
+      const newRequest = await getMaxSwappable(
+        fetchSwapQuoteInner,
+        request,
+        userSettings
+      )
+      const swapOrder = await fetchSwapQuoteInner(newRequest, userSettings)
       return await makeSwapPluginQuote(swapOrder)
     }
   }
   return out
 }
 
-const calldataOrder = {
-  TC_ROUTER_GENERIC: [
-    'tcRouter',
-    'tcVault',
-    'tcMemo',
-    'token',
-    'amount',
-    'router',
-    'data',
-    'deadline'
-  ],
-  TC_ROUTER_UNISWAP: [
-    'tcRouter',
-    'tcVault',
-    'tcMemo',
-    'token',
-    'amount',
-    'amountOutMin',
-    'deadline'
-  ],
-  TC_ROUTER_PANGOLIN: [
-    'tcRouter',
-    'tcVault',
-    'tcMemo',
-    'token',
-    'amount',
-    'amountOutMin',
-    'deadline'
-  ]
-}
-
-export const getCalldataData = async (
+/**
+ * True if `getCalldataData` can encode this call to the contract.
+ */
+export const canEncodeCalldata = (
   currencyPluginId: string,
   contractAddress: string,
   contractMethod: string,
-  calldata: JsonObject
-): Promise<string> => {
-  let abi, contractType
+  calldata: unknown,
+  aggregators?: TcAggregatorMap
+): boolean => {
   try {
-    const { type, data } = abiMap[currencyPluginId][
-      contractAddress.toLowerCase()
-    ]
-    if (type === 'INVALID') {
-      throw new Error(`Unsupported contract`)
+    getCalldataData({
+      currencyPluginId,
+      contractAddress,
+      contractMethod,
+      calldata: asObject(asUnknown)(calldata),
+      aggregators
+    })
+    return true
+  } catch (error: unknown) {
+    return false
+  }
+}
+
+/**
+ * Ranks ThorSwap's routes by their output, net of the gas the source
+ * chain burns running each one, best first. Routes we can't execute
+ * are left out, as are direct THORChain swaps, which the thorchain
+ * plugin already quotes.
+ */
+export const rankThorSwapRoutes = (params: {
+  routes: ThorSwapRoute[]
+  currencyPluginId: string
+  aggregators?: TcAggregatorMap // From the info server
+  isEvmSource: boolean
+  gasLimit: string | undefined // For router deposits
+  gasPriceUsd: string // USD per unit of gas
+}): RankedThorSwapRoute[] => {
+  const {
+    routes,
+    currencyPluginId,
+    aggregators,
+    isEvmSource,
+    gasLimit,
+    gasPriceUsd
+  } = params
+
+  const out: RankedThorSwapRoute[] = []
+  for (const route of routes) {
+    const { contract, contractMethod, providers } = route
+    if (providers.length <= 1) continue
+
+    // Routes starting on THORChain go through its vaults, while
+    // the rest need an aggregator contract we can encode calls for:
+    const tcDirect = providers[0] === 'THORCHAIN'
+    if (!tcDirect) {
+      if (!isEvmSource || contract == null || contractMethod == null) continue
+      if (
+        !canEncodeCalldata(
+          currencyPluginId,
+          contract,
+          contractMethod,
+          route.calldata,
+          aggregators
+        )
+      ) {
+        continue
+      }
     }
-    abi = data
-    contractType = type
-  } catch (e: any) {
-    throw new Error(
-      `Could not find ABI for contract ${currencyPluginId}-${contractAddress}`
-    )
+
+    let netOutputUsd = route.expectedOutputUSD
+    if (isEvmSource) {
+      const routeGas = tcDirect
+        ? gasLimit ?? EVM_TOKEN_SEND_GAS
+        : ROUTE_GAS_ESTIMATES[contractMethod ?? ''] ?? DEFAULT_ROUTE_GAS
+      netOutputUsd = sub(netOutputUsd, mul(routeGas, gasPriceUsd))
+    }
+    out.push({ route, netOutputUsd })
   }
 
-  const contractParams = calldataOrder[contractType].map(key => calldata[key])
+  return out.sort((a, b) =>
+    gt(a.netOutputUsd, b.netOutputUsd)
+      ? -1
+      : lt(a.netOutputUsd, b.netOutputUsd)
+      ? 1
+      : 0
+  )
+}
 
-  // initialize contract
-  const contract = new ethers.Contract(
-    contractAddress,
-    abi,
-    ethers.providers.getDefaultProvider()
+/**
+ * Searches for a sell amount whose quoted output meets the target,
+ * since ThorSwap only quotes exact-input swaps. Each quote rescales the
+ * guess by how far its output missed, until quotes fall on both sides
+ * of the target. The search then narrows that bracket, stepping to
+ * where the bracketing quotes put the target, or to the middle
+ * if that wouldn't shrink it. Returns undefined if no quote ever
+ * reaches the target.
+ */
+export const findSellAmount = async (params: {
+  targetOutput: string
+  initialSellAmount: string // Native units
+  fetchQuote: (
+    sellAmount: string
+  ) => Promise<{ output: string; routes: RankedThorSwapRoute[] }>
+}): Promise<SellAmountQuote | undefined> => {
+  const { targetOutput, initialSellAmount, fetchQuote } = params
+  const maxOutput = mul(targetOutput, add('1', REVERSE_QUOTE_TOLERANCE))
+  // Aim a little high, so the next quote is likely to be enough:
+  const aimOutput = mul(
+    targetOutput,
+    add('1', div(REVERSE_QUOTE_TOLERANCE, '2', DIVIDE_PRECISION))
   )
 
-  // call the deposit method on the contract
-  const tx = await contract.populateTransaction[contractMethod](
-    ...contractParams
+  let short: SellAmountQuote | undefined // Sells too little
+  let enough: SellAmountQuote | undefined // Sells enough
+  let sellAmount = initialSellAmount
+  for (let i = 0; i < REVERSE_QUOTE_MAX_ATTEMPTS; ++i) {
+    const { output, routes } = await fetchQuote(sellAmount)
+    if (gte(output, targetOutput)) {
+      enough = { sellAmount, output, routes }
+      if (lte(output, maxOutput)) break
+    } else {
+      short = { sellAmount, output, routes }
+    }
+
+    let next: string
+    if (short != null && enough != null) {
+      const spread = sub(enough.sellAmount, short.sellAmount)
+      next = toFixed(
+        add(
+          short.sellAmount,
+          div(
+            mul(sub(aimOutput, short.output), spread),
+            sub(enough.output, short.output),
+            DIVIDE_PRECISION
+          )
+        ),
+        0,
+        0
+      )
+      if (lte(next, short.sellAmount) || gte(next, enough.sellAmount)) {
+        next = div(add(short.sellAmount, enough.sellAmount), '2', 0)
+      }
+    } else if (gt(output, '0')) {
+      next = toFixed(
+        div(mul(sellAmount, aimOutput), output, DIVIDE_PRECISION),
+        0,
+        0
+      )
+    } else {
+      next = mul(sellAmount, '2')
+    }
+    // Adjacent amounts can't be split any further:
+    if (next === short?.sellAmount || next === enough?.sellAmount) break
+    sellAmount = next
+  }
+  return enough
+}
+
+/**
+ * Prices a unit of gas in USD, using THORChain's gas rate
+ * and the chain's pool price. Returns '0' if either is missing,
+ * which ranks routes by their output alone.
+ */
+const fetchGasPriceUsd = async (
+  fetch: EdgeFetchFunction,
+  midgardServers: string[],
+  headers: { [key: string]: string },
+  mainnetCode: string,
+  gasRate: string | undefined
+): Promise<string> => {
+  if (gasRate == null) return '0'
+  const response = await fetchWaterfall(fetch, midgardServers, 'v2/pools', {
+    headers
+  })
+  if (!response.ok) return '0'
+  const pools = asArray(asPool)(await response.json())
+  const nativePool = pools.find(
+    pool => pool.asset === `${mainnetCode}.${getNativeAssetCode(mainnetCode)}`
+  )
+  if (nativePool == null) return '0'
+  return div(
+    mul(gasRate, nativePool.assetPriceUSD),
+    GAS_RATE_UNITS,
+    DIVIDE_PRECISION
   )
-  if (tx.data == null) throw new Error('No data in tx object')
-  return tx.data
+}
+
+/**
+ * Encodes a call to an aggregator contract. ThorSwap names its calldata
+ * fields after the contract method's parameters, so we check the calldata
+ * against the ABI before building the transaction.
+ */
+export const getCalldataData = (params: {
+  currencyPluginId: string
+  contractAddress: string
+  contractMethod: string
+  calldata: JsonObject
+  aggregators?: TcAggregatorMap // From the info server
+}): string => {
+  const {
+    currencyPluginId,
+    contractAddress,
+    contractMethod,
+    calldata,
+    aggregators
+  } = params
+
+  const abi = getTcAggregatorAbi(currencyPluginId, contractAddress, aggregators)
+  if (abi == null) {
+    throw new Error(
+      `Could not find ABI for contract ${currencyPluginId}-${contractAddress}`
+    )
+  }
+  const contractInterface = ethers.Contract.getInterface(abi)
+
+  let fragment: ethers.utils.FunctionFragment
+  try {
+    fragment = contractInterface.getFunction(contractMethod)
+  } catch (error: unknown) {
+    throw new Error(
+      `Contract ${currencyPluginId}-${contractAddress} has no method ${contractMethod}`
+    )
+  }
+
+  const args = fragment.inputs.map(input => {
+    const value = calldata[input.name]
+    if (value == null) {
+      throw new Error(`ThorSwap calldata is missing ${input.name}`)
+    }
+    return value
+  })
+  try {
+    return contractInterface.encodeFunctionData(fragment, args)
+  } catch (error: unknown) {
+    throw new Error(
+      `ThorSwap calldata does not match ${contractMethod}: ${String(error)}`
+    )
+  }
 }
@@ -1,184 +1,20 @@
-import { asObject, asOptional, asString } from 'cleaners'
-import {
-  EdgeCorePluginOptions,
-  EdgeSpendInfo,
-  EdgeSwapInfo,
-  EdgeSwapPlugin,
-  EdgeSwapQuote,
-  EdgeSwapRequest,
-  EdgeTransaction
-} from 'edge-core-js/types'
-import { ethers } from 'ethers'
-
-import {
-  customFeeCache,
-  getMaxSwappable,
-  makeSwapPluginQuote,
-  SwapOrder
-} from '../../../../swap-helpers'
-import { convertRequest } from '../../../../util/utils'
-import { EdgeSwapRequestPlugin } from '../../../types'
-import { getInOutTokenAddresses, InOutTokenAddresses } from '../../defiUtils'
-import {
-  getFtmProvider,
-  makeTombSwapRouterContract,
-  makeWrappedFtmContract
-} from '../uniV2Contracts'
-import { getSwapAmounts, getSwapTransactions } from '../uniV2Utils'
-
-const swapInfo: EdgeSwapInfo = {
-  pluginId: 'tombSwap',
-  isDex: true,
-  displayName: 'TombSwap',
-  supportEmail: 'support@edge.app'
-}
-
-const asInitOptions = asObject({
-  quiknodeApiKey: asOptional(asString)
+import { makeUniV2Plugin } from '../uniV2Plugin'
+
+export const makeTombSwapPlugin = makeUniV2Plugin({
+  swapInfo: {
+    pluginId: 'tombSwap',
+    isDex: true,
+    displayName: 'TombSwap',
+    supportEmail: 'support@edge.app'
+  },
+  chainPluginId: 'fantom',
+  rpcUrls: ['https://rpc.ftm.tools'],
+  quiknodeUrl: 'https://polished-empty-cloud.fantom.quiknode.pro/',
+  routerAddress: '0x6D0176C5ea1e44b08D3dd001b0784cE42F47a3A7',
+  wrappedNativeAddress: '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83',
+  baseTokenAddresses: [
+    '0x04068DA6C83AFCFA0e13ba15A6696662335D5B75', // USDC
+    '0x049d68029688eAbF473097a2fC38ef61633A3C7A' // fUSDT
+  ],
+  feeRate: '0.003'
 })
-
-const EXPIRATION_MS = 1000 * 60
-const SLIPPAGE = '0.05'
-
-export function makeTombSwapPlugin(
-  opts: EdgeCorePluginOptions
-): EdgeSwapPlugin {
-  const { quiknodeApiKey } = asInitOptions(opts.initOptions)
-  const provider = getFtmProvider(quiknodeApiKey)
-
-  const fetchSwapQuoteInner = async (
-    request: EdgeSwapRequestPlugin,
-    uid: string
-  ): Promise<SwapOrder> => {
-    const {
-      fromWallet,
-      toWallet,
-      fromCurrencyCode,
-      toCurrencyCode,
-      quoteFor
-    } = request
-
-    // Sanity check: Both wallets should be of the same chain.
-    if (
-      fromWallet.currencyInfo.currencyCode !==
-      toWallet.currencyInfo.currencyCode
-    )
-      throw new Error(`${swapInfo.displayName}: Mismatched wallet chain`)
-
-    // Parse input/output token addresses. If either from or to swap sources
-    // are for the native currency, convert the address to the wrapped equivalent.
-    const inOutAddresses: InOutTokenAddresses = getInOutTokenAddresses(
-      fromWallet.currencyInfo,
-      fromCurrencyCode,
-      toCurrencyCode
-    )
-    const { fromTokenAddress, toTokenAddress, isWrappingSwap } = inOutAddresses
-
-    // Calculate swap amounts
-    const tombSwapRouter = makeTombSwapRouterContract(provider)
-    const { amountToSwap, expectedAmountOut } = await getSwapAmounts(
-      tombSwapRouter,
-      quoteFor,
-      request.nativeAmount,
-      [fromTokenAddress, toTokenAddress],
-      isWrappingSwap
-    )
-
-    // Generate swap transactions
-    const toAddress = (await toWallet.getReceiveAddress()).publicAddress
-    const expirationDate = new Date(Date.now() + EXPIRATION_MS)
-    const deadline = Math.round(expirationDate.getTime() / 1000) // unix timestamp
-    const customNetworkFee = customFeeCache.getFees(uid)
-    const path = [fromTokenAddress, toTokenAddress]
-    const wrappedFtmContract = makeWrappedFtmContract(provider)
-    const swapTxs = await getSwapTransactions(
-      provider,
-      inOutAddresses,
-      path,
-      tombSwapRouter,
-      wrappedFtmContract,
-      amountToSwap,
-      expectedAmountOut,
-      toAddress,
-      SLIPPAGE,
-      deadline,
-      customNetworkFee?.gasPrice
-    )
-
-    const fromAddress = (await fromWallet.getReceiveAddress()).publicAddress
-    // toEdgeUnsignedTxs
-    const edgeSpendInfos = swapTxs.map(swapTx => {
-      // Convert to our spendInfo
-      const edgeSpendInfo: EdgeSpendInfo = {
-        currencyCode: request.fromCurrencyCode, // what is being sent out, only if token. Blank if not token
-        spendTargets: [
-          {
-            nativeAmount: swapTx.value != null ? swapTx.value.toString() : '0', // biggy/number string integer
-            publicAddress: swapTx.to,
-
-            otherParams: {
-              data: swapTx.data
-            }
-          }
-        ],
-        customNetworkFee: {
-          gasPrice:
-            swapTx.gasPrice != null
-              ? ethers.utils.formatUnits(swapTx.gasPrice, 'gwei').toString()
-              : '0',
-          gasLimit: swapTx.gasLimit?.toString() ?? '0'
-        },
-        networkFeeOption: 'custom',
-        swapData: {
-          isEstimate: false,
-          payoutAddress: toAddress,
-          payoutCurrencyCode: request.toCurrencyCode,
-          payoutNativeAmount: expectedAmountOut.toString(),
-          payoutWalletId: request.toWallet.id,
-          plugin: { ...swapInfo },
-          refundAddress: fromAddress
-        }
-      }
-
-      return edgeSpendInfo
-    })
-
-    let spendInfo = edgeSpendInfos[0]
-    let preTx: EdgeTransaction | undefined
-    if (edgeSpendInfos.length > 1) {
-      spendInfo = edgeSpendInfos[1]
-      edgeSpendInfos[0].metadata = { category: 'expense:Token Approval' }
-      preTx = await request.fromWallet.makeSpend(edgeSpendInfos[0])
-    }
-
-    customFeeCache.setFees(uid, spendInfo.customNetworkFee)
-
-    return {
-      request,
-      spendInfo,
-      swapInfo,
-      fromNativeAmount: amountToSwap,
-      expirationDate,
-      preTx
-    }
-  }
-
-  const out: EdgeSwapPlugin = {
-    swapInfo,
-    async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
-
-      const uid = customFeeCache.createUid()
-
-      const newRequest = await getMaxSwappable(
-        fetchSwapQuoteInner,
-        request,
-        uid
-      )
-      const swapOrder = await fetchSwapQuoteInner(newRequest, uid)
-      return await makeSwapPluginQuote(swapOrder)
-    }
-  }
-
-  return out
-}
@@ -1,3 +1,4 @@
+import { add, div, gt, gte, lt, mul, sub } from 'biggystring'
 import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
@@ -6,21 +7,29 @@ import {
   EdgeSwapQuote,
   EdgeSwapRequest,
   EdgeTransaction,
+  JsonObject,
   SwapCurrencyError
 } from 'edge-core-js/types'
-import { ethers } from 'ethers'
+import { Contract, ethers, PopulatedTransaction } from 'ethers'
 
 import {
   customFeeCache,
   getMaxSwappable,
+  makeFractionFee,
   makeSwapPluginQuote,
   SwapOrder
 } from '../../../../swap-helpers'
 import { convertRequest } from '../../../../util/utils'
 import { EdgeSwapRequestPlugin } from '../../../types'
 import VELODROME_V1_ROUTER_ABI from '../../abi/VELODROME_V1_ROUTER_ABI'
+import VELODROME_V2_ROUTER_ABI from '../../abi/VELODROME_V2_ROUTER_ABI'
 import WRAPPED_OPTIMISM_ETH_ABI from '../../abi/WRAPPED_OPTIMISM_ETH_ABI'
-import { getInOutTokenAddresses } from '../../defiUtils'
+import {
+  DexSwapSettings,
+  getDexSwapSettings,
+  getInOutTokenAddresses,
+  getMinReceiveAmount
+} from '../../defiUtils'
 import { getSwapAmounts, getSwapTransactions } from '../uniV2Utils'
 
 const swapInfo: EdgeSwapInfo = {
@@ -30,30 +39,238 @@ const swapInfo: EdgeSwapInfo = {
   supportEmail: 'support@edge.app'
 }
 
-const EXPIRATION_MS = 1000 * 60
-const SLIPPAGE = '0.05'
 const OPTIMISM_RPC = 'https://rpc.ankr.com/optimism/'
 const WETH_TOKEN_ADDRESS = '0x4200000000000000000000000000000000000006'
-const VELODROME_ROUTER_ADDRESS = '0x9c12939390052919aF3155f41Bf4160Fd3666A6f'
+const USDC_TOKEN_ADDRESS = '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85'
+const USDCE_TOKEN_ADDRESS = '0x7F5c764cBc14f9669B88837ca1490cCa17c31607'
+
+/**
+ * A Velodrome router, along with the tokens worth routing through on it.
+ */
+export interface VelodromeRouterInfo {
+  router: Contract
+  hopTokenAddresses: string[]
+
+  // V2 routes name the pool factory for each leg:
+  factoryAddress?: string
+
+  // The factory's default LP fees, as fractions.
+  // The router already includes these in its quotes:
+  feeRates: { stable: string; volatile: string }
+}
+
+const makeVelodromeRouters = (
+  provider: ethers.providers.Provider
+): VelodromeRouterInfo[] => [
+  {
+    router: new ethers.Contract(
+      '0x9c12939390052919aF3155f41Bf4160Fd3666A6f',
+      VELODROME_V1_ROUTER_ABI,
+      provider
+    ),
+    hopTokenAddresses: [
+      WETH_TOKEN_ADDRESS,
+      USDCE_TOKEN_ADDRESS,
+      '0x3c8B650257cFb5f272f799F5e2b4e65093a11a05' // VELO (V1)
+    ],
+    feeRates: { stable: '0.0002', volatile: '0.0002' }
+  },
+  {
+    router: new ethers.Contract(
+      '0xa062aE8A9c5e11aaA026fc2670B0D65cCc8B2858',
+      VELODROME_V2_ROUTER_ABI,
+      provider
+    ),
+    hopTokenAddresses: [
+      WETH_TOKEN_ADDRESS,
+      USDC_TOKEN_ADDRESS,
+      USDCE_TOKEN_ADDRESS,
+      '0x9560e827aF36c94D2Ac33a39bCE1Fe78631088Db' // VELO
+    ],
+    factoryAddress: '0xF1046053aa5682b4F9a81b5481394DA16BE5FF5a',
+    feeRates: { stable: '0.0005', volatile: '0.003' }
+  }
+]
+
+/**
+ * One leg of a Velodrome route, in the shape the router's struct expects.
+ */
+export interface VelodromeRoute {
+  from: string
+  to: string
+  stable: boolean
+  factory?: string
+}
+
+export interface VelodromeSwapRoute {
+  router: Contract
+  routes: VelodromeRoute[]
+  amountToSwap: string
+  expectedAmountOut: string
+  feeRate: string // The share of the input the pools keep
+}
+
+/**
+ * The share of the input a route's pools keep, since every leg pays
+ * its pool's LP fee.
+ */
+export const getVelodromeFeeRate = (
+  feeRates: VelodromeRouterInfo['feeRates'],
+  routes: VelodromeRoute[]
+): string => {
+  let kept = '1'
+  for (const { stable } of routes) {
+    kept = mul(kept, sub('1', stable ? feeRates.stable : feeRates.volatile))
+  }
+  return sub('1', kept)
+}
+
+const MAX_AMOUNT_IN_ROUNDS = 5
+
+/**
+ * Velodrome's router has no `getAmountsIn`, so work backwards instead.
+ * Start from what the reverse route pays out, then scale the input by the
+ * shortfall until `getAmountsOut` covers the requested output.
+ */
+export const getVelodromeAmountsIn = async (
+  router: Contract,
+  amountOut: string,
+  routes: VelodromeRoute[]
+): Promise<{ amountToSwap: string; expectedAmountOut: string }> => {
+  const getLastAmount = async (
+    amount: string,
+    routes: VelodromeRoute[]
+  ): Promise<string> => {
+    const amounts: unknown[] = await router.getAmountsOut(amount, routes)
+    return String(amounts[amounts.length - 1])
+  }
+
+  const reverseRoutes = routes
+    .map(route => ({ ...route, from: route.to, to: route.from }))
+    .reverse()
+  let amountToSwap = await getLastAmount(amountOut, reverseRoutes)
+
+  for (let i = 0; i < MAX_AMOUNT_IN_ROUNDS; ++i) {
+    const expectedAmountOut = await getLastAmount(amountToSwap, routes)
+    if (gte(expectedAmountOut, amountOut)) {
+      return { amountToSwap, expectedAmountOut }
+    }
+    if (expectedAmountOut === '0') break
+
+    // Overshoot the shortfall by 0.01% so we converge from above:
+    amountToSwap = add(
+      div(
+        mul(amountToSwap, mul(amountOut, '10001')),
+        mul(expectedAmountOut, '10000'),
+        0
+      ),
+      '1'
+    )
+  }
+  throw new Error(`Failed to calculate amounts`)
+}
+
+/**
+ * Lists the routes worth quoting between two tokens: the stable & volatile
+ * pools between them, and every pair of pools through a hop token.
+ */
+const getCandidateRoutes = (
+  fromTokenAddress: string,
+  toTokenAddress: string,
+  hopTokenAddresses: string[],
+  factory?: string
+): VelodromeRoute[][] => {
+  const leg = (from: string, to: string, stable: boolean): VelodromeRoute =>
+    factory == null ? { from, to, stable } : { from, to, stable, factory }
+
+  const out: VelodromeRoute[][] = []
+  for (const stable of [true, false]) {
+    out.push([leg(fromTokenAddress, toTokenAddress, stable)])
+  }
+
+  const skip = new Set(
+    [fromTokenAddress, toTokenAddress].map(address => address.toLowerCase())
+  )
+  for (const hop of hopTokenAddresses) {
+    if (skip.has(hop.toLowerCase())) continue
+    for (const stableIn of [true, false]) {
+      for (const stableOut of [true, false]) {
+        out.push([
+          leg(fromTokenAddress, hop, stableIn),
+          leg(hop, toTokenAddress, stableOut)
+        ])
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Quotes every candidate route on every router, and picks the one with the
+ * most output for 'from' quotes, or the least input for 'to' quotes.
+ */
+export const getBestVelodromeRoute = async (
+  routers: VelodromeRouterInfo[],
+  quoteFor: string,
+  nativeAmount: string,
+  fromTokenAddress: string,
+  toTokenAddress: string
+): Promise<VelodromeSwapRoute> => {
+  const quotes = await Promise.all(
+    routers.flatMap(({ router, hopTokenAddresses, factoryAddress, feeRates }) =>
+      getCandidateRoutes(
+        fromTokenAddress,
+        toTokenAddress,
+        hopTokenAddresses,
+        factoryAddress
+      ).map(async routes => {
+        try {
+          // Routes without pools make the router revert:
+          const amounts =
+            quoteFor === 'to'
+              ? await getVelodromeAmountsIn(router, nativeAmount, routes)
+              : await getSwapAmounts(
+                  router,
+                  quoteFor,
+                  nativeAmount,
+                  routes,
+                  false
+                )
+          const feeRate = getVelodromeFeeRate(feeRates, routes)
+          return { router, routes, feeRate, ...amounts }
+        } catch (error: unknown) {}
+      })
+    )
+  )
+
+  let bestQuote: VelodromeSwapRoute | undefined
+  for (const quote of quotes) {
+    if (quote == null) continue
+    if (
+      bestQuote == null ||
+      (quoteFor === 'to'
+        ? lt(quote.amountToSwap, bestQuote.amountToSwap)
+        : gt(quote.expectedAmountOut, bestQuote.expectedAmountOut))
+    ) {
+      bestQuote = quote
+    }
+  }
+
+  if (bestQuote == null) throw new Error(`Failed to calculate amounts`)
+  return bestQuote
+}
 
 export function makeVelodromePlugin(
   opts: EdgeCorePluginOptions
 ): EdgeSwapPlugin {
   const fetchSwapQuoteInner = async (
     request: EdgeSwapRequestPlugin,
-    uid: string
+    uid: string,
+    settings: DexSwapSettings
   ): Promise<SwapOrder> => {
-    const {
-      fromWallet,
-      toWallet,
-      fromCurrencyCode,
-      toCurrencyCode,
-      quoteFor
-    } = request
+    const { fromWallet, toWallet, fromTokenId, toTokenId, quoteFor } = request
 
     if (
-      // Velodrome does not support reverse quotes
-      request.quoteFor === 'to' ||
       // Velodrome only supports Optimism
       fromWallet.currencyInfo.pluginId !== 'optimism' ||
       toWallet.currencyInfo.pluginId !== 'optimism'
@@ -64,42 +281,42 @@ export function makeVelodromePlugin(
     // Parse input/output token addresses. If either from or to swap sources
     // are for the native currency, convert the address to the wrapped equivalent.
     const inOutAddresses = getInOutTokenAddresses(
-      fromWallet.currencyInfo,
-      fromCurrencyCode,
-      toCurrencyCode
+      fromWallet,
+      fromTokenId,
+      toTokenId
     )
     const { fromTokenAddress, toTokenAddress, isWrappingSwap } = inOutAddresses
 
     const provider = new ethers.providers.JsonRpcProvider(OPTIMISM_RPC)
-    // Calculate swap amounts
-    const velodromeRouter = new ethers.Contract(
-      VELODROME_ROUTER_ADDRESS,
-      VELODROME_V1_ROUTER_ABI,
-      provider
-    )
+    const routers = makeVelodromeRouters(provider)
 
-    // Identify best pool type
-    const stable = isWrappingSwap
-      ? true // No need to check for wrapping txs since it won't even use the dex
-      : await velodromeRouter.getAmountOut(
+    // Wrapping swaps don't touch the routers:
+    const {
+      router,
+      routes,
+      amountToSwap,
+      expectedAmountOut,
+      feeRate
+    } = isWrappingSwap
+      ? {
+          router: routers[0].router,
+          routes: [],
+          amountToSwap: request.nativeAmount,
+          expectedAmountOut: request.nativeAmount,
+          feeRate: '0'
+        }
+      : await getBestVelodromeRoute(
+          routers,
+          quoteFor,
           request.nativeAmount,
           fromTokenAddress,
           toTokenAddress
-        ).stable
-
-    const path = [[fromTokenAddress, toTokenAddress, stable]]
-
-    const { amountToSwap, expectedAmountOut } = await getSwapAmounts(
-      velodromeRouter,
-      quoteFor,
-      request.nativeAmount,
-      path,
-      isWrappingSwap
-    )
+        )
 
     // Generate swap transactions
+    const fromAddress = (await fromWallet.getReceiveAddress()).publicAddress
     const toAddress = (await toWallet.getReceiveAddress()).publicAddress
-    const expirationDate = new Date(Date.now() + EXPIRATION_MS)
+    const expirationDate = new Date(Date.now() + settings.deadlineMs)
     const deadline = Math.round(expirationDate.getTime() / 1000) // unix timestamp
     const customNetworkFee = customFeeCache.getFees(uid)
     const wrappedEthContract = new ethers.Contract(
@@ -107,65 +324,65 @@ export function makeVelodromePlugin(
       WRAPPED_OPTIMISM_ETH_ABI,
       provider
     )
-    const swapTxs = await getSwapTransactions(
+    const { approvalTx, swapTx, revokeTx } = await getSwapTransactions(
       provider,
       inOutAddresses,
-      path,
-      velodromeRouter,
+      routes,
+      router,
       wrappedEthContract,
       amountToSwap,
       expectedAmountOut,
+      fromAddress,
       toAddress,
-      SLIPPAGE,
+      settings,
       deadline,
       customNetworkFee?.gasPrice
     )
-    const fromAddress = (await fromWallet.getReceiveAddress()).publicAddress
     // toEdgeUnsignedTxs
-    const edgeSpendInfos = swapTxs.map(swapTx => {
-      // Convert to our spendInfo
-      const edgeSpendInfo: EdgeSpendInfo = {
-        currencyCode: request.fromCurrencyCode, // what is being sent out, only if token. Blank if not token
-        spendTargets: [
-          {
-            nativeAmount: swapTx.value != null ? swapTx.value.toString() : '0', // biggy/number string integer
-            publicAddress: swapTx.to,
-
-            otherParams: {
-              data: swapTx.data
-            }
+    const makeSpendInfo = (tx: PopulatedTransaction): EdgeSpendInfo => ({
+      currencyCode: request.fromCurrencyCode, // what is being sent out, only if token. Blank if not token
+      spendTargets: [
+        {
+          nativeAmount: tx.value != null ? tx.value.toString() : '0', // biggy/number string integer
+          publicAddress: tx.to,
+
+          otherParams: {
+            data: tx.data
           }
-        ],
-        customNetworkFee: {
-          gasPrice:
-            swapTx.gasPrice != null
-              ? ethers.utils.formatUnits(swapTx.gasPrice, 'gwei').toString()
-              : '0',
-          gasLimit: swapTx.gasLimit?.toString() ?? '0'
-        },
-        networkFeeOption: 'custom',
-        swapData: {
-          isEstimate: false,
-          payoutAddress: toAddress,
-          payoutCurrencyCode: request.toCurrencyCode,
-          payoutNativeAmount: expectedAmountOut.toString(),
-          payoutWalletId: request.toWallet.id,
-          plugin: { ...swapInfo },
-          refundAddress: fromAddress
         }
+      ],
+      customNetworkFee: {
+        gasPrice:
+          tx.gasPrice != null
+            ? ethers.utils.formatUnits(tx.gasPrice, 'gwei').toString()
+            : '0',
+        gasLimit: tx.gasLimit?.toString() ?? '0'
+      },
+      networkFeeOption: 'custom',
+      swapData: {
+        isEstimate: false,
+        payoutAddress: toAddress,
+        payoutCurrencyCode: request.toCurrencyCode,
+        payoutNativeAmount: expectedAmountOut.toString(),
+        payoutWalletId: request.toWallet.id,
+        plugin: { ...swapInfo },
+        refundAddress: fromAddress
       }
-
-      return edgeSpendInfo
     })
 
-    let spendInfo = edgeSpendInfos[0]
-    let preTx: EdgeTransaction | undefined
-    if (edgeSpendInfos.length > 1) {
-      spendInfo = edgeSpendInfos[1]
-      edgeSpendInfos[0].metadata = { category: 'expense:Token Approval' }
-      preTx = await request.fromWallet.makeSpend(edgeSpendInfos[0])
+    const makeApprovalTx = async (
+      tx?: PopulatedTransaction
+    ): Promise<EdgeTransaction | undefined> => {
+      if (tx == null) return
+      const approvalSpendInfo = makeSpendInfo(tx)
+      approvalSpendInfo.metadata = { category: 'expense:Token Approval' }
+      return await request.fromWallet.makeSpend(approvalSpendInfo)
     }
 
+    const spendInfo = makeSpendInfo(swapTx)
+    const preTx = await makeApprovalTx(approvalTx)
+    const postTx = await makeApprovalTx(revokeTx)
+
     customFeeCache.setFees(uid, spendInfo.customNetworkFee)
 
     return {
@@ -174,23 +391,41 @@ export function makeVelodromePlugin(
       swapInfo,
       fromNativeAmount: amountToSwap,
       expirationDate,
-      preTx
+      preTx,
+      postTx,
+      minReceiveAmount: isWrappingSwap
+        ? expectedAmountOut
+        : getMinReceiveAmount(expectedAmountOut, settings.slippage),
+      fees: isWrappingSwap
+        ? undefined
+        : {
+            protocolFee: makeFractionFee(
+              request.fromCurrencyCode,
+              amountToSwap,
+              feeRate
+            )
+          }
     }
   }
 
   const out: EdgeSwapPlugin = {
     swapInfo,
-    async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+    async fetchSwapQuote(
+      req: EdgeSwapRequest,
+      userSettings: JsonObject | undefined
+    ): Promise<EdgeSwapQuote> {
+      const request = convertRequest(req, swapInfo)
+      const settings = getDexSwapSettings(userSettings, request)
 
       const uid = customFeeCache.createUid()
 
       const newRequest = await getMaxSwappable(
         fetchSwapQuoteInner,
         request,
-        uid
+        uid,
+        settings
       )
-      const swapOrder = await fetchSwapQuoteInner(newRequest, uid)
+      const swapOrder = await fetchSwapQuoteInner(newRequest, uid, settings)
       return await makeSwapPluginQuote(swapOrder)
     }
   }
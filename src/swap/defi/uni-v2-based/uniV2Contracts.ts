@@ -9,46 +9,36 @@ import WRAPPED_FTM_ABI from '../abi/WRAPPED_FTM_ABI'
 //
 
 // TOOD: Use FallbackProvider when it's patched https://github.com/ethers-io/ethers.js/issues/2837
-export const FTM_FALLBACK_PROVIDER_URL = 'https://rpc.ftm.tools'
-export const FTM_BASE_QUIKNODE_URL =
-  'https://polished-empty-cloud.fantom.quiknode.pro/'
-
-export const getFtmProvider = (
+export const makeUniV2Provider = (
+  rpcUrls: string[],
+  quiknodeUrl?: string,
   quiknodeApiKey?: string
-): ethers.providers.Provider =>
-  new ethers.providers.JsonRpcProvider(
-    quiknodeApiKey != null && quiknodeApiKey !== ''
-      ? `${FTM_BASE_QUIKNODE_URL}${quiknodeApiKey}`
-      : FTM_FALLBACK_PROVIDER_URL
-  )
+): ethers.providers.Provider => {
+  if (quiknodeUrl != null && quiknodeApiKey != null && quiknodeApiKey !== '') {
+    return new ethers.providers.JsonRpcProvider(
+      `${quiknodeUrl}${quiknodeApiKey}`
+    )
+  }
+  // Spread the load across the public servers:
+  const url = rpcUrls[Math.floor(Math.random() * rpcUrls.length)]
+  return new ethers.providers.JsonRpcProvider(url)
+}
 
 //
 // Contracts
 //
 
-// Routers
-const SPOOKYSWAP_ROUTER_ADDRESS = '0xF491e7B69E4244ad4002BC14e878a34207E38c29'
-export const makeSpookySwapRouterContract = (
-  provider: ethers.providers.Provider
-): Contract =>
-  new ethers.Contract(
-    SPOOKYSWAP_ROUTER_ADDRESS,
-    UNISWAP_V2_ROUTER_ABI,
-    provider
-  )
-
-const TOMBSWAP_ROUTER_ADDRESS = '0x6D0176C5ea1e44b08D3dd001b0784cE42F47a3A7'
-export const makeTombSwapRouterContract = (
-  provider: ethers.providers.Provider
+export const makeUniV2RouterContract = (
+  provider: ethers.providers.Provider,
+  routerAddress: string
 ): Contract =>
-  new ethers.Contract(TOMBSWAP_ROUTER_ADDRESS, UNISWAP_V2_ROUTER_ABI, provider)
+  new ethers.Contract(routerAddress, UNISWAP_V2_ROUTER_ABI, provider)
 
-// Wrapped Tokens
-const WFTM_TOKEN_ADDRESS = '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83'
-export const makeWrappedFtmContract = (
-  provider: ethers.providers.Provider
-): Contract =>
-  new ethers.Contract(WFTM_TOKEN_ADDRESS, WRAPPED_FTM_ABI, provider)
+// The wrapped native tokens share the WETH9 deposit & withdraw interface:
+export const makeWrappedNativeContract = (
+  provider: ethers.providers.Provider,
+  tokenAddress: string
+): Contract => new ethers.Contract(tokenAddress, WRAPPED_FTM_ABI, provider)
 
 export const makeErc20Contract = (
   provider: ethers.providers.Provider,
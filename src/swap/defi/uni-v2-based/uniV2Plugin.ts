@@ -0,0 +1,277 @@
+import { mul, sub } from 'biggystring'
+import { asObject, asOptional, asString } from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeCurrencyWallet,
+  EdgeSpendInfo,
+  EdgeSwapInfo,
+  EdgeSwapPlugin,
+  EdgeSwapQuote,
+  EdgeSwapRequest,
+  EdgeTransaction,
+  JsonObject,
+  SwapCurrencyError
+} from 'edge-core-js/types'
+import { ethers, PopulatedTransaction } from 'ethers'
+
+import {
+  customFeeCache,
+  getMaxSwappable,
+  makeFractionFee,
+  makeSwapPluginQuote,
+  SwapOrder
+} from '../../../swap-helpers'
+import { convertRequest } from '../../../util/utils'
+import { EdgeSwapRequestPlugin } from '../../types'
+import {
+  DexSwapSettings,
+  getDexSwapSettings,
+  getInOutTokenAddresses,
+  getMinReceiveAmount,
+  InOutTokenAddresses
+} from '../defiUtils'
+import {
+  makeUniV2Provider,
+  makeUniV2RouterContract,
+  makeWrappedNativeContract
+} from './uniV2Contracts'
+import { getBestSwapRoute, getSwapTransactions } from './uniV2Utils'
+
+/**
+ * Describes a Uniswap V2-compatible DEX on a single EVM chain.
+ * The router must use the standard `swapExactETHForTokens` method names.
+ */
+export interface UniV2PluginConfig {
+  swapInfo: EdgeSwapInfo
+
+  // The currency plugin for the chain the DEX lives on:
+  chainPluginId: string
+
+  // Public RPC servers, one of which is picked for each quote:
+  rpcUrls: string[]
+
+  // Preferred RPC server, used when the `quiknodeApiKey` init option is set:
+  quiknodeUrl?: string
+
+  routerAddress: string
+  wrappedNativeAddress: string
+
+  // Liquid tokens, such as stablecoins, to route through when two tokens
+  // have no pool of their own. The wrapped native token is always included:
+  baseTokenAddresses: string[]
+
+  // The LP fee the pools charge, as a fraction.
+  // The router already includes this in its quotes.
+  feeRate: string
+}
+
+/**
+ * Look up a token's currency code by contract address, for display.
+ */
+const getTokenCode = (wallet: EdgeCurrencyWallet, address: string): string => {
+  const { allTokens } = wallet.currencyConfig
+  const tokenId = Object.keys(allTokens).find(
+    tokenId =>
+      allTokens[tokenId].networkLocation?.contractAddress?.toLowerCase() ===
+      address.toLowerCase()
+  )
+  return tokenId != null ? allTokens[tokenId].currencyCode : address
+}
+
+/**
+ * The share of the input the pools keep, since every hop pays the LP fee.
+ */
+export const getPathFeeRate = (feeRate: string, hops: number): string => {
+  let kept = '1'
+  for (let i = 0; i < hops; ++i) kept = mul(kept, sub('1', feeRate))
+  return sub('1', kept)
+}
+
+const asInitOptions = asObject({
+  quiknodeApiKey: asOptional(asString)
+})
+
+/**
+ * Builds a swap plugin for a Uniswap V2-compatible DEX.
+ */
+export function makeUniV2Plugin(
+  config: UniV2PluginConfig
+): (opts: EdgeCorePluginOptions) => EdgeSwapPlugin {
+  const {
+    swapInfo,
+    chainPluginId,
+    rpcUrls,
+    quiknodeUrl,
+    routerAddress,
+    wrappedNativeAddress,
+    baseTokenAddresses,
+    feeRate
+  } = config
+
+  return (opts: EdgeCorePluginOptions): EdgeSwapPlugin => {
+    const { quiknodeApiKey } = asInitOptions(opts.initOptions)
+
+    const fetchSwapQuoteInner = async (
+      request: EdgeSwapRequestPlugin,
+      uid: string,
+      settings: DexSwapSettings
+    ): Promise<SwapOrder> => {
+      const { fromWallet, toWallet, fromTokenId, toTokenId, quoteFor } = request
+
+      // Both wallets must be on the DEX's chain:
+      if (
+        fromWallet.currencyInfo.pluginId !== chainPluginId ||
+        toWallet.currencyInfo.pluginId !== chainPluginId
+      ) {
+        throw new SwapCurrencyError(swapInfo, request)
+      }
+
+      // Parse input/output token addresses. If either from or to swap sources
+      // are for the native currency, convert the address to the wrapped equivalent.
+      const inOutAddresses: InOutTokenAddresses = getInOutTokenAddresses(
+        fromWallet,
+        fromTokenId,
+        toTokenId
+      )
+      const {
+        fromTokenAddress,
+        toTokenAddress,
+        isWrappingSwap
+      } = inOutAddresses
+
+      // Calculate swap amounts
+      const provider = makeUniV2Provider(rpcUrls, quiknodeUrl, quiknodeApiKey)
+      const router = makeUniV2RouterContract(provider, routerAddress)
+      const { path, amountToSwap, expectedAmountOut } = await getBestSwapRoute(
+        router,
+        quoteFor,
+        request.nativeAmount,
+        fromTokenAddress,
+        toTokenAddress,
+        [wrappedNativeAddress, ...baseTokenAddresses],
+        isWrappingSwap
+      )
+
+      // Generate swap transactions
+      const fromAddress = (await fromWallet.getReceiveAddress()).publicAddress
+      const toAddress = (await toWallet.getReceiveAddress()).publicAddress
+      const expirationDate = new Date(Date.now() + settings.deadlineMs)
+      const deadline = Math.round(expirationDate.getTime() / 1000) // unix timestamp
+      const customNetworkFee = customFeeCache.getFees(uid)
+      const wrappedNativeContract = makeWrappedNativeContract(
+        provider,
+        wrappedNativeAddress
+      )
+      const { approvalTx, swapTx, revokeTx } = await getSwapTransactions(
+        provider,
+        inOutAddresses,
+        path,
+        router,
+        wrappedNativeContract,
+        amountToSwap,
+        expectedAmountOut,
+        fromAddress,
+        toAddress,
+        settings,
+        deadline,
+        customNetworkFee?.gasPrice
+      )
+      // toEdgeUnsignedTxs
+      const makeSpendInfo = (tx: PopulatedTransaction): EdgeSpendInfo => ({
+        currencyCode: request.fromCurrencyCode, // what is being sent out, only if token. Blank if not token
+        spendTargets: [
+          {
+            nativeAmount: tx.value != null ? tx.value.toString() : '0', // biggy/number string integer
+            publicAddress: tx.to,
+
+            otherParams: {
+              data: tx.data
+            }
+          }
+        ],
+        customNetworkFee: {
+          gasPrice:
+            tx.gasPrice != null
+              ? ethers.utils.formatUnits(tx.gasPrice, 'gwei').toString()
+              : '0',
+          gasLimit: tx.gasLimit?.toString() ?? '0'
+        },
+        networkFeeOption: 'custom',
+        swapData: {
+          isEstimate: false,
+          payoutAddress: toAddress,
+          payoutCurrencyCode: request.toCurrencyCode,
+          payoutNativeAmount: expectedAmountOut.toString(),
+          payoutWalletId: request.toWallet.id,
+          plugin: { ...swapInfo },
+          refundAddress: fromAddress
+        }
+      })
+
+      const makeApprovalTx = async (
+        tx?: PopulatedTransaction
+      ): Promise<EdgeTransaction | undefined> => {
+        if (tx == null) return
+        const approvalSpendInfo = makeSpendInfo(tx)
+        approvalSpendInfo.metadata = { category: 'expense:Token Approval' }
+        return await request.fromWallet.makeSpend(approvalSpendInfo)
+      }
+
+      const spendInfo = makeSpendInfo(swapTx)
+      const preTx = await makeApprovalTx(approvalTx)
+      const postTx = await makeApprovalTx(revokeTx)
+
+      customFeeCache.setFees(uid, spendInfo.customNetworkFee)
+
+      return {
+        request,
+        spendInfo,
+        swapInfo,
+        fromNativeAmount: amountToSwap,
+        expirationDate,
+        preTx,
+        postTx,
+        metadataNotes: isWrappingSwap
+          ? undefined
+          : `Path: ${path
+              .map(address => getTokenCode(fromWallet, address))
+              .join(' -> ')}`,
+        minReceiveAmount: isWrappingSwap
+          ? expectedAmountOut
+          : getMinReceiveAmount(expectedAmountOut, settings.slippage),
+        fees: isWrappingSwap
+          ? undefined
+          : {
+              protocolFee: makeFractionFee(
+                request.fromCurrencyCode,
+                amountToSwap,
+                getPathFeeRate(feeRate, path.length - 1)
+              )
+            }
+      }
+    }
+
+    const out: EdgeSwapPlugin = {
+      swapInfo,
+      async fetchSwapQuote(
+        req: EdgeSwapRequest,
+        userSettings: JsonObject | undefined
+      ): Promise<EdgeSwapQuote> {
+        const request = convertRequest(req, swapInfo)
+        const settings = getDexSwapSettings(userSettings, request)
+
+        const uid = customFeeCache.createUid()
+
+        const newRequest = await getMaxSwappable(
+          fetchSwapQuoteInner,
+          request,
+          uid,
+          settings
+        )
+        const swapOrder = await fetchSwapQuoteInner(newRequest, uid, settings)
+        return await makeSwapPluginQuote(swapOrder)
+      }
+    }
+    return out
+  }
+}
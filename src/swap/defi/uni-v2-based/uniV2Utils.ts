@@ -1,8 +1,13 @@
-import { mul, round, sub } from 'biggystring'
+import { gt, lt } from 'biggystring'
 import { BigNumber, Contract, ethers, PopulatedTransaction } from 'ethers'
 
-import { InOutTokenAddresses } from '../defiUtils'
-import { makeErc20Contract } from './uniV2Contracts'
+import {
+  DexSwapSettings,
+  getEvmApprovalData,
+  getEvmRevokeData,
+  getMinReceiveAmount,
+  InOutTokenAddresses
+} from '../defiUtils'
 /**
  * Get the output swap amounts based on the requested input amount.
  * Call the router contract to calculate amounts and check if the swap path is
@@ -15,7 +20,7 @@ export const getSwapAmounts = async (
   path: unknown,
   isWrappingSwap: boolean
 ): Promise<{ amountToSwap: string; expectedAmountOut: string }> => {
-  const [amountToSwap, expectedAmountOut] = (isWrappingSwap
+  const amounts: string[] = (isWrappingSwap
     ? [nativeAmount, nativeAmount]
     : quoteFor === 'to'
     ? await router.getAmountsIn(nativeAmount, path)
@@ -24,12 +29,90 @@ export const getSwapAmounts = async (
     : []
   ).map(String)
 
+  // Multi-hop paths also return the amounts for each intermediate token:
+  const amountToSwap = amounts[0]
+  const expectedAmountOut = amounts[amounts.length - 1]
   if (amountToSwap == null || expectedAmountOut == null)
     throw new Error(`Failed to calculate amounts`)
 
   return { amountToSwap, expectedAmountOut }
 }
 
+export interface SwapRoute {
+  path: string[]
+  amountToSwap: string
+  expectedAmountOut: string
+}
+
+/**
+ * Find the best swap path between two tokens, trying the direct pool as well
+ * as a hop through each of the base tokens. The best path has the most output
+ * for 'from' quotes, or needs the least input for 'to' quotes.
+ */
+export const getBestSwapRoute = async (
+  router: Contract,
+  quoteFor: string,
+  nativeAmount: string,
+  fromTokenAddress: string,
+  toTokenAddress: string,
+  baseTokenAddresses: string[],
+  isWrappingSwap: boolean
+): Promise<SwapRoute> => {
+  const directPath = [fromTokenAddress, toTokenAddress]
+  const paths = [directPath]
+  if (!isWrappingSwap) {
+    const skip = new Set(directPath.map(address => address.toLowerCase()))
+    for (const baseAddress of baseTokenAddresses) {
+      if (skip.has(baseAddress.toLowerCase())) continue
+      skip.add(baseAddress.toLowerCase())
+      paths.push([fromTokenAddress, baseAddress, toTokenAddress])
+    }
+  }
+
+  // Paths without pools make the router revert, so skip those:
+  let directError: unknown
+  const routes = await Promise.all(
+    paths.map(async path => {
+      try {
+        const amounts = await getSwapAmounts(
+          router,
+          quoteFor,
+          nativeAmount,
+          path,
+          isWrappingSwap
+        )
+        return { path, ...amounts }
+      } catch (error: unknown) {
+        if (path === directPath) directError = error
+      }
+    })
+  )
+
+  let bestRoute: SwapRoute | undefined
+  for (const route of routes) {
+    if (route == null) continue
+    if (
+      bestRoute == null ||
+      (quoteFor === 'to'
+        ? lt(route.amountToSwap, bestRoute.amountToSwap)
+        : gt(route.expectedAmountOut, bestRoute.expectedAmountOut))
+    ) {
+      bestRoute = route
+    }
+  }
+
+  if (bestRoute == null) throw directError
+  return bestRoute
+}
+
+export interface SwapTransactions {
+  // Only needed when the router lacks the allowance:
+  approvalTx?: PopulatedTransaction
+  swapTx: PopulatedTransaction
+  // Resets any allowance left behind, if the user asked us to:
+  revokeTx?: PopulatedTransaction
+}
+
 /**
  * Get smart contract transaction(s) necessary to swap based on swap params
  */
@@ -41,11 +124,12 @@ export const getSwapTransactions = async (
   wrappedTokenContract: Contract,
   amountToSwap: string,
   expectedAmountOut: string,
+  fromAddress: string,
   toAddress: string,
-  slippage: string,
+  settings: DexSwapSettings,
   deadline: number,
   previousGasPrice?: string
-): Promise<PopulatedTransaction[]> => {
+): Promise<SwapTransactions> => {
   const {
     fromTokenAddress,
     isFromNativeCurrency,
@@ -63,93 +147,105 @@ export const getSwapTransactions = async (
       ? ethers.utils.parseUnits(previousGasPrice, 'gwei')
       : await provider.getGasPrice()
 
-  const addressToApproveTx = async (
+  const getApprovalTxs = async (
     tokenAddress: string,
     contractAddress: string
-  ): Promise<ethers.PopulatedTransaction> => {
-    const tokenContract = makeErc20Contract(provider, tokenAddress)
-    const promise = tokenContract.populateTransaction.approve(
+  ): Promise<Omit<SwapTransactions, 'swapTx'>> => {
+    const makeTx = (data: string): PopulatedTransaction => ({
+      to: tokenAddress,
+      data,
+      gasLimit: BigNumber.from('60000'),
+      gasPrice
+    })
+
+    // An exact approval is used up by the swap, so only an unlimited
+    // or pre-existing allowance can be left behind to revoke:
+    const approvalData = await getEvmApprovalData({
       contractAddress,
-      BigNumber.from(amountToSwap),
-      { gasLimit: '60000', gasPrice }
-    )
-    return await promise
-  }
+      assetAddress: tokenAddress,
+      nativeAmount: amountToSwap,
+      provider,
+      ownerAddress: fromAddress,
+      unlimited: settings.unlimitedApproval && !settings.revokeApproval
+    })
+    if (approvalData != null) return { approvalTx: makeTx(approvalData) }
+    if (!settings.revokeApproval) return {}
 
-  const txPromises: Array<Promise<PopulatedTransaction>> = []
+    const revokeData = await getEvmRevokeData({
+      contractAddress,
+      assetAddress: tokenAddress
+    })
+    if (revokeData == null) return {}
+    return { revokeTx: makeTx(revokeData) }
+  }
 
   // Deposit native currency for wrapped token
   if (isFromNativeCurrency && isToWrappedCurrency) {
-    txPromises.push(
-      ...[
-        wrappedTokenContract.populateTransaction.deposit({
-          gasLimit: '60000',
-          gasPrice,
-          value: amountToSwap
-        })
-      ]
-    )
+    const swapTx = await wrappedTokenContract.populateTransaction.deposit({
+      gasLimit: '60000',
+      gasPrice,
+      value: amountToSwap
+    })
+    return { swapTx }
   }
+
   // Withdraw wrapped token for native currency
-  else if (isFromWrappedCurrency && isToNativeCurrency) {
-    txPromises.push(
-      // Deposit Tx
-      wrappedTokenContract.populateTransaction.withdraw(amountToSwap, {
-        gasLimit: '60000',
-        gasPrice
-      })
+  if (isFromWrappedCurrency && isToNativeCurrency) {
+    const swapTx = await wrappedTokenContract.populateTransaction.withdraw(
+      amountToSwap,
+      { gasLimit: '60000', gasPrice }
     )
+    return { swapTx }
   }
+
+  const minReceiveAmount = getMinReceiveAmount(
+    expectedAmountOut,
+    settings.slippage
+  )
+
   // Swap native currency for token
-  else {
-    const slippageMultiplier = sub('1', slippage)
-    if (isFromNativeCurrency && !isToNativeCurrency) {
-      txPromises.push(
-        // Swap Tx
-        router.populateTransaction.swapExactETHForTokens(
-          round(mul(expectedAmountOut, slippageMultiplier), 0),
-          path,
-          toAddress,
-          deadline,
-          { gasLimit: '250000', gasPrice, value: amountToSwap }
-        )
-      )
-    }
-    // Swap token for native currency
-    else if (!isFromNativeCurrency && isToNativeCurrency) {
-      txPromises.push(
-        // Approve TX
-        addressToApproveTx(fromTokenAddress, router.address),
-        // Swap Tx
-        router.populateTransaction.swapExactTokensForETH(
-          amountToSwap,
-          round(mul(expectedAmountOut, slippageMultiplier), 0),
-          path,
-          toAddress,
-          deadline,
-          { gasLimit: '250000', gasPrice }
-        )
+  if (isFromNativeCurrency && !isToNativeCurrency) {
+    const swapTx = await router.populateTransaction.swapExactETHForTokens(
+      minReceiveAmount,
+      path,
+      toAddress,
+      deadline,
+      { gasLimit: '250000', gasPrice, value: amountToSwap }
+    )
+    return { swapTx }
+  }
+
+  // Swap token for native currency
+  if (!isFromNativeCurrency && isToNativeCurrency) {
+    const [approvalTxs, swapTx] = await Promise.all([
+      getApprovalTxs(fromTokenAddress, router.address),
+      router.populateTransaction.swapExactTokensForETH(
+        amountToSwap,
+        minReceiveAmount,
+        path,
+        toAddress,
+        deadline,
+        { gasLimit: '250000', gasPrice }
       )
-    }
-    // Swap token for token
-    else if (!isFromNativeCurrency && !isToNativeCurrency) {
-      txPromises.push(
-        // Approve TX
-        addressToApproveTx(fromTokenAddress, router.address),
-        // Swap Tx
-        router.populateTransaction.swapExactTokensForTokens(
-          amountToSwap,
-          round(mul(expectedAmountOut, slippageMultiplier), 0),
-          path,
-          toAddress,
-          deadline,
-          { gasLimit: '600000', gasPrice }
-        )
+    ])
+    return { ...approvalTxs, swapTx }
+  }
+
+  // Swap token for token
+  if (!isFromNativeCurrency && !isToNativeCurrency) {
+    const [approvalTxs, swapTx] = await Promise.all([
+      getApprovalTxs(fromTokenAddress, router.address),
+      router.populateTransaction.swapExactTokensForTokens(
+        amountToSwap,
+        minReceiveAmount,
+        path,
+        toAddress,
+        deadline,
+        { gasLimit: '600000', gasPrice }
       )
-    } else {
-      throw new Error('Unhandled swap type')
-    }
+    ])
+    return { ...approvalTxs, swapTx }
   }
 
-  return await Promise.all(txPromises)
+  throw new Error('Unhandled swap type')
 }
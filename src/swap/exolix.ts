@@ -4,7 +4,6 @@ import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   SwapBelowLimitError,
@@ -16,11 +15,22 @@ import {
   getCodesWithTranscription,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { EdgeSwapRequestPlugin } from './types'
+import {
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 const pluginId = 'exolix'
 
@@ -59,6 +69,17 @@ const uri = 'https://exolix.com/api/'
 
 const expirationMs = 1000 * 60
 
+const ORDER_STATE_MAP: OrderStateMap = {
+  wait: 'waitingForDeposit',
+  confirmation: 'confirming',
+  confirmed: 'exchanging',
+  exchanging: 'exchanging',
+  sending: 'sending',
+  success: 'completed',
+  overdue: 'expired',
+  refunded: 'refunded'
+}
+
 const asRateResponse = asObject({
   min_amount: asString
 })
@@ -71,20 +92,36 @@ const asQuoteInfo = asObject({
   deposit_extra: asOptional(asString)
 })
 
-export function makeExolixPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
+const asOrderStatus = asObject({
+  id: asString,
+  status: asString,
+  amount_to: asOptional(asNumber),
+  hash_in: asOptional(asString),
+  hash_out: asOptional(asString),
+  refund_address: asOptional(asString)
+})
+
+export function makeExolixPlugin(
+  opts: EdgeCorePluginOptions
+): EdgeSwapPluginWithStatus {
   const { io } = opts
   const { fetchCors = io.fetch } = io
   const { apiKey } = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
+
+  const headers: { [header: string]: string } = {
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+    Authorization: `${apiKey}`
+  }
 
   async function call(route: string, params: any): Promise<Object> {
     const body = JSON.stringify(params)
 
-    const headers: { [header: string]: string } = {
-      Accept: 'application/json',
-      'Content-Type': 'application/json',
-      Authorization: `${apiKey}`
-    }
-
     const response = await fetchCors(uri + route, {
       method: 'POST',
       body,
@@ -242,15 +279,16 @@ export function makeExolixPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
     async fetchSwapQuote(
       req: EdgeSwapRequest,
       userSettings: Object | undefined
     ): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
 
       checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
+      checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
       const newRequest = await getMaxSwappable(
         getFixedQuote,
@@ -261,6 +299,28 @@ export function makeExolixPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       const fixedResult = await makeSwapPluginQuote(fixedOrder)
 
       return fixedResult
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const response = await fetchCors(
+        uri + `exchange/${encodeURIComponent(orderId)}`,
+        {
+          headers
+        }
+      )
+      if (!response.ok) {
+        throw new Error(`Exolix returned error code ${response.status}`)
+      }
+      const status = asOrderStatus(await response.json())
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: status.id,
+        partnerStatus: status.status,
+        depositTxid: status.hash_in,
+        payoutTxid: status.hash_out,
+        payoutExchangeAmount: status.amount_to?.toString(),
+        refundAddress: status.refund_address
+      })
     }
   }
 
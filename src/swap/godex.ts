@@ -12,7 +12,6 @@ import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   JsonObject,
@@ -25,11 +24,23 @@ import {
   getCodesWithTranscription,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { asNumberString, EdgeSwapRequestPlugin } from './types'
+import {
+  asNumberString,
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 const pluginId = 'godex'
 
@@ -79,6 +90,28 @@ const asQuoteInfo = asObject({
   return_extra_id: asEither(asString, asNull)
 })
 
+const asOrderStatus = asObject({
+  transaction_id: asString,
+  status: asString,
+  hash_in: asMaybe(asString),
+  hash_out: asMaybe(asString),
+  withdrawal_amount: asMaybe(asString),
+  return: asMaybe(asString)
+})
+
+const ORDER_STATE_MAP: OrderStateMap = {
+  wait: 'waitingForDeposit',
+  confirmation: 'confirming',
+  confirmed: 'exchanging',
+  exchanging: 'exchanging',
+  sending: 'sending',
+  sending_confirmation: 'sending',
+  success: 'completed',
+  overdue: 'expired',
+  refunded: 'refunded',
+  error: 'failed'
+}
+
 const INVALID_CURRENCY_CODES: InvalidCurrencyCodes = {
   from: {
     avalanche: 'allTokens',
@@ -106,10 +139,17 @@ const MAINNET_CODE_TRANSCRIPTION = {
   avalanche: 'AVAXC'
 }
 
-export function makeGodexPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
+export function makeGodexPlugin(
+  opts: EdgeCorePluginOptions
+): EdgeSwapPluginWithStatus {
   const { io, log } = opts
   const { fetchCors = io.fetch } = io
   const initOptions = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
 
   async function call(
     url: string,
@@ -296,7 +336,7 @@ export function makeGodexPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
 
     async fetchSwapQuote(
@@ -304,8 +344,9 @@ export function makeGodexPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       userSettings: Object | undefined,
       opts: { promoCode?: string }
     ): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
       checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
+      checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
       const newRequest = await getMaxSwappable(
         fetchSwapQuoteInner,
@@ -314,6 +355,28 @@ export function makeGodexPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
       )
       const swapOrder = await fetchSwapQuoteInner(newRequest, opts)
       return await makeSwapPluginQuote(swapOrder)
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const response = await fetchCors(
+        uri + `transaction/${encodeURIComponent(orderId)}`,
+        {
+          headers: { Accept: 'application/json' }
+        }
+      )
+      if (!response.ok) {
+        throw new Error(`godex returned error code ${response.status}`)
+      }
+      const status = asOrderStatus(await response.json())
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: status.transaction_id,
+        partnerStatus: status.status,
+        depositTxid: status.hash_in,
+        payoutTxid: status.hash_out,
+        payoutExchangeAmount: status.withdrawal_amount,
+        refundAddress: status.return
+      })
     }
   }
 
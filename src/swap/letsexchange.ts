@@ -1,10 +1,9 @@
 import { gt, lt } from 'biggystring'
-import { asObject, asOptional, asString } from 'cleaners'
+import { asMaybe, asObject, asOptional, asString } from 'cleaners'
 import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   SwapAboveLimitError,
@@ -17,12 +16,24 @@ import {
   getCodesWithTranscription,
   getMaxSwappable,
   InvalidCurrencyCodes,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
 import { asOptionalBlank } from './changenow'
-import { asNumberString, EdgeSwapRequestPlugin } from './types'
+import {
+  asNumberString,
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 const pluginId = 'letsexchange'
 
@@ -57,6 +68,32 @@ const asInfoReply = asObject({
   max_amount: asNumberString,
   amount: asNumberString
 })
+
+const asOrderStatus = asObject({
+  transaction_id: asString,
+  status: asString,
+  hash_in: asMaybe(asString),
+  hash_out: asMaybe(asString),
+  withdrawal_amount: asMaybe(asNumberString),
+  return: asMaybe(asString),
+  return_hash: asMaybe(asString),
+  return_amount: asMaybe(asNumberString)
+})
+
+const ORDER_STATE_MAP: OrderStateMap = {
+  wait: 'waitingForDeposit',
+  confirmation: 'confirming',
+  confirmed: 'exchanging',
+  exchanging: 'exchanging',
+  sending: 'sending',
+  sending_confirmation: 'sending',
+  success: 'completed',
+  overdue: 'expired',
+  refund: 'refunded',
+  refunded: 'refunded',
+  error: 'failed'
+}
+
 const INVALID_CURRENCY_CODES: InvalidCurrencyCodes = {
   from: {},
   to: {
@@ -89,10 +126,21 @@ const SPECIAL_MAINNET_CASES: { [pId: string]: { [cc: string]: string } } = {
 
 export function makeLetsExchangePlugin(
   opts: EdgeCorePluginOptions
-): EdgeSwapPlugin {
+): EdgeSwapPluginWithStatus {
   const { io, log } = opts
   const { fetchCors = io.fetch } = io
   const initOptions = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
+
+  const headers = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${initOptions.apiKey}`,
+    Accept: 'application/json'
+  }
 
   async function call(
     url: string,
@@ -101,11 +149,6 @@ export function makeLetsExchangePlugin(
   ): Promise<Object> {
     const body = JSON.stringify(data.params)
 
-    const headers = {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${initOptions.apiKey}`,
-      Accept: 'application/json'
-    }
     const response = await fetchCors(url, { method: 'POST', body, headers })
     if (!response.ok) {
       if (response.status === 422) {
@@ -300,7 +343,7 @@ export function makeLetsExchangePlugin(
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
 
     async fetchSwapQuote(
@@ -308,8 +351,9 @@ export function makeLetsExchangePlugin(
       userSettings: Object | undefined,
       opts: { promoCode?: string }
     ): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
       checkInvalidCodes(INVALID_CURRENCY_CODES, request, swapInfo)
+      checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
       const newRequest = await getMaxSwappable(
         fetchSwapQuoteInner,
@@ -318,6 +362,30 @@ export function makeLetsExchangePlugin(
       )
       const swapOrder = await fetchSwapQuoteInner(newRequest, opts)
       return await makeSwapPluginQuote(swapOrder)
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const response = await fetchCors(
+        uri + `transaction/${encodeURIComponent(orderId)}`,
+        {
+          headers
+        }
+      )
+      if (!response.ok) {
+        throw new Error(`letsexchange returned error code ${response.status}`)
+      }
+      const status = asOrderStatus(await response.json())
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: status.transaction_id,
+        partnerStatus: status.status,
+        depositTxid: status.hash_in,
+        payoutTxid: status.hash_out,
+        payoutExchangeAmount: status.withdrawal_amount,
+        refundAddress: status.return,
+        refundTxid: status.return_hash,
+        refundExchangeAmount: status.return_amount
+      })
     }
   }
 
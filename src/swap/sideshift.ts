@@ -4,7 +4,6 @@ import {
   EdgeFetchFunction,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   JsonObject,
@@ -18,11 +17,24 @@ import {
   ensureInFuture,
   getCodesWithTranscription,
   getMaxSwappable,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  CommonExchangeInfo,
+  ExchangeInfoLoader,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { EdgeSwapRequestPlugin } from './types'
+import {
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 // See https://help.sideshift.ai/en/articles/4559664-which-coins-and-tokens-are-listed for list of supported currencies
 const MAINNET_CODE_TRANSCRIPTION = {
@@ -41,6 +53,21 @@ const swapInfo: EdgeSwapInfo = {
 }
 const ORDER_STATUS_URL = 'https://sideshift.ai/orders/'
 
+// See https://sideshift.ai/api#tag/shifts/operation/getShift for statuses
+const ORDER_STATE_MAP: OrderStateMap = {
+  waiting: 'waitingForDeposit',
+  pending: 'confirming',
+  processing: 'confirming',
+  review: 'exchanging',
+  settling: 'sending',
+  settled: 'completed',
+  refund: 'refunded',
+  refunding: 'refunded',
+  refunded: 'refunded',
+  expired: 'expired',
+  multiple: 'exchanging'
+}
+
 async function checkQuoteError(
   rate: Rate,
   request: EdgeSwapRequestPlugin,
@@ -246,9 +273,14 @@ const fetchSwapQuoteInner = async (
   }
 }
 
-const createFetchSwapQuote = (api: SideshiftApi, affiliateId: string) =>
+const createFetchSwapQuote = (
+  api: SideshiftApi,
+  affiliateId: string,
+  infoLoader: ExchangeInfoLoader<CommonExchangeInfo>
+) =>
   async function fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-    const request = convertRequest(req)
+    const request = convertRequest(req, swapInfo)
+    checkExchangeInfo(await infoLoader.getInfo(), request, swapInfo)
 
     const newRequest = await getMaxSwappable(
       fetchSwapQuoteInner,
@@ -260,16 +292,48 @@ const createFetchSwapQuote = (api: SideshiftApi, affiliateId: string) =>
     return await makeSwapPluginQuote(swapOrder)
   }
 
+const createFetchOrderStatus = (api: SideshiftApi) =>
+  async function fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+    const shift = asShift(
+      await api.get<typeof asShift>(`/shifts/${encodeURIComponent(orderId)}`)
+    )
+
+    if ('error' in shift) {
+      throw new Error(`SideShift.ai error ${shift.error.message}`)
+    }
+
+    return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+      orderId: shift.id,
+      partnerStatus: shift.status,
+      depositTxid: shift.depositHash,
+      payoutTxid: shift.settleHash,
+      payoutExchangeAmount: shift.settleAmount,
+      refundAddress: shift.refundAddress,
+      refundTxid: shift.refundHash
+    })
+  }
+
 export function makeSideshiftPlugin(
   opts: EdgeCorePluginOptions
-): EdgeSwapPlugin {
+): EdgeSwapPluginWithStatus {
   const { io, initOptions } = opts
   const api = createSideshiftApi(SIDESHIFT_BASE_URL, io.fetchCors ?? io.fetch)
-  const fetchSwapQuote = createFetchSwapQuote(api, initOptions.affiliateId)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
+  const fetchSwapQuote = createFetchSwapQuote(
+    api,
+    initOptions.affiliateId,
+    infoLoader
+  )
+  const fetchOrderStatus = createFetchOrderStatus(api)
 
   return {
     swapInfo,
-    fetchSwapQuote
+    fetchSwapQuote,
+    fetchOrderStatus
   }
 }
 
@@ -338,3 +402,16 @@ const asOrder = asEither(
   }),
   asError
 )
+
+const asShift = asEither(
+  asObject({
+    id: asString,
+    status: asString,
+    depositHash: asOptional(asString),
+    settleHash: asOptional(asString),
+    settleAmount: asOptional(asString),
+    refundAddress: asOptional(asString),
+    refundHash: asOptional(asString)
+  }),
+  asError
+)
@@ -11,7 +11,6 @@ import {
   EdgeCorePluginOptions,
   EdgeSpendInfo,
   EdgeSwapInfo,
-  EdgeSwapPlugin,
   EdgeSwapQuote,
   EdgeSwapRequest,
   SwapBelowLimitError,
@@ -25,12 +24,23 @@ import {
   getMaxSwappable,
   InvalidCurrencyCodes,
   isLikeKind,
+  makeOrderStatus,
   makeSwapPluginQuote,
+  OrderStateMap,
   SwapOrder
 } from '../swap-helpers'
 import { div18 } from '../util/biggystringplus'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../util/exchangeInfo'
 import { convertRequest, getAddress } from '../util/utils'
-import { EdgeSwapRequestPlugin } from './types'
+import {
+  EdgeSwapPluginWithStatus,
+  EdgeSwapRequestPlugin,
+  SwapOrderStatus
+} from './types'
 
 const pluginId = 'swapuz'
 
@@ -47,6 +57,19 @@ const asInitOptions = asObject({
 
 const orderUri = 'https://swapuz.com/order/'
 const uri = 'https://api.swapuz.com/api/home/v1/'
+const statusUri = 'https://api.swapuz.com/api/order/uid/'
+
+// Swapuz reports numeric order statuses:
+const ORDER_STATE_MAP: OrderStateMap = {
+  '0': 'waitingForDeposit',
+  '1': 'confirming',
+  '2': 'exchanging',
+  '3': 'sending',
+  '4': 'completed',
+  '5': 'expired',
+  '6': 'refunded',
+  '10': 'failed'
+}
 
 const INVALID_CURRENCY_CODES: InvalidCurrencyCodes = {
   from: {},
@@ -62,10 +85,17 @@ const MAINNET_CODE_TRANSCRIPTION = {
   optimism: 'OPTIMISM'
 }
 
-export function makeSwapuzPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
+export function makeSwapuzPlugin(
+  opts: EdgeCorePluginOptions
+): EdgeSwapPluginWithStatus {
   const { io } = opts
   const fetch = io.fetchCors ?? io.fetch
   const { apiKey } = asInitOptions(opts.initOptions)
+  const infoLoader = makeExchangeInfoLoader(
+    opts,
+    swapInfo.pluginId,
+    asCommonExchangeInfo
+  )
 
   const headers = {
     'Content-Type': 'application/json',
@@ -216,11 +246,11 @@ export function makeSwapuzPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
     }
   }
 
-  const out: EdgeSwapPlugin = {
+  const out: EdgeSwapPluginWithStatus = {
     swapInfo,
 
     async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const requestTop = convertRequest(req)
+      const requestTop = convertRequest(req, swapInfo)
       const {
         fromCurrencyCode,
         toWallet,
@@ -228,6 +258,7 @@ export function makeSwapuzPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
         nativeAmount,
         quoteFor
       } = requestTop
+      checkExchangeInfo(await infoLoader.getInfo(), requestTop, swapInfo)
 
       if (quoteFor !== 'to') {
         const newRequest = await getMaxSwappable(
@@ -276,6 +307,29 @@ export function makeSwapuzPlugin(opts: EdgeCorePluginOptions): EdgeSwapPlugin {
         }
         throw new SwapCurrencyError(swapInfo, fromCurrencyCode, toCurrencyCode)
       }
+    },
+
+    async fetchOrderStatus(orderId: string): Promise<SwapOrderStatus> {
+      const response = await fetch(statusUri + encodeURIComponent(orderId), {
+        headers
+      })
+      if (!response.ok) {
+        throw new Error(`Swapuz call returned error code ${response.status}`)
+      }
+
+      const statusJson = asApiResponse(asOrderStatus)(await response.json())
+      if (statusJson.result == null) {
+        throw new Error(`Swapuz could not find order ${orderId}`)
+      }
+      const { uid, status, dTxId, wTxId, amountResult } = statusJson.result
+
+      return makeOrderStatus(swapInfo, ORDER_STATE_MAP, {
+        orderId: uid,
+        partnerStatus: status.toString(),
+        depositTxid: dTxId,
+        payoutTxid: wTxId,
+        payoutExchangeAmount: amountResult?.toString()
+      })
     }
   }
   return out
@@ -335,3 +389,11 @@ const asCreateOrder = asObject({
   // createDate: asString,
   finishPayment: asDate
 })
+
+const asOrderStatus = asObject({
+  uid: asString,
+  status: asNumber,
+  dTxId: asMaybe(asString),
+  wTxId: asMaybe(asString),
+  amountResult: asMaybe(asNumber)
+})
@@ -64,7 +64,7 @@ export function makeTransferPlugin(
     swapInfo,
 
     async fetchSwapQuote(req: EdgeSwapRequest): Promise<EdgeSwapQuote> {
-      const request = convertRequest(req)
+      const request = convertRequest(req, swapInfo)
       if (
         request.fromWallet.currencyInfo.pluginId !==
           request.toWallet.currencyInfo.pluginId ||
@@ -1,5 +1,5 @@
 import { asEither, asNumber, asString } from 'cleaners'
-import { EdgeCurrencyWallet } from 'edge-core-js'
+import { EdgeCurrencyWallet, EdgeSwapPlugin, EdgeSwapQuote } from 'edge-core-js'
 
 export interface EdgeSwapRequestPlugin {
   fromWallet: EdgeCurrencyWallet
@@ -10,6 +10,66 @@ export interface EdgeSwapRequestPlugin {
   quoteFor: 'from' | 'max' | 'to'
   fromCurrencyCode: string
   toCurrencyCode: string
+
+  // DEX settings the GUI can pass with the request,
+  // which take priority over the plugin's user settings:
+  slippage?: string
+  deadlineMs?: number
+  unlimitedApproval?: boolean
+  revokeApproval?: boolean
+}
+
+/**
+ * One fee a swap charges, in the currency it is paid in.
+ */
+export interface SwapFee {
+  currencyCode: string
+  nativeAmount: string
+}
+
+/**
+ * The fees that make up the difference between a swap's input & output.
+ * Plugins only include the fees they know about.
+ */
+export interface SwapFeeBreakdown {
+  // Mining fee for the swap transaction itself:
+  sourceNetworkFee: SwapFee
+  // Mining fees for any token approval & revoke transactions:
+  approvalFee?: SwapFee
+  // Fee for sending the output on the destination chain:
+  outboundFee?: SwapFee
+  // Fees the exchange or liquidity pools keep:
+  protocolFee?: SwapFee
+  // Exchange fees charged in other currencies, one per currency,
+  // such as a bridge fee paid in the chain's gas token:
+  otherProtocolFees?: SwapFee[]
+  // Our share of the swap:
+  affiliateFee?: SwapFee
+  // Padding we add to cover price movement:
+  spread?: SwapFee
+}
+
+/**
+ * The fees a plugin reports itself.
+ * The network fees come from the transactions it builds.
+ */
+export type SwapOrderFees = Omit<
+  SwapFeeBreakdown,
+  'sourceNetworkFee' | 'approvalFee'
+>
+
+/**
+ * A swap quote, which can also report the least the swap will pay out
+ * when the plugin knows its worst case, and what fees it charges.
+ */
+export interface SwapPluginQuote extends EdgeSwapQuote {
+  readonly minReceiveAmount?: string
+  readonly fees?: SwapFeeBreakdown
+
+  // How long the swap may take to finish, for swaps that complete over time:
+  readonly maxFulfillmentSeconds?: number
+  // True if the swap may only partly fill, refunding the rest:
+  readonly canBePartial?: boolean
 }
 
 export const asNumberString = (raw: any): string => {
@@ -20,3 +80,44 @@ export const asNumberString = (raw: any): string => {
 export interface StringMap {
   [key: string]: string
 }
+
+/**
+ * The normalized lifecycle of a centralized swap order.
+ */
+export type SwapOrderState =
+  | 'waitingForDeposit'
+  | 'confirming'
+  | 'exchanging'
+  | 'sending'
+  | 'completed'
+  // Only part of the swap filled, and the rest was refunded:
+  | 'partial'
+  | 'refunded'
+  | 'failed'
+  | 'expired'
+
+export interface SwapOrderStatus {
+  orderId: string
+  state: SwapOrderState
+
+  // The partner's own status string, for support requests:
+  partnerStatus: string
+
+  // Deposit & payout details, where the partner reports them.
+  // Amounts are in exchange (not native) units:
+  depositTxid?: string
+  payoutTxid?: string
+  payoutExchangeAmount?: string
+
+  // Refund details, where the partner reports them:
+  refundAddress?: string
+  refundTxid?: string
+  refundExchangeAmount?: string
+}
+
+/**
+ * A swap plugin that can look up the status of the orders it creates.
+ */
+export interface EdgeSwapPluginWithStatus extends EdgeSwapPlugin {
+  readonly fetchOrderStatus: (orderId: string) => Promise<SwapOrderStatus>
+}
@@ -0,0 +1,229 @@
+import {
+  asArray,
+  asBoolean,
+  asDate,
+  asEither,
+  asMap,
+  asObject,
+  asOptional,
+  asString,
+  asUnknown,
+  asValue,
+  Cleaner
+} from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeFetchResponse,
+  EdgeIo,
+  EdgeSwapInfo,
+  SwapCurrencyError
+} from 'edge-core-js/types'
+
+import { EdgeSwapRequestPlugin } from '../swap/types'
+import { checkInvalidCodes, InvalidCurrencyCodes } from '../swap-helpers'
+import { fetchInfo, promiseWithTimeout } from './utils'
+
+export const EXCHANGE_INFO_UPDATE_FREQ_MS = 60000
+
+// Don't hammer the info server while it is down:
+export const EXCHANGE_INFO_RETRY_MS = 10000
+
+const asInitOptions = asObject({
+  appId: asOptional(asString, 'edge')
+})
+
+const asInvalidAssetRule = asObject({
+  currencyCode: asOptional(asString),
+  tokenId: asOptional(asString),
+  startDate: asOptional(asDate),
+  endDate: asOptional(asDate)
+})
+
+const asCodeList = asEither(
+  asValue<['allCodes', 'allTokens']>('allCodes', 'allTokens'),
+  asArray(asEither(asString, asInvalidAssetRule))
+)
+
+export const asInvalidCurrencyCodes: Cleaner<InvalidCurrencyCodes> = asObject({
+  from: asOptional(asMap(asCodeList), {}),
+  to: asOptional(asMap(asCodeList), {})
+})
+
+/**
+ * Overrides that any plugin's section of the info server can carry,
+ * on top of its own plugin-specific settings.
+ * Servers & spreads mean something different to each plugin,
+ * so those belong in the plugin's own cleaner, such as Thorchain's
+ * `midgardServers` & `perAssetSpread` or LI.FI's `lifiServers`.
+ */
+export const asCommonExchangeInfo = asObject({
+  // Kill switch, to turn a misbehaving plugin off without a release:
+  disabled: asOptional(asBoolean, false),
+  disabledPairs: asOptional(asInvalidCurrencyCodes)
+})
+
+export type CommonExchangeInfo = ReturnType<typeof asCommonExchangeInfo>
+
+export interface ExchangeInfoLoader<T> {
+  /**
+   * Returns this plugin's section of the info server config,
+   * or undefined if neither the server nor the disk has a usable copy.
+   */
+  getInfo: () => Promise<(T & CommonExchangeInfo) | undefined>
+}
+
+interface InfoCache {
+  json: unknown
+  lastUpdate: number
+  lastAttempt: number
+  pending: Promise<void> | undefined
+}
+
+// Plugins that share an io object share the info server document,
+// so the whole document is fetched at most once per update period:
+const infoCaches = new WeakMap<EdgeIo, Map<string, InfoCache>>()
+
+function getInfoCache(io: EdgeIo, appId: string): InfoCache {
+  let caches = infoCaches.get(io)
+  if (caches == null) {
+    caches = new Map()
+    infoCaches.set(io, caches)
+  }
+
+  let cache = caches.get(appId)
+  if (cache == null) {
+    cache = {
+      json: undefined,
+      lastUpdate: 0,
+      lastAttempt: 0,
+      pending: undefined
+    }
+    caches.set(appId, cache)
+  }
+  return cache
+}
+
+/**
+ * Loads a plugin's settings from the `v1/exchangeInfo` endpoint,
+ * cleaning the `swap.plugins[section]` part of the document.
+ * Plugins that used to share another plugin's section can name it as a
+ * fallback, for servers that don't publish their own section yet.
+ * The last good copy is saved to disk, so cold starts
+ * can still use it if the info server is unreachable.
+ */
+export function makeExchangeInfoLoader<T>(
+  opts: EdgeCorePluginOptions,
+  section: string,
+  asInfo: Cleaner<T>,
+  fallbackSection?: string
+): ExchangeInfoLoader<T> {
+  const { io, log, pluginDisklet } = opts
+  const { appId } = asInitOptions(opts.initOptions)
+  const cache = getInfoCache(io, appId)
+  const diskPath = `exchangeInfo/${section}.json`
+
+  const asSection = (raw: unknown): T & CommonExchangeInfo => ({
+    ...asCommonExchangeInfo(raw),
+    ...asInfo(raw)
+  })
+
+  // Picks out this plugin's section, still raw so we can save it:
+  const asDocument = asObject({
+    swap: asObject({
+      plugins: asObject({
+        [section]: asUnknown,
+        ...(fallbackSection != null ? { [fallbackSection]: asUnknown } : {})
+      })
+    })
+  })
+
+  let savedUpdate = 0
+
+  async function refresh(): Promise<void> {
+    cache.lastAttempt = Date.now()
+    try {
+      const response: EdgeFetchResponse = await promiseWithTimeout(
+        fetchInfo(io.fetch, `v1/exchangeInfo/${appId}`)
+      )
+      if (!response.ok) {
+        const text = await response.text()
+        log.warn(`Error getting info server exchangeInfo: ${text}`)
+        return
+      }
+      cache.json = await response.json()
+      cache.lastUpdate = Date.now()
+    } catch (e: any) {
+      log.warn('Error getting info server exchangeInfo:', e.message)
+    }
+  }
+
+  async function loadFromDisk(): Promise<(T & CommonExchangeInfo) | undefined> {
+    try {
+      const text = await pluginDisklet.getText(diskPath)
+      return asSection(JSON.parse(text))
+    } catch (e) {}
+  }
+
+  return {
+    async getInfo() {
+      const now = Date.now()
+      if (
+        cache.pending == null &&
+        (cache.json == null ||
+          now - cache.lastUpdate > EXCHANGE_INFO_UPDATE_FREQ_MS) &&
+        now - cache.lastAttempt > EXCHANGE_INFO_RETRY_MS
+      ) {
+        cache.pending = refresh().finally(() => {
+          cache.pending = undefined
+        })
+      }
+      if (cache.pending != null) await cache.pending
+
+      if (cache.json != null) {
+        try {
+          const { plugins } = asDocument(cache.json).swap
+          const raw =
+            plugins[section] ??
+            (fallbackSection != null ? plugins[fallbackSection] : undefined)
+          if (raw == null) return
+          const info = asSection(raw)
+          if (savedUpdate !== cache.lastUpdate) {
+            savedUpdate = cache.lastUpdate
+            pluginDisklet
+              .setText(diskPath, JSON.stringify(raw))
+              .catch(e => log.warn(`Error saving ${diskPath}:`, e.message))
+          }
+          return info
+        } catch (e: any) {
+          log.warn(`Invalid exchangeInfo for ${section}:`, e.message)
+        }
+      }
+
+      // Fall back on the last good copy, if we have one:
+      return await loadFromDisk()
+    }
+  }
+}
+
+/**
+ * Throws if the info server has turned the plugin or this pair off.
+ */
+export function checkExchangeInfo(
+  info: CommonExchangeInfo | undefined,
+  request: EdgeSwapRequestPlugin,
+  swapInfo: EdgeSwapInfo
+): void {
+  if (info == null) return
+  if (info.disabled) {
+    const error = new SwapCurrencyError(
+      swapInfo,
+      request.fromCurrencyCode,
+      request.toCurrencyCode
+    )
+    error.message += ' (blocked by infoServer)'
+    throw error
+  }
+  if (info.disabledPairs != null) {
+    checkInvalidCodes(info.disabledPairs, request, swapInfo, 'infoServer')
+  }
+}
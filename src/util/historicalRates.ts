@@ -0,0 +1,149 @@
+import { asMap, asNumber } from 'cleaners'
+import {
+  EdgeCorePluginOptions,
+  EdgeRateHint,
+  EdgeRatePair,
+  EdgeRatePlugin
+} from 'edge-core-js/types'
+
+/**
+ * A rate hint that can ask for the rate on a past date,
+ * given as an ISO date string or a millisecond timestamp.
+ */
+export interface HistoricalRateHint extends EdgeRateHint {
+  date?: string | number
+}
+
+/**
+ * A rate for a past day, in `YYYY-MM-DD` (UTC) form.
+ */
+export interface HistoricalRatePair extends EdgeRatePair {
+  date?: string
+}
+
+/**
+ * A rate plugin that also accepts dated hints.
+ */
+export interface HistoricalRatePlugin extends EdgeRatePlugin {
+  readonly fetchRates: (
+    hints: HistoricalRateHint[]
+  ) => Promise<HistoricalRatePair[]>
+}
+
+const asCacheFile = asMap(asNumber)
+
+/**
+ * Names a pair in the cache file.
+ * Tokens can share a ticker, so hints with a contract address
+ * are cached under that address as well.
+ */
+function getCacheKey(
+  hint: EdgeRateHint & { contractAddress?: string }
+): string {
+  const { contractAddress, fromCurrency, toCurrency } = hint
+  return contractAddress == null
+    ? `${fromCurrency}_${toCurrency}`
+    : `${fromCurrency}:${contractAddress.toLowerCase()}_${toCurrency}`
+}
+
+/**
+ * Returns the UTC day a hint asks for, or undefined for spot rates.
+ */
+export function getHintDay(hint: HistoricalRateHint): string | undefined {
+  if (hint.date == null) return
+  const date = new Date(hint.date)
+  if (isNaN(date.getTime())) return
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Splits the hints into spot hints and historical hints.
+ */
+export function splitRateHints<T extends HistoricalRateHint>(
+  hints: T[]
+): {
+  spotHints: T[]
+  historicalHints: Array<{ hint: T; day: string }>
+} {
+  const spotHints: T[] = []
+  const historicalHints: Array<{ hint: T; day: string }> = []
+  for (const hint of hints) {
+    const day = getHintDay(hint)
+    if (day == null) spotHints.push(hint)
+    else historicalHints.push({ hint, day })
+  }
+  return { spotHints, historicalHints }
+}
+
+/**
+ * Looks up a single historical rate, or returns undefined if the source
+ * has no rate for that pair & day.
+ */
+export type FetchHistoricalRate<T extends EdgeRateHint = EdgeRateHint> = (
+  hint: T,
+  day: string
+) => Promise<number | undefined>
+
+/**
+ * Fetches rates for past days, saving them in the plugin's disklet.
+ * Past rates never change, so each pair & day is only fetched once,
+ * and a failed lookup is simply retried next time.
+ * The current UTC day is still moving, so its rates are never cached.
+ */
+export function makeHistoricalRateFetcher<
+  T extends EdgeRateHint & { contractAddress?: string }
+>(
+  opts: EdgeCorePluginOptions,
+  fetchRate: FetchHistoricalRate<T>
+): (
+  historicalHints: Array<{ hint: T; day: string }>
+) => Promise<HistoricalRatePair[]> {
+  const { log, pluginDisklet } = opts
+  const days = new Map<string, Promise<{ [pair: string]: number }>>()
+
+  async function loadDay(day: string): Promise<{ [pair: string]: number }> {
+    let rates = days.get(day)
+    if (rates == null) {
+      rates = pluginDisklet
+        .getText(`historicalRates/${day}.json`)
+        .then(text => asCacheFile(JSON.parse(text)))
+        .catch(() => ({}))
+      days.set(day, rates)
+    }
+    return await rates
+  }
+
+  return async historicalHints => {
+    const pairs: HistoricalRatePair[] = []
+    const dirtyDays = new Set<string>()
+    const today = new Date().toISOString().slice(0, 10)
+
+    for (const { hint, day } of historicalHints) {
+      const { fromCurrency, toCurrency } = hint
+      const key = getCacheKey(hint)
+      const isClosed = day < today
+      const rates = isClosed ? await loadDay(day) : {}
+
+      if (rates[key] == null) {
+        try {
+          const rate = await fetchRate(hint, day)
+          if (rate == null || !isFinite(rate)) continue
+          rates[key] = rate
+          if (isClosed) dirtyDays.add(day)
+        } catch (e) {
+          log.warn(`Historical rate ${key} on ${day} failed: ${String(e)}`)
+          continue
+        }
+      }
+      pairs.push({ fromCurrency, toCurrency, rate: rates[key], date: day })
+    }
+
+    for (const day of dirtyDays) {
+      const rates = await loadDay(day)
+      await pluginDisklet
+        .setText(`historicalRates/${day}.json`, JSON.stringify(rates))
+        .catch(e => log.warn(`Error saving historical rates: ${String(e)}`))
+    }
+    return pairs
+  }
+}
@@ -3,10 +3,13 @@ import {
   EdgeCurrencyWallet,
   EdgeFetchFunction,
   EdgeFetchResponse,
-  EdgeSwapRequest
+  EdgeSwapInfo,
+  EdgeSwapRequest,
+  SwapCurrencyError
 } from 'edge-core-js'
 
 import { EdgeSwapRequestPlugin } from '../swap/types'
+import { getTokenId } from '../swap-helpers'
 const INFO_SERVERS = ['https://info1.edge.app', 'https://info2.edge.app']
 const RATES_SERVERS = ['https://rates1.edge.app', 'https://rates2.edge.app']
 
@@ -164,14 +167,66 @@ export const makeQueryParams = (params: QueryParams): string => {
     .join('&')
 }
 
+/**
+ * Resolves one side of a swap by tokenId first, falling back on the
+ * currency code for callers that only pass the deprecated code fields.
+ * Codes & tokenIds that name neither the wallet's currency nor one of its
+ * tokens are a SwapCurrencyError, rather than being mistaken for the
+ * mainnet asset or treated as a plugin failure.
+ */
+export const resolveAsset = (
+  swapInfo: EdgeSwapInfo,
+  request: EdgeSwapRequest,
+  side: 'from' | 'to'
+): { tokenId: string | undefined; currencyCode: string } => {
+  const wallet = side === 'from' ? request.fromWallet : request.toWallet
+  let tokenId = side === 'from' ? request.fromTokenId : request.toTokenId
+  const currencyCode =
+    side === 'from' ? request.fromCurrencyCode : request.toCurrencyCode
+  const unsupported = (): SwapCurrencyError =>
+    new SwapCurrencyError(
+      swapInfo,
+      request.fromCurrencyCode ??
+        request.fromTokenId ??
+        request.fromWallet.currencyInfo.currencyCode,
+      request.toCurrencyCode ??
+        request.toTokenId ??
+        request.toWallet.currencyInfo.currencyCode
+    )
+
+  if (tokenId == null && currencyCode != null) {
+    tokenId = getTokenId(wallet, currencyCode)
+    if (tokenId == null && currencyCode !== wallet.currencyInfo.currencyCode) {
+      throw unsupported()
+    }
+  }
+  if (tokenId == null) {
+    return { tokenId, currencyCode: wallet.currencyInfo.currencyCode }
+  }
+
+  const token = wallet.currencyConfig.allTokens[tokenId]
+  if (token != null) return { tokenId, currencyCode: token.currencyCode }
+  if (currencyCode != null) return { tokenId, currencyCode }
+  throw unsupported()
+}
+
+/**
+ * Fills in both the tokenIds and the currency codes of a swap request.
+ */
 export const convertRequest = (
-  request: EdgeSwapRequest
+  request: EdgeSwapRequest,
+  swapInfo: EdgeSwapInfo
 ): EdgeSwapRequestPlugin => {
-  if (request.fromCurrencyCode == null || request.toCurrencyCode == null) {
-    throw new Error('Missing request fields')
+  const from = resolveAsset(swapInfo, request, 'from')
+  const to = resolveAsset(swapInfo, request, 'to')
+
+  return {
+    ...request,
+    fromTokenId: from.tokenId,
+    fromCurrencyCode: from.currencyCode,
+    toTokenId: to.tokenId,
+    toCurrencyCode: to.currencyCode
   }
-  const out: any = request
-  return out
 }
 
 export async function getAddress(wallet: EdgeCurrencyWallet): Promise<string> {
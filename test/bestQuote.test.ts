@@ -0,0 +1,233 @@
+import { assert } from 'chai'
+import {
+  EdgeCurrencyWallet,
+  EdgeSwapPlugin,
+  EdgeSwapQuote,
+  EdgeSwapRequest,
+  SwapBelowLimitError,
+  SwapCurrencyError
+} from 'edge-core-js/types'
+import { after, before, describe, it } from 'mocha'
+
+import {
+  BestSwapQuote,
+  makeBestQuotePlugin,
+  rankSwapQuotes,
+  swapPluginFactories
+} from '../src/swap/bestQuote'
+import { snooze } from '../src/util/utils'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const swapInfo = {
+  pluginId: 'test',
+  displayName: 'Test',
+  supportEmail: 'support@edge.app'
+}
+
+const makeQuote = (
+  toNativeAmount: string,
+  networkFee: string,
+  isEstimate: boolean = false
+): EdgeSwapQuote => {
+  const out: any = {
+    fromNativeAmount: '100000000',
+    toNativeAmount,
+    networkFee: {
+      currencyCode: 'BTC',
+      nativeAmount: networkFee
+    },
+    isEstimate
+  }
+  return out
+}
+
+describe(`rankSwapQuotes`, function () {
+  it('ranks by rate net of fees', function () {
+    const ranked = rankSwapQuotes(
+      [
+        { pluginId: 'cheap', quote: makeQuote('1000', '0') },
+        { pluginId: 'expensive', quote: makeQuote('1010', '5000000') }
+      ],
+      'BTC',
+      '0.02'
+    )
+    assert.deepEqual(
+      ranked.map(r => r.pluginId),
+      ['cheap', 'expensive']
+    )
+  })
+
+  it('penalizes estimates', function () {
+    const ranked = rankSwapQuotes(
+      [
+        { pluginId: 'estimate', quote: makeQuote('1010', '0', true) },
+        { pluginId: 'fixed', quote: makeQuote('1000', '0') }
+      ],
+      'BTC',
+      '0.02'
+    )
+    assert.deepEqual(
+      ranked.map(r => r.pluginId),
+      ['fixed', 'estimate']
+    )
+  })
+
+  it('ignores network fees paid in other currencies', function () {
+    // We have no ETH rate, so this fee can't make the quote worse:
+    const ethFee = {
+      ...makeQuote('1000', '0'),
+      networkFee: { currencyCode: 'ETH', nativeAmount: '5000000' }
+    }
+    const ranked = rankSwapQuotes(
+      [
+        { pluginId: 'btcFee', quote: makeQuote('1000', '1') },
+        { pluginId: 'ethFee', quote: ethFee }
+      ],
+      'BTC',
+      '0.02'
+    )
+    assert.deepEqual(
+      ranked.map(r => r.pluginId),
+      ['ethFee', 'btcFee']
+    )
+  })
+
+  it('sorts errors after quotes by usefulness', function () {
+    const ranked = rankSwapQuotes(
+      [
+        { pluginId: 'other', error: new Error('boom') },
+        {
+          pluginId: 'currency',
+          error: new SwapCurrencyError(swapInfo, 'BTC', 'ETH')
+        },
+        { pluginId: 'limit', error: new SwapBelowLimitError(swapInfo, '1') },
+        { pluginId: 'quote', quote: makeQuote('1000', '0') }
+      ],
+      'BTC',
+      '0.02'
+    )
+    assert.deepEqual(
+      ranked.map(r => r.pluginId),
+      ['quote', 'limit', 'currency', 'other']
+    )
+  })
+})
+
+describe(`makeBestQuotePlugin`, function () {
+  let request: EdgeSwapRequest
+  const closed: string[] = []
+
+  /**
+   * Makes a plugin that quotes the given amount, or throws the given error,
+   * after a delay.
+   */
+  const makeTestPlugin = (
+    pluginId: string,
+    result: string | Error,
+    delayMs: number = 0
+  ) => (): EdgeSwapPlugin => ({
+    swapInfo: { ...swapInfo, pluginId },
+    async fetchSwapQuote(): Promise<EdgeSwapQuote> {
+      await snooze(delayMs)
+      if (typeof result !== 'string') throw result
+      const toNativeAmount = result
+      return {
+        ...makeQuote(toNativeAmount, '0'),
+        pluginId,
+        async close() {
+          closed.push(pluginId)
+        }
+      }
+    }
+  })
+
+  before(async function () {
+    const fromWallet: EdgeCurrencyWallet = await makeFakeWallet(btcCurrencyInfo)
+    const toWallet: EdgeCurrencyWallet = await makeFakeWallet(ethCurrencyInfo)
+    request = {
+      fromWallet,
+      toWallet,
+      fromCurrencyCode: 'BTC',
+      toCurrencyCode: 'ETH',
+      nativeAmount: '100000000',
+      quoteFor: 'from'
+    }
+
+    swapPluginFactories.testBest = makeTestPlugin('testBest', '1010')
+    swapPluginFactories.testWorse = makeTestPlugin('testWorse', '1000')
+    swapPluginFactories.testSlow = makeTestPlugin('testSlow', '2000', 50)
+    swapPluginFactories.testFail = makeTestPlugin('testFail', new Error('boom'))
+    swapPluginFactories.testLimit = makeTestPlugin(
+      'testLimit',
+      new SwapBelowLimitError(swapInfo, '1')
+    )
+  })
+
+  after(function () {
+    delete swapPluginFactories.testBest
+    delete swapPluginFactories.testWorse
+    delete swapPluginFactories.testSlow
+    delete swapPluginFactories.testFail
+    delete swapPluginFactories.testLimit
+  })
+
+  const makePlugin = (plugins: { [pluginId: string]: any }): EdgeSwapPlugin =>
+    makeBestQuotePlugin({
+      ...makeFakePluginOptions([]),
+      initOptions: { plugins, timeoutMs: 10 }
+    })
+
+  it('returns the best quote', async function () {
+    const plugin = makePlugin({ testWorse: true, testBest: true })
+    const quote = (await plugin.fetchSwapQuote(
+      request,
+      undefined,
+      {}
+    )) as BestSwapQuote
+    assert.equal(quote.pluginId, 'testBest')
+    assert.deepEqual(
+      quote.rankedQuotes.map(r => r.pluginId),
+      ['testBest', 'testWorse']
+    )
+  })
+
+  it('closes every quote', async function () {
+    closed.length = 0
+    const plugin = makePlugin({ testWorse: true, testBest: true })
+    const quote = await plugin.fetchSwapQuote(request, undefined, {})
+    await quote.close()
+    assert.deepEqual(closed, ['testBest', 'testWorse'])
+  })
+
+  it('skips & closes quotes that time out', async function () {
+    closed.length = 0
+    const plugin = makePlugin({ testSlow: true, testWorse: true })
+    const quote = (await plugin.fetchSwapQuote(
+      request,
+      undefined,
+      {}
+    )) as BestSwapQuote
+    assert.equal(quote.pluginId, 'testWorse')
+    assert.equal(String(quote.rankedQuotes[1].error), 'Error: PROMISE_TIMEOUT')
+
+    await snooze(60)
+    assert.deepEqual(closed, ['testSlow'])
+  })
+
+  it('throws the most useful error when every plugin fails', async function () {
+    const plugin = makePlugin({ testFail: true, testLimit: true })
+    const error = await plugin
+      .fetchSwapQuote(request, undefined, {})
+      .catch(error => error)
+    assert.equal(error.name, 'SwapBelowLimitError')
+  })
+
+  it('ignores disabled plugins', async function () {
+    const plugin = makePlugin({ testBest: false, testWorse: true })
+    const quote = await plugin.fetchSwapQuote(request, undefined, {})
+    assert.equal(quote.pluginId, 'testWorse')
+  })
+})
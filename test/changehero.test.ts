@@ -0,0 +1,26 @@
+import { makeChangeHeroPlugin } from '../src/swap/changehero'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin({
+  pluginId: 'changehero',
+  makePlugin: makeChangeHeroPlugin,
+  initOptions: { apiKey: 'key' },
+  orderStatuses: {
+    done: {
+      orderId: 'done',
+      state: 'completed',
+      partnerStatus: 'finished',
+      depositTxid: 'txin',
+      payoutTxid: 'txout',
+      payoutExchangeAmount: '15.5'
+    },
+    refund: {
+      orderId: 'refund',
+      state: 'refunded',
+      partnerStatus: 'refunded',
+      depositTxid: 'txin',
+      refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD',
+      refundTxid: 'txrefund'
+    }
+  }
+})
@@ -0,0 +1,46 @@
+import { assert } from 'chai'
+import { it } from 'mocha'
+
+import { makeChangeNowPlugin } from '../src/swap/changenow'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin(
+  {
+    pluginId: 'changenow',
+    makePlugin: makeChangeNowPlugin,
+    initOptions: { apiKey: 'key' },
+    orderStatuses: {
+      done: {
+        orderId: 'done',
+        state: 'completed',
+        partnerStatus: 'finished',
+        depositTxid: 'txin',
+        payoutTxid: 'txout',
+        payoutExchangeAmount: '15.5'
+      },
+      refund: {
+        orderId: 'refund',
+        state: 'refunded',
+        partnerStatus: 'refunded',
+        depositTxid: 'txin',
+        refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD',
+        refundTxid: 'txrefund',
+        refundExchangeAmount: '0.999'
+      }
+    }
+  },
+  ({ makePlugin, makeRequest }) => {
+    it('quote expiration', async function () {
+      const plugin = makePlugin('fromQuote')
+      const quote = await plugin.fetchSwapQuote(
+        makeRequest('from', '100000000'),
+        undefined,
+        {}
+      )
+      assert.equal(
+        quote.expirationDate?.toISOString(),
+        '2099-01-01T00:00:00.000Z'
+      )
+    })
+  }
+)
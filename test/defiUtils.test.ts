@@ -0,0 +1,164 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { ethers } from 'ethers'
+import { before, describe, it } from 'mocha'
+
+import erc20Abi from '../src/swap/defi/abi/UNISWAP_V2_ERC20_ABI'
+import {
+  EvmWaterfallProvider,
+  getDexSwapSettings,
+  getEvmApprovalData,
+  getMinReceiveAmount
+} from '../src/swap/defi/defiUtils'
+import { EdgeSwapRequestPlugin } from '../src/swap/types'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakeWallet } from './fakeWallet'
+
+describe(`getDexSwapSettings`, function () {
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  const makeRequest = (
+    extra: Partial<EdgeSwapRequestPlugin> = {}
+  ): EdgeSwapRequestPlugin => ({
+    fromWallet: ethWallet,
+    toWallet: ethWallet,
+    fromCurrencyCode: 'ETH',
+    toCurrencyCode: 'USDC',
+    nativeAmount: '1000000000000000000',
+    quoteFor: 'from',
+    ...extra
+  })
+
+  it('falls back to defaults', function () {
+    assert.deepEqual(getDexSwapSettings(undefined, makeRequest()), {
+      slippage: '0.05',
+      deadlineMs: 60000,
+      unlimitedApproval: false,
+      revokeApproval: false
+    })
+    assert.deepInclude(
+      getDexSwapSettings({}, makeRequest(), { slippage: '0' }),
+      { slippage: '0', deadlineMs: 60000 }
+    )
+  })
+
+  it('prefers the request over user settings', function () {
+    const settings = getDexSwapSettings(
+      { slippage: '0.01', deadlineMs: 120000, unlimitedApproval: true },
+      makeRequest({ slippage: '0.02' })
+    )
+    assert.deepEqual(settings, {
+      slippage: '0.02',
+      deadlineMs: 120000,
+      unlimitedApproval: true,
+      revokeApproval: false
+    })
+  })
+
+  it('rejects out-of-bounds values', function () {
+    assert.throws(
+      () => getDexSwapSettings({ slippage: '0.0001' }, makeRequest()),
+      'Slippage 0.0001 must be between 0.001 and 0.5'
+    )
+    assert.throws(
+      () => getDexSwapSettings({ deadlineMs: 1000 }, makeRequest()),
+      'Deadline 1000ms must be between 30000ms and 3600000ms'
+    )
+  })
+})
+
+describe(`getMinReceiveAmount`, function () {
+  it('applies the slippage tolerance', function () {
+    assert.equal(getMinReceiveAmount('1000000', '0.05'), '950000')
+    assert.equal(getMinReceiveAmount('1000001', '0.005'), '995001')
+  })
+})
+
+/**
+ * Answers every contract call with the same allowance.
+ */
+class FakeAllowanceProvider extends ethers.providers.StaticJsonRpcProvider {
+  allowance: string
+
+  constructor(allowance: string) {
+    super('https://rpc.example.com', 1)
+    this.allowance = allowance
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    if (method === 'eth_chainId') return '0x1'
+    if (method !== 'eth_call') throw new Error(`Unexpected ${method}`)
+    return ethers.utils.defaultAbiCoder.encode(['uint256'], [this.allowance])
+  }
+}
+
+class FakeDownProvider extends ethers.providers.StaticJsonRpcProvider {
+  constructor() {
+    super('https://down.example.com', 1)
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    throw new Error('Server is down')
+  }
+}
+
+describe(`getEvmApprovalData`, function () {
+  const erc20 = new ethers.utils.Interface(erc20Abi)
+  const params = {
+    contractAddress: '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE',
+    assetAddress: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    nativeAmount: '1000000',
+    ownerAddress: '0x0d73358506663d484945ba85d0cd435ad610b0a0'
+  }
+  const getApprovedAmount = (data: string | undefined): string => {
+    if (data == null) throw new Error('No approval')
+    return erc20.decodeFunctionData('approve', data)[1].toString()
+  }
+
+  it('approves the swap amount', async function () {
+    const data = await getEvmApprovalData({
+      ...params,
+      provider: new FakeAllowanceProvider('999999')
+    })
+    assert.equal(getApprovedAmount(data), '1000000')
+  })
+
+  it('skips approvals the allowance covers', async function () {
+    const data = await getEvmApprovalData({
+      ...params,
+      provider: new FakeAllowanceProvider('1000000')
+    })
+    assert.isUndefined(data)
+  })
+
+  it('approves if the allowance check fails', async function () {
+    const data = await getEvmApprovalData({
+      ...params,
+      provider: new FakeDownProvider()
+    })
+    assert.equal(getApprovedAmount(data), '1000000')
+  })
+
+  it('checks the allowance on the next server', async function () {
+    const data = await getEvmApprovalData({
+      ...params,
+      provider: new EvmWaterfallProvider([
+        new FakeDownProvider(),
+        new FakeAllowanceProvider('1000000')
+      ])
+    })
+    assert.isUndefined(data)
+  })
+
+  it('approves unlimited amounts', async function () {
+    const data = await getEvmApprovalData({ ...params, unlimited: true })
+    assert.equal(
+      getApprovedAmount(data),
+      ethers.constants.MaxUint256.toString()
+    )
+  })
+})
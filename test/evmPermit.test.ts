@@ -0,0 +1,236 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { ethers } from 'ethers'
+import { describe, it } from 'mocha'
+
+import permitAbi from '../src/swap/defi/abi/ERC20_PERMIT_ABI'
+import {
+  EvmTypedData,
+  getEvmPermit,
+  hashTypedDataDomain,
+  makePermit2TypedData,
+  signEvmPermit
+} from '../src/swap/defi/evmPermit'
+
+const tokenAddress = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+const spenderAddress = '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE'
+const signer = new ethers.Wallet(
+  '0x0123456789012345678901234567890123456789012345678901234567890123'
+)
+
+/**
+ * Signs typed data the way the ethereum engine does.
+ */
+const fakeWallet = ({
+  async getReceiveAddress() {
+    return { publicAddress: signer.address }
+  },
+  async signMessage(message: string): Promise<string> {
+    const { domain, types, message: value }: EvmTypedData = JSON.parse(message)
+    const { EIP712Domain, ...rest } = types
+    return await signer._signTypedData(domain, rest, value)
+  }
+} as unknown) as EdgeCurrencyWallet
+
+const erc20 = new ethers.utils.Interface(permitAbi)
+
+/**
+ * Answers token calls for an EIP-2612 token,
+ * with a `version` & `PERMIT_TYPEHASH` only if they are given.
+ */
+class FakeTokenProvider extends ethers.providers.StaticJsonRpcProvider {
+  name: string
+  version: string | undefined
+  typehash: string | undefined
+
+  constructor(name: string, version?: string, typehash?: string) {
+    super('https://rpc.example.com', 1)
+    this.name = name
+    this.version = version
+    this.typehash = typehash
+  }
+
+  async send(method: string, params: any[]): Promise<unknown> {
+    if (method !== 'eth_call') throw new Error(`Unexpected ${method}`)
+    const { name } = erc20.parseTransaction({ data: params[0].data })
+    if (name === 'name') return erc20.encodeFunctionResult(name, [this.name])
+    if (name === 'nonces') return erc20.encodeFunctionResult(name, [7])
+    if (name === 'version') {
+      if (this.version == null) throw new Error('execution reverted')
+      return erc20.encodeFunctionResult(name, [this.version])
+    }
+    if (name === 'PERMIT_TYPEHASH') {
+      if (this.typehash == null) throw new Error('execution reverted')
+      return erc20.encodeFunctionResult(name, [this.typehash])
+    }
+    const separator = hashTypedDataDomain({
+      name: this.name,
+      version: this.version ?? '1',
+      chainId: 1,
+      verifyingContract: tokenAddress
+    })
+    return erc20.encodeFunctionResult(name, [separator])
+  }
+}
+
+/**
+ * Answers token calls for a token without `permit`.
+ */
+class FakePlainTokenProvider extends ethers.providers.StaticJsonRpcProvider {
+  constructor() {
+    super('https://rpc.example.com', 1)
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    throw new Error('execution reverted')
+  }
+}
+
+/**
+ * Fails every call, like an RPC server that is down.
+ */
+class FakeDownProvider extends ethers.providers.StaticJsonRpcProvider {
+  constructor() {
+    super('https://rpc.example.com', 1)
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    throw ethers.logger.makeError('bad response', ethers.errors.SERVER_ERROR)
+  }
+}
+
+describe(`getEvmPermit`, function () {
+  const params = {
+    wallet: fakeWallet,
+    assetAddress: tokenAddress,
+    spenderAddress,
+    nativeAmount: '1000000',
+    deadline: 1700000000,
+    allowPermit2: false
+  }
+
+  it('signs EIP-2612 permits', async function () {
+    const unsigned = await getEvmPermit({
+      ...params,
+      provider: new FakeTokenProvider('USD Coin', '2')
+    })
+    if (unsigned == null) throw new Error('Expected a permit')
+    const permit = await signEvmPermit(fakeWallet, unsigned)
+    if (permit.type !== 'eip2612') throw new Error('Expected EIP-2612')
+
+    const recovered = ethers.utils.verifyTypedData(
+      {
+        name: 'USD Coin',
+        version: '2',
+        chainId: 1,
+        verifyingContract: tokenAddress
+      },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' }
+        ]
+      },
+      {
+        owner: signer.address,
+        spender: spenderAddress,
+        value: '1000000',
+        nonce: 7,
+        deadline: 1700000000
+      },
+      permit
+    )
+    assert.equal(recovered, signer.address)
+  })
+
+  it('assumes version 1 for tokens without a version', async function () {
+    const permit = await getEvmPermit({
+      ...params,
+      provider: new FakeTokenProvider('Uniswap')
+    })
+    assert.equal(permit?.type, 'eip2612')
+  })
+
+  it('checks the permit typehash where tokens publish it', async function () {
+    const usdc = await getEvmPermit({
+      ...params,
+      provider: new FakeTokenProvider(
+        'USD Coin',
+        '2',
+        ethers.utils.id(
+          'Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)'
+        )
+      )
+    })
+    assert.equal(usdc?.type, 'eip2612')
+
+    // DAI's permit takes an expiry & an allowed flag instead of a value:
+    const dai = await getEvmPermit({
+      ...params,
+      provider: new FakeTokenProvider(
+        'Dai Stablecoin',
+        '1',
+        ethers.utils.id(
+          'Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)'
+        )
+      )
+    })
+    assert.isUndefined(dai)
+  })
+
+  it('waits to sign until asked', async function () {
+    const permit = await getEvmPermit({
+      ...params,
+      wallet: ({
+        ...fakeWallet,
+        async signMessage() {
+          throw new Error('Signed too soon')
+        }
+      } as unknown) as EdgeCurrencyWallet,
+      provider: new FakeTokenProvider('USD Coin', '2')
+    })
+    assert.equal(permit?.type, 'eip2612')
+  })
+
+  it('falls back for tokens without a permit', async function () {
+    const permit = await getEvmPermit({
+      ...params,
+      provider: new FakePlainTokenProvider()
+    })
+    assert.isUndefined(permit)
+  })
+
+  it('throws if the server fails', async function () {
+    const error = await getEvmPermit({
+      ...params,
+      provider: new FakeDownProvider()
+    }).catch(error => error)
+    assert.equal(error.code, ethers.errors.CALL_EXCEPTION)
+    assert.equal(error.error.code, ethers.errors.SERVER_ERROR)
+  })
+})
+
+describe(`makePermit2TypedData`, function () {
+  it('is signable & recoverable', async function () {
+    const typedData = makePermit2TypedData({
+      chainId: 1,
+      token: tokenAddress,
+      amount: '1000000',
+      spender: spenderAddress,
+      nonce: '12345',
+      deadline: 1700000000
+    })
+    const signature = await fakeWallet.signMessage(JSON.stringify(typedData))
+    const { EIP712Domain, ...types } = typedData.types
+    const recovered = ethers.utils.verifyTypedData(
+      typedData.domain,
+      types,
+      typedData.message,
+      signature
+    )
+    assert.equal(recovered, signer.address)
+  })
+})
@@ -0,0 +1,193 @@
+import { assert } from 'chai'
+import { asArray, asObject, asString } from 'cleaners'
+import { makeMemoryDisklet } from 'disklet'
+import { EdgeCorePluginOptions, EdgeCurrencyWallet } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import { EdgeSwapRequestPlugin } from '../src/swap/types'
+import {
+  asCommonExchangeInfo,
+  checkExchangeInfo,
+  makeExchangeInfoLoader
+} from '../src/util/exchangeInfo'
+import { snooze } from '../src/util/utils'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const fixtures = loadFixtures('exchangeInfo')
+
+const asTestInfo = asObject({
+  servers: asArray(asString)
+})
+
+const swapInfo = {
+  pluginId: 'test',
+  displayName: 'Test',
+  supportEmail: 'support@edge.app'
+}
+
+/**
+ * Wraps the plugin options so the test can count info server requests.
+ */
+function countFetches(
+  opts: EdgeCorePluginOptions
+): { opts: EdgeCorePluginOptions; count: () => number } {
+  let count = 0
+  const fetch: typeof opts.io.fetch = async (uri, init) => {
+    ++count
+    return await opts.io.fetch(uri, init)
+  }
+  return {
+    opts: { ...opts, io: { ...opts.io, fetch } },
+    count: () => count
+  }
+}
+
+describe(`makeExchangeInfoLoader`, function () {
+  it('cleans the plugin section', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'test',
+      asTestInfo
+    )
+    const info = await loader.getInfo()
+    assert.deepEqual(info, {
+      disabled: false,
+      disabledPairs: undefined,
+      servers: ['https://api.test']
+    })
+  })
+
+  it('returns nothing for a missing section', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'missing',
+      asTestInfo
+    )
+    assert.isUndefined(await loader.getInfo())
+  })
+
+  it('falls back on a shared section', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'missing',
+      asTestInfo,
+      'test'
+    )
+    const info = await loader.getInfo()
+    assert.deepEqual(info?.servers, ['https://api.test'])
+  })
+
+  it('prefers its own section to the fallback', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'killed',
+      asCommonExchangeInfo,
+      'test'
+    )
+    const info = await loader.getInfo()
+    assert.isTrue(info?.disabled)
+  })
+
+  it('shares one fetch between plugins', async function () {
+    const { opts, count } = countFetches(makeFakePluginOptions(fixtures.info))
+    const loaders = [
+      makeExchangeInfoLoader(opts, 'test', asTestInfo),
+      makeExchangeInfoLoader(opts, 'killed', asCommonExchangeInfo)
+    ]
+    await Promise.all(loaders.map(async loader => await loader.getInfo()))
+    await loaders[0].getInfo()
+    assert.equal(count(), 1)
+  })
+
+  it('waits before retrying a failed fetch', async function () {
+    const { opts, count } = countFetches(makeFakePluginOptions(fixtures.down))
+    const loader = makeExchangeInfoLoader(opts, 'test', asTestInfo)
+    assert.isUndefined(await loader.getInfo())
+    const fetches = count()
+    assert.isAbove(fetches, 0)
+
+    assert.isUndefined(await loader.getInfo())
+    assert.equal(count(), fetches)
+  })
+
+  it('falls back on the last good copy', async function () {
+    const pluginDisklet = makeMemoryDisklet()
+    const online = makeExchangeInfoLoader(
+      { ...makeFakePluginOptions(fixtures.info), pluginDisklet },
+      'test',
+      asTestInfo
+    )
+    await online.getInfo()
+    await snooze(0)
+    const text = await pluginDisklet.getText('exchangeInfo/test.json')
+    assert.deepEqual(JSON.parse(text), { servers: ['https://api.test'] })
+
+    const offline = makeExchangeInfoLoader(
+      { ...makeFakePluginOptions([]), pluginDisklet },
+      'test',
+      asTestInfo
+    )
+    const info = await offline.getInfo()
+    assert.deepEqual(info?.servers, ['https://api.test'])
+  })
+})
+
+describe(`checkExchangeInfo`, function () {
+  let request: EdgeSwapRequestPlugin
+
+  before(async function () {
+    const fromWallet: EdgeCurrencyWallet = await makeFakeWallet(btcCurrencyInfo)
+    const toWallet: EdgeCurrencyWallet = await makeFakeWallet(ethCurrencyInfo)
+    request = {
+      fromWallet,
+      toWallet,
+      fromCurrencyCode: 'BTC',
+      toCurrencyCode: 'ETH',
+      nativeAmount: '100000000',
+      quoteFor: 'from'
+    }
+  })
+
+  it('passes without info', function () {
+    checkExchangeInfo(undefined, request, swapInfo)
+  })
+
+  it('honors the kill switch', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'killed',
+      asCommonExchangeInfo
+    )
+    const info = await loader.getInfo()
+    assert.throws(
+      () => checkExchangeInfo(info, request, swapInfo),
+      'Test does not support BTC to ETH (blocked by infoServer)'
+    )
+  })
+
+  it('honors disabled pairs', async function () {
+    const loader = makeExchangeInfoLoader(
+      makeFakePluginOptions(fixtures.info),
+      'pairs',
+      asCommonExchangeInfo
+    )
+    const info = await loader.getInfo()
+    assert.deepEqual(info?.disabledPairs?.to, {
+      '*': [
+        {
+          currencyCode: 'ETH',
+          tokenId: undefined,
+          startDate: undefined,
+          endDate: new Date('2999-01-01T00:00:00.000Z')
+        }
+      ]
+    })
+    assert.throws(
+      () => checkExchangeInfo(info, request, swapInfo),
+      'Test does not support BTC to ETH (blocked by infoServer)'
+    )
+  })
+})
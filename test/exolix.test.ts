@@ -0,0 +1,26 @@
+import { makeExolixPlugin } from '../src/swap/exolix'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin({
+  pluginId: 'exolix',
+  makePlugin: makeExolixPlugin,
+  initOptions: { apiKey: 'key' },
+  supportsToQuote: false,
+  orderStatuses: {
+    done: {
+      orderId: 'done',
+      state: 'completed',
+      partnerStatus: 'success',
+      depositTxid: 'txin',
+      payoutTxid: 'txout',
+      payoutExchangeAmount: '15.5'
+    },
+    refund: {
+      orderId: 'refund',
+      state: 'refunded',
+      partnerStatus: 'refunded',
+      depositTxid: 'txin',
+      refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD'
+    }
+  }
+})
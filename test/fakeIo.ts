@@ -0,0 +1,135 @@
+import {
+  asArray,
+  asMap,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+import { randomBytes } from 'crypto'
+import { makeMemoryDisklet } from 'disklet'
+import {
+  EdgeCorePluginOptions,
+  EdgeFetchFunction,
+  EdgeFetchResponse,
+  EdgeIo,
+  EdgeLog,
+  EdgeNativeIo,
+  JsonObject
+} from 'edge-core-js'
+import fs from 'fs'
+import path from 'path'
+
+import { matchJson } from '../src/util/matchJson'
+
+/**
+ * A recorded HTTP exchange. JSON request bodies match regardless of key
+ * order, and a string `response` is served as raw text.
+ */
+const asFetchFixture = asObject({
+  method: asOptional(asString, 'GET'),
+  url: asString,
+  body: asOptional((raw: any) => raw),
+  status: asOptional(asNumber, 200),
+  response: (raw: any) => raw
+})
+
+export type FetchFixture = ReturnType<typeof asFetchFixture>
+
+// Each fixture file holds named scenarios, each a list of exchanges:
+const asFixtureFile = asMap(asArray(asFetchFixture))
+
+export type FixtureFile = ReturnType<typeof asFixtureFile>
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures')
+
+export function loadFixtures(name: string): FixtureFile {
+  const text = fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf8')
+  return asFixtureFile(JSON.parse(text))
+}
+
+const parseBody = (body: string | undefined): unknown => {
+  if (body == null) return undefined
+  try {
+    return JSON.parse(body)
+  } catch (e) {
+    return body
+  }
+}
+
+/**
+ * Serves recorded responses, keyed by method, URL & body.
+ * Anything else throws, so tests can never reach the network.
+ */
+export function makeFakeFetch(fixtures: FetchFixture[]): EdgeFetchFunction {
+  return async (url, opts = {}) => {
+    const { method = 'GET' } = opts
+    const body = parseBody(
+      typeof opts.body === 'string' ? opts.body : undefined
+    )
+
+    const fixture = fixtures.find(
+      fixture =>
+        fixture.method === method &&
+        fixture.url === url &&
+        matchJson(fixture.body, body)
+    )
+    if (fixture == null) {
+      throw new Error(
+        `Unexpected fetch: ${method} ${url} ${JSON.stringify(body) ?? ''}`
+      )
+    }
+
+    const { response, status } = fixture
+    const text =
+      typeof response === 'string' ? response : JSON.stringify(response)
+    const out: EdgeFetchResponse = {
+      headers: {
+        forEach() {},
+        get: () => null,
+        has: () => false
+      },
+      ok: status >= 200 && status < 300,
+      status,
+      arrayBuffer: async () => Buffer.from(text).buffer,
+      json: async () => JSON.parse(text),
+      text: async () => text
+    }
+    return out
+  }
+}
+
+const fakeLog: EdgeLog = Object.assign(() => {}, {
+  breadcrumb() {},
+  crash() {},
+  error() {},
+  warn() {}
+})
+
+/**
+ * Plugin options whose io replays the given fixtures.
+ */
+export function makeFakePluginOptions(
+  fixtures: FetchFixture[],
+  initOptions: JsonObject = {}
+): EdgeCorePluginOptions {
+  const fetch = makeFakeFetch(fixtures)
+  const io: EdgeIo = {
+    disklet: makeMemoryDisklet(),
+    fetch,
+    fetchCors: fetch,
+    random: bytes => Uint8Array.from(randomBytes(bytes)),
+    async scrypt() {
+      throw new Error('No plugin should need scrypt')
+    }
+  }
+  const nativeIo: EdgeNativeIo = {}
+
+  return {
+    initOptions,
+    io,
+    log: fakeLog,
+    nativeIo,
+    pluginDisklet: makeMemoryDisklet()
+  }
+}
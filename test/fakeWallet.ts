@@ -0,0 +1,103 @@
+import { div, mul, sub } from 'biggystring'
+import {
+  EdgeCurrencyEngine,
+  EdgeCurrencyInfo,
+  EdgeCurrencyWallet,
+  EdgeReceiveAddress,
+  EdgeSpendInfo,
+  EdgeTokenMap
+} from 'edge-core-js'
+
+import { makeFakePlugin } from './fakeCurrencyPlugin'
+
+/**
+ * Builds an `EdgeCurrencyWallet` look-alike on top of the fake engine,
+ * with just enough surface for the swap plugins to quote against.
+ */
+export async function makeFakeWallet(
+  currencyInfo: EdgeCurrencyInfo
+): Promise<EdgeCurrencyWallet> {
+  const { currencyCode, denominations, metaTokens, pluginId } = currencyInfo
+  const id = `${pluginId}-wallet`
+
+  const plugin = makeFakePlugin(currencyInfo)
+  const engineOpts: any = { callbacks: {} }
+  const engine: EdgeCurrencyEngine = await plugin.makeCurrencyEngine(
+    { id, type: currencyInfo.walletType, keys: {} },
+    engineOpts
+  )
+
+  // Match the core's legacy token handling, where tokenIds are
+  // lowercase contract addresses without the 0x prefix:
+  const allTokens: EdgeTokenMap = {}
+  for (const token of metaTokens) {
+    const { contractAddress = '' } = token
+    const tokenId = contractAddress.toLowerCase().replace(/^0x/, '')
+    allTokens[tokenId] = {
+      currencyCode: token.currencyCode,
+      denominations: token.denominations,
+      displayName: token.currencyName,
+      networkLocation: { contractAddress }
+    }
+  }
+
+  const getMultiplier = (code: string): string => {
+    if (code === currencyCode) return denominations[0].multiplier
+    const token = metaTokens.find(token => token.currencyCode === code)
+    if (token == null) throw new Error(`Unknown currency code ${code}`)
+    return token.denominations[0].multiplier
+  }
+
+  const balances: { [currencyCode: string]: string } = {}
+  for (const code of [currencyCode, ...metaTokens.map(t => t.currencyCode)]) {
+    try {
+      balances[code] = engine.getBalance({ currencyCode: code })
+    } catch (e) {}
+  }
+
+  const out: any = {
+    id,
+    type: currencyInfo.walletType,
+    currencyInfo,
+    currencyConfig: { allTokens, currencyInfo },
+    balances,
+
+    async denominationToNative(
+      denominatedAmount: string,
+      currencyCode: string
+    ): Promise<string> {
+      return mul(denominatedAmount, getMultiplier(currencyCode))
+    },
+
+    async nativeToDenomination(
+      nativeAmount: string,
+      currencyCode: string
+    ): Promise<string> {
+      const multiplier = getMultiplier(currencyCode)
+      return div(nativeAmount, multiplier, multiplier.length)
+    },
+
+    async getReceiveAddress(): Promise<EdgeReceiveAddress> {
+      const address = await engine.getFreshAddress({})
+      return { ...address, metadata: {}, nativeAmount: '0' }
+    },
+
+    async getMaxSpendable(spendInfo: EdgeSpendInfo): Promise<string> {
+      const { currencyCode: code = currencyCode } = spendInfo
+      const balance = balances[code] ?? '0'
+      if (code !== currencyCode) return balance
+      const { networkFee } = await engine.makeSpend({
+        ...spendInfo,
+        spendTargets: [{ ...spendInfo.spendTargets[0], nativeAmount: '0' }]
+      })
+      return sub(balance, networkFee)
+    },
+
+    makeSpend: engine.makeSpend.bind(engine),
+    signTx: engine.signTx.bind(engine),
+    broadcastTx: engine.broadcastTx.bind(engine),
+    saveTx: engine.saveTx.bind(engine),
+    otherMethods: {}
+  }
+  return out
+}
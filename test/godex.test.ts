@@ -0,0 +1,25 @@
+import { makeGodexPlugin } from '../src/swap/godex'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin({
+  pluginId: 'godex',
+  makePlugin: makeGodexPlugin,
+  initOptions: { apiKey: 'key' },
+  orderStatuses: {
+    done: {
+      orderId: 'done',
+      state: 'completed',
+      partnerStatus: 'success',
+      depositTxid: 'txin',
+      payoutTxid: 'txout',
+      payoutExchangeAmount: '15.5'
+    },
+    refund: {
+      orderId: 'refund',
+      state: 'refunded',
+      partnerStatus: 'refunded',
+      depositTxid: 'txin',
+      refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD'
+    }
+  }
+})
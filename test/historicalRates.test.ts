@@ -0,0 +1,208 @@
+import { assert } from 'chai'
+import { makeMemoryDisklet } from 'disklet'
+import { describe, it } from 'mocha'
+
+import { makeCoinbasePlugin } from '../src/rate/coinbase'
+import { makeCoincapPlugin } from '../src/rate/coincap'
+import { makeCoinGeckoPlugin } from '../src/rate/coingecko'
+import { makeEdgeRatesPlugin } from '../src/rate/edgeRates'
+import {
+  getHintDay,
+  makeHistoricalRateFetcher,
+  splitRateHints
+} from '../src/util/historicalRates'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+
+const fixtures = loadFixtures('historicalRates')
+
+const DATE = '2022-08-08T15:30:00.000Z'
+
+describe(`historical rate hints`, function () {
+  it('reads dates & timestamps', function () {
+    const hint = { fromCurrency: 'BTC', toCurrency: 'iso:USD' }
+    assert.isUndefined(getHintDay(hint))
+    assert.isUndefined(getHintDay({ ...hint, date: 'not a date' }))
+    assert.equal(getHintDay({ ...hint, date: DATE }), '2022-08-08')
+    assert.equal(getHintDay({ ...hint, date: Date.parse(DATE) }), '2022-08-08')
+  })
+
+  it('splits spot & historical hints', function () {
+    const { spotHints, historicalHints } = splitRateHints([
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD' },
+      { fromCurrency: 'ETH', toCurrency: 'iso:USD', date: DATE }
+    ])
+    assert.deepEqual(spotHints, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD' }
+    ])
+    assert.deepEqual(historicalHints, [
+      {
+        hint: { fromCurrency: 'ETH', toCurrency: 'iso:USD', date: DATE },
+        day: '2022-08-08'
+      }
+    ])
+  })
+})
+
+describe(`makeHistoricalRateFetcher`, function () {
+  const day = '2022-08-08'
+
+  it('caches tokens by contract address', async function () {
+    const opts = makeFakePluginOptions([])
+    const rates: { [address: string]: number } = { '0xaaa': 1, '0xbbb': 0.5 }
+    const fetcher = makeHistoricalRateFetcher(
+      opts,
+      async (hint: { fromCurrency: string; contractAddress?: string }) =>
+        rates[hint.contractAddress ?? '']
+    )
+    const hints = ['0xaaa', '0xbbb'].map(contractAddress => ({
+      hint: { fromCurrency: 'USDT', toCurrency: 'iso:USD', contractAddress },
+      day
+    }))
+    const pairs = await fetcher(hints)
+    assert.deepEqual(
+      pairs.map(pair => pair.rate),
+      [1, 0.5]
+    )
+
+    // The second lookup comes from the cache:
+    const cached = makeHistoricalRateFetcher(opts, async () => undefined)
+    assert.deepEqual(await cached(hints), pairs)
+  })
+
+  it('does not cache the current day', async function () {
+    const opts = makeFakePluginOptions([])
+    let fetchCount = 0
+    const fetcher = makeHistoricalRateFetcher(opts, async () => ++fetchCount)
+    const today = new Date().toISOString().slice(0, 10)
+    const hints = [
+      { hint: { fromCurrency: 'BTC', toCurrency: 'iso:USD' }, day: today }
+    ]
+
+    assert.deepEqual(
+      (await fetcher(hints)).map(pair => pair.rate),
+      [1]
+    )
+    assert.deepEqual(
+      (await fetcher(hints)).map(pair => pair.rate),
+      [2]
+    )
+    assert.deepEqual(await opts.pluginDisklet.list('historicalRates'), {})
+  })
+
+  it('skips invalid rates', async function () {
+    const fetcher = makeHistoricalRateFetcher(
+      makeFakePluginOptions([]),
+      async () => NaN
+    )
+    const pairs = await fetcher([
+      { hint: { fromCurrency: 'BTC', toCurrency: 'iso:USD' }, day }
+    ])
+    assert.deepEqual(pairs, [])
+  })
+})
+
+describe(`coingecko historical rates`, function () {
+  const hints = [{ fromCurrency: 'BTC', toCurrency: 'iso:EUR', date: DATE }]
+
+  it('fetches rates', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingecko)
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [
+      {
+        fromCurrency: 'BTC',
+        toCurrency: 'iso:EUR',
+        rate: 23300,
+        date: '2022-08-08'
+      }
+    ])
+  })
+
+  it('reuses cached rates', async function () {
+    const pluginDisklet = makeMemoryDisklet()
+    const online = makeCoinGeckoPlugin({
+      ...makeFakePluginOptions(fixtures.coingecko),
+      pluginDisklet
+    })
+    const offline = makeCoinGeckoPlugin({
+      ...makeFakePluginOptions([]),
+      pluginDisklet
+    })
+    const pairs = await online.fetchRates(hints)
+    assert.deepEqual(await offline.fetchRates(hints), pairs)
+  })
+
+  it('skips missing data', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingeckoMissing)
+    )
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', date: '2009-08-08' }
+    ])
+    assert.deepEqual(pairs, [])
+  })
+})
+
+describe(`coincap historical rates`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCoincapPlugin(makeFakePluginOptions(fixtures.coincap))
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'ETH', toCurrency: 'iso:USD', date: Date.parse(DATE) }
+    ])
+    assert.deepEqual(pairs, [
+      {
+        fromCurrency: 'ETH',
+        toCurrency: 'iso:USD',
+        rate: 1780.25,
+        date: '2022-08-08'
+      }
+    ])
+  })
+})
+
+describe(`coinbase historical rates`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCoinbasePlugin(makeFakePluginOptions(fixtures.coinbase))
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', date: DATE }
+    ])
+    assert.deepEqual(pairs, [
+      {
+        fromCurrency: 'BTC',
+        toCurrency: 'iso:USD',
+        rate: 23800.5,
+        date: '2022-08-08'
+      }
+    ])
+  })
+})
+
+describe(`edgeRates historical rates`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeEdgeRatesPlugin(
+      makeFakePluginOptions(fixtures.edgeRates)
+    )
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:EUR', date: DATE }
+    ])
+    assert.deepEqual(pairs, [
+      {
+        fromCurrency: 'iso:USD',
+        toCurrency: 'iso:EUR',
+        rate: 0.98,
+        date: '2022-08-08'
+      }
+    ])
+  })
+  it('skips failed & invalid replies', async function () {
+    const hints = [
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:EUR', date: DATE }
+    ]
+    for (const scenario of ['edgeRatesDown', 'edgeRatesInvalid']) {
+      const plugin = makeEdgeRatesPlugin(
+        makeFakePluginOptions(fixtures[scenario])
+      )
+      assert.deepEqual(await plugin.fetchRates(hints), [])
+    }
+  })
+})
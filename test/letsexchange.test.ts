@@ -0,0 +1,27 @@
+import { makeLetsExchangePlugin } from '../src/swap/letsexchange'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin({
+  pluginId: 'letsexchange',
+  makePlugin: makeLetsExchangePlugin,
+  initOptions: { apiKey: 'key', affiliateId: 'affiliate' },
+  orderStatuses: {
+    done: {
+      orderId: 'done',
+      state: 'completed',
+      partnerStatus: 'success',
+      depositTxid: 'txin',
+      payoutTxid: 'txout',
+      payoutExchangeAmount: '15.5'
+    },
+    refund: {
+      orderId: 'refund',
+      state: 'refunded',
+      partnerStatus: 'refund',
+      depositTxid: 'txin',
+      refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD',
+      refundTxid: 'txrefund',
+      refundExchangeAmount: '0.999'
+    }
+  }
+})
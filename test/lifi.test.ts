@@ -0,0 +1,311 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet, EdgeSwapRequest } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import {
+  makeLifiOrderId,
+  makeLifiPlugin,
+  parseLifiOrderId
+} from '../src/swap/defi/lifi'
+import { SwapPluginQuote } from '../src/swap/types'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const fixtures = loadFixtures('lifi')
+
+const USDC_TOKEN_ID = 'a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+
+describe(`lifi`, function () {
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  const makeRequest = (
+    quoteFor: 'from' | 'max' | 'to',
+    nativeAmount: string
+  ): EdgeSwapRequest => ({
+    fromWallet: ethWallet,
+    toWallet: ethWallet,
+    fromCurrencyCode: 'ETH',
+    toCurrencyCode: 'USDC',
+    toTokenId: USDC_TOKEN_ID,
+    nativeAmount,
+    quoteFor
+  })
+
+  it('from quote', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.fromQuote))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000000000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.pluginId, 'lifi')
+    assert.equal(quote.fromNativeAmount, '100000000000000000')
+    assert.equal(quote.toNativeAmount, '180000000')
+    assert.deepEqual(quote.networkFee, {
+      currencyCode: 'ETH',
+      nativeAmount: '100000000000000'
+    })
+    assert.equal(quote.minReceiveAmount, '180000000')
+  })
+
+  it('honors the slippage setting', async function () {
+    const plugin = makeLifiPlugin(
+      makeFakePluginOptions(
+        fixtures.fromQuote.map(fixture => ({
+          ...fixture,
+          url: fixture.url.replace('slippage=0.005', 'slippage=0.01')
+        }))
+      )
+    )
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000000000000'),
+      { slippage: '0.01', deadlineMs: 120000 },
+      {}
+    )
+    assert.equal(quote.toNativeAmount, '180000000')
+  })
+
+  it('rejects unreasonable slippage', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.fromQuote))
+    const error = await plugin
+      .fetchSwapQuote(
+        makeRequest('from', '100000000000000000'),
+        { slippage: '0.9' },
+        {}
+      )
+      .catch(error => error)
+    assert.match(error.message, /Slippage 0.9 must be between/)
+  })
+
+  it('token quote includes the approval fee', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.tokenQuote))
+    const quote = await plugin.fetchSwapQuote(
+      {
+        fromWallet: ethWallet,
+        toWallet: ethWallet,
+        fromCurrencyCode: 'USDC',
+        fromTokenId: USDC_TOKEN_ID,
+        toCurrencyCode: 'ETH',
+        nativeAmount: '100000000',
+        quoteFor: 'from'
+      },
+      undefined,
+      {}
+    )
+    assert.equal(quote.toNativeAmount, '55000000000000000')
+    assert.equal(quote.networkFee.nativeAmount, '2000000000000000')
+  })
+
+  it('token quote breaks down the fees', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.tokenQuote))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      {
+        fromWallet: ethWallet,
+        toWallet: ethWallet,
+        fromCurrencyCode: 'USDC',
+        fromTokenId: USDC_TOKEN_ID,
+        toCurrencyCode: 'ETH',
+        nativeAmount: '100000000',
+        quoteFor: 'from'
+      },
+      undefined,
+      {}
+    )
+    assert.deepEqual(quote.fees, {
+      sourceNetworkFee: {
+        currencyCode: 'ETH',
+        nativeAmount: '1000000000000000'
+      },
+      approvalFee: { currencyCode: 'ETH', nativeAmount: '1000000000000000' },
+      // Only the fee paid in USDC comes out of the swap:
+      protocolFee: { currencyCode: 'USDC', nativeAmount: '250000' },
+      otherProtocolFees: [
+        { currencyCode: 'ETH', nativeAmount: '1000000000000000' }
+      ],
+      affiliateFee: { currencyCode: 'USDC', nativeAmount: '500000' }
+    })
+  })
+
+  it('matches source fees by address', async function () {
+    // A bridged USDC shares the ticker, but isn't what we send:
+    const bridgedUsdc = {
+      amount: '100000',
+      token: {
+        address: '0x1111111111111111111111111111111111111111',
+        chainId: 1,
+        symbol: 'USDC',
+        decimals: 6,
+        name: 'Bridged USDC',
+        priceUSD: '1',
+        coinKey: 'USDC'
+      }
+    }
+    const plugin = makeLifiPlugin(
+      makeFakePluginOptions(
+        fixtures.tokenQuote.map(fixture => {
+          if (fixture.response.estimate == null) return fixture
+          const { estimate } = fixture.response
+          const feeCosts = [...estimate.feeCosts, bridgedUsdc]
+          return {
+            ...fixture,
+            response: {
+              ...fixture.response,
+              estimate: { ...estimate, feeCosts }
+            }
+          }
+        })
+      )
+    )
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      {
+        fromWallet: ethWallet,
+        toWallet: ethWallet,
+        fromCurrencyCode: 'USDC',
+        fromTokenId: USDC_TOKEN_ID,
+        toCurrencyCode: 'ETH',
+        nativeAmount: '100000000',
+        quoteFor: 'from'
+      },
+      undefined,
+      {}
+    )
+    assert.deepEqual(quote.fees?.protocolFee, {
+      currencyCode: 'USDC',
+      nativeAmount: '250000'
+    })
+    assert.deepEqual(quote.fees?.otherProtocolFees, [
+      { currencyCode: 'ETH', nativeAmount: '1000000000000000' },
+      { currencyCode: 'USDC', nativeAmount: '100000' }
+    ])
+  })
+
+  it('to quote', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.toQuote))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('to', '180000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '99000000000000000')
+    assert.equal(quote.toNativeAmount, '180000000')
+  })
+
+  it('max quote', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.maxQuote))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('max', '0'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '1233900000000000000')
+    assert.equal(quote.toNativeAmount, '2221020000')
+  })
+
+  it('server error', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.serverError))
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000000000000'), undefined, {})
+      .catch(error => error)
+    assert.match(error.message, /No available quotes/)
+  })
+
+  it('records the route in the order id', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.fromQuote))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000000000000'),
+      undefined,
+      {}
+    )
+    const { orderId } = await quote.approve()
+    // Swaps on one chain don't use a bridge:
+    assert.equal(orderId, 'spend::1:1')
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.malformed))
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000000000000'), undefined, {})
+      .catch(error => error)
+    assert.instanceOf(error, TypeError)
+  })
+})
+
+describe(`lifi order ids`, function () {
+  it('round-trip', function () {
+    const order = {
+      txHash: '0xabc123',
+      bridge: 'stargate',
+      fromChain: 1,
+      toChain: 137
+    }
+    const orderId = makeLifiOrderId(order)
+    assert.equal(orderId, '0xabc123:stargate:1:137')
+    assert.deepEqual(parseLifiOrderId(orderId), order)
+    assert.throws(() => parseLifiOrderId('0xabc123'), 'Invalid LI.FI order id')
+    assert.deepEqual(parseLifiOrderId('0xabc123::1:1'), {
+      txHash: '0xabc123',
+      bridge: undefined,
+      fromChain: 1,
+      toChain: 1
+    })
+  })
+})
+
+describe(`lifi fetchOrderStatus`, function () {
+  const orderId = '0xabc123:stargate:1:137'
+
+  it('tracks pending transfers', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.statusPending))
+    assert.deepEqual(await plugin.fetchOrderStatus(orderId), {
+      orderId,
+      state: 'sending',
+      partnerStatus: 'PENDING:WAIT_DESTINATION_TRANSACTION',
+      depositTxid: '0xabc123',
+      payoutTxid: undefined,
+      payoutExchangeAmount: undefined
+    })
+  })
+
+  it('reports partial fills', async function () {
+    const plugin = makeLifiPlugin(makeFakePluginOptions(fixtures.statusPartial))
+    const status = await plugin.fetchOrderStatus(orderId)
+    assert.equal(status.state, 'partial')
+    assert.equal(status.payoutTxid, '0xdef456')
+    assert.equal(status.payoutExchangeAmount, '175.5')
+  })
+
+  it('reports refunds', async function () {
+    const plugin = makeLifiPlugin(
+      makeFakePluginOptions(fixtures.statusRefunded)
+    )
+    const status = await plugin.fetchOrderStatus(orderId)
+    assert.equal(status.state, 'refunded')
+    assert.equal(status.refundTxid, '0x789fed')
+    assert.equal(status.refundExchangeAmount, '0.099')
+    assert.isUndefined(status.payoutTxid)
+  })
+
+  it('waits for LI.FI to find the transaction', async function () {
+    const plugin = makeLifiPlugin(
+      makeFakePluginOptions(fixtures.statusNotFound)
+    )
+    const status = await plugin.fetchOrderStatus('0xfeed42::1:1')
+    assert.equal(status.state, 'confirming')
+    assert.equal(status.partnerStatus, 'NOT_FOUND')
+    assert.equal(status.depositTxid, '0xfeed42')
+  })
+
+  it('falls back on the main status', async function () {
+    const plugin = makeLifiPlugin(
+      makeFakePluginOptions(fixtures.statusNewSubstatus)
+    )
+    const status = await plugin.fetchOrderStatus(orderId)
+    assert.equal(status.state, 'failed')
+    assert.equal(status.partnerStatus, 'FAILED')
+  })
+})
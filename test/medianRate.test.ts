@@ -0,0 +1,140 @@
+import { assert } from 'chai'
+import { EdgeRateHint } from 'edge-core-js'
+import { describe, it } from 'mocha'
+
+import { makeMedianRatePlugin, medianRates } from '../src/rate/medianRate'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+
+const fixtures = loadFixtures('rates')
+
+const cryptoHints: EdgeRateHint[] = [
+  { fromCurrency: 'BTC', toCurrency: 'iso:USD' },
+  { fromCurrency: 'ETH', toCurrency: 'iso:USD' }
+]
+
+describe(`medianRates`, function () {
+  it('inverts pairs quoted the other way', function () {
+    const rates = medianRates(
+      [
+        {
+          pluginId: 'a',
+          pairs: [{ fromCurrency: 'iso:USD', toCurrency: 'BTC', rate: 0.00005 }]
+        }
+      ],
+      'iso:USD',
+      0.1
+    )
+    assert.deepEqual(rates, [
+      {
+        fromCurrency: 'BTC',
+        toCurrency: 'iso:USD',
+        rate: 20000,
+        sources: ['a']
+      }
+    ])
+  })
+
+  it('discards outliers', function () {
+    const rates = medianRates(
+      [
+        { pluginId: 'a', pairs: [btcPair(20000)] },
+        { pluginId: 'b', pairs: [btcPair(20400)] },
+        { pluginId: 'c', pairs: [btcPair(19800)] },
+        { pluginId: 'd', pairs: [btcPair(90000)] }
+      ],
+      'iso:USD',
+      0.1
+    )
+    assert.deepEqual(rates, [
+      {
+        fromCurrency: 'BTC',
+        toCurrency: 'iso:USD',
+        rate: 20000,
+        sources: ['a', 'b', 'c']
+      }
+    ])
+  })
+
+  it('prices cross pairs', function () {
+    const rates = medianRates(
+      [
+        { pluginId: 'a', pairs: [btcPair(20000)] },
+        {
+          pluginId: 'b',
+          pairs: [{ fromCurrency: 'BTC', toCurrency: 'iso:EUR', rate: 16000 }]
+        }
+      ],
+      'iso:USD',
+      0.1
+    )
+    assert.deepEqual(rates[1], {
+      fromCurrency: 'iso:EUR',
+      toCurrency: 'iso:USD',
+      rate: 1.25,
+      sources: ['b']
+    })
+  })
+
+  it('ignores unusable rates', function () {
+    const rates = medianRates(
+      [{ pluginId: 'a', pairs: [btcPair(0), btcPair(NaN)] }],
+      'iso:USD',
+      0.1
+    )
+    assert.deepEqual(rates, [])
+  })
+})
+
+describe(`medianRate`, function () {
+  it('combines sources', async function () {
+    const plugin = makeMedianRatePlugin(
+      makeFakePluginOptions(
+        [
+          ...fixtures.coinbase,
+          ...fixtures.coincap,
+          ...fixtures.coingecko,
+          ...fixtures.compoundMalformed
+        ],
+        {
+          plugins: {
+            coinbase: true,
+            coincap: true,
+            coingecko: true,
+            compound: true
+          }
+        }
+      )
+    )
+    const pairs = await plugin.fetchRates(cryptoHints)
+    assert.deepEqual(pairs, [
+      {
+        fromCurrency: 'BTC',
+        toCurrency: 'iso:USD',
+        rate: 20000,
+        sources: ['coinbase', 'coincap', 'coingecko']
+      },
+      {
+        fromCurrency: 'ETH',
+        toCurrency: 'iso:USD',
+        rate: 1500,
+        sources: ['coincap', 'coingecko']
+      }
+    ])
+  })
+
+  it('rejects unknown plugins', function () {
+    assert.throws(
+      () =>
+        makeMedianRatePlugin(
+          makeFakePluginOptions([], { plugins: { bogus: true } })
+        ),
+      'Median Rate: Unknown plugin bogus'
+    )
+  })
+})
+
+function btcPair(
+  rate: number
+): { fromCurrency: string; toCurrency: string; rate: number } {
+  return { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate }
+}
@@ -0,0 +1,360 @@
+import { assert } from 'chai'
+import { EdgeCorePluginOptions, EdgeRateHint } from 'edge-core-js'
+import { describe, it } from 'mocha'
+
+import { makeBitMaxPlugin } from '../src/rate/bitmax'
+import { makeCoinbasePlugin } from '../src/rate/coinbase'
+import { makeCoincapPlugin } from '../src/rate/coincap'
+import { makeCoinGeckoPlugin } from '../src/rate/coingecko'
+import { makeCoinmonitorPlugin } from '../src/rate/coinmonitor'
+import { makeCompoundPlugin } from '../src/rate/compound'
+import { makeCurrencyconverterapiPlugin } from '../src/rate/currencyconverterapi'
+import { makeEdgeRatesPlugin } from '../src/rate/edgeRates'
+import { makeNomicsPlugin } from '../src/rate/nomics'
+import { makeWazirxPlugin } from '../src/rate/wazirx'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+
+const fixtures = loadFixtures('rates')
+
+const cryptoHints: EdgeRateHint[] = [
+  { fromCurrency: 'BTC', toCurrency: 'iso:USD' },
+  { fromCurrency: 'ETH', toCurrency: 'iso:USD' }
+]
+
+describe(`bitmax`, function () {
+  const hints = [{ fromCurrency: 'FIO', toCurrency: 'iso:USD' }]
+
+  it('fetches rates', async function () {
+    const plugin = makeBitMaxPlugin(makeFakePluginOptions(fixtures.bitmax))
+    const pairs = await plugin.fetchRates(hints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'FIO', toCurrency: 'USDT', rate: 0.05 }
+    ])
+  })
+
+  it('handles unavailable data', async function () {
+    const plugin = makeBitMaxPlugin(
+      makeFakePluginOptions(fixtures.bitmaxUnavailable)
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [])
+  })
+
+  it('only queries FIO', async function () {
+    const plugin = makeBitMaxPlugin(makeFakePluginOptions([]))
+    assert.deepEqual(await plugin.fetchRates(cryptoHints), [])
+  })
+})
+
+describe(`coinbase`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCoinbasePlugin(makeFakePluginOptions(fixtures.coinbase))
+    const pairs = await plugin.fetchRates(cryptoHints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'iso:USD', toCurrency: 'BTC', rate: 0.00005 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeCoinbasePlugin(
+      makeFakePluginOptions(fixtures.coinbaseMalformed)
+    )
+    assert.deepEqual(await plugin.fetchRates(cryptoHints), [])
+  })
+})
+
+describe(`coincap`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCoincapPlugin(makeFakePluginOptions(fixtures.coincap))
+    const pairs = await plugin.fetchRates(cryptoHints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 },
+      { fromCurrency: 'ETH', toCurrency: 'iso:USD', rate: 1500 }
+    ])
+  })
+
+  it('server error', async function () {
+    const plugin = makeCoincapPlugin(
+      makeFakePluginOptions(fixtures.coincapError)
+    )
+    assert.deepEqual(await plugin.fetchRates(cryptoHints), [])
+  })
+})
+
+describe(`coingecko`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingecko)
+    )
+    const pairs = await plugin.fetchRates(cryptoHints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 },
+      { fromCurrency: 'ETH', toCurrency: 'iso:USD', rate: 1500 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingeckoMalformed)
+    )
+    assert.deepEqual(await plugin.fetchRates(cryptoHints), [])
+  })
+
+  it('resolves ids from the coin list', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingeckoCoinList)
+    )
+    const pairs = await plugin.fetchRates([
+      {
+        fromCurrency: 'USDT',
+        toCurrency: 'iso:EUR',
+        contractAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+      },
+      { fromCurrency: 'ZEC', toCurrency: 'iso:EUR' },
+      { fromCurrency: 'BTC', toCurrency: 'iso:XYZ' }
+    ])
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'USDT', toCurrency: 'iso:EUR', rate: 0.92 },
+      { fromCurrency: 'ZEC', toCurrency: 'iso:EUR', rate: 40 },
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 }
+    ])
+  })
+
+  it('uses id overrides', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingeckoOverride, {
+        coinGeckoIds: { USDT: 'tether' }
+      })
+    )
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'USDT', toCurrency: 'iso:USD' }
+    ])
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'USDT', toCurrency: 'iso:USD', rate: 1 }
+    ])
+  })
+
+  it('resolves shared tickers without a contract address', async function () {
+    const plugin = makeCoinGeckoPlugin(
+      makeFakePluginOptions(fixtures.coingeckoTicker)
+    )
+    const pairs = await plugin.fetchRates([
+      { fromCurrency: 'USDT', toCurrency: 'iso:USD' },
+      { fromCurrency: 'DAI', toCurrency: 'iso:USD' }
+    ])
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'USDT', toCurrency: 'iso:USD', rate: 1 },
+      { fromCurrency: 'DAI', toCurrency: 'iso:USD', rate: 0.999 }
+    ])
+  })
+
+  it('waits before retrying a failed coin list', async function () {
+    const opts = makeFakePluginOptions(fixtures.coingeckoListDown)
+    let listFetches = 0
+    const fetch: typeof opts.io.fetch = async (uri, init) => {
+      if (uri.includes('/coins/list')) ++listFetches
+      return await opts.io.fetch(uri, init)
+    }
+    const plugin = makeCoinGeckoPlugin({ ...opts, io: { ...opts.io, fetch } })
+
+    const hints = [{ fromCurrency: 'BTC', toCurrency: 'iso:USD' }]
+    const expected = [
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 }
+    ]
+    assert.deepEqual(await plugin.fetchRates(hints), expected)
+    assert.deepEqual(await plugin.fetchRates(hints), expected)
+    assert.equal(listFetches, 1)
+  })
+
+  // The hints & rates from the coingeckoCoinList fixture:
+  const listHints = [
+    {
+      fromCurrency: 'USDT',
+      toCurrency: 'iso:EUR',
+      contractAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+    },
+    { fromCurrency: 'ZEC', toCurrency: 'iso:EUR' },
+    { fromCurrency: 'BTC', toCurrency: 'iso:XYZ' }
+  ]
+  const listPairs = [
+    { fromCurrency: 'USDT', toCurrency: 'iso:EUR', rate: 0.92 },
+    { fromCurrency: 'ZEC', toCurrency: 'iso:EUR', rate: 40 },
+    { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 }
+  ]
+
+  /**
+   * Saves the coingeckoCoinList fixture to disk, as an earlier run would,
+   * and counts how often the plugin asks for a fresh one.
+   */
+  const withSavedCoinList = async (
+    timestamp: number
+  ): Promise<{
+    opts: EdgeCorePluginOptions
+    listFetches: () => number
+  }> => {
+    const opts = makeFakePluginOptions(fixtures.coingeckoCoinList)
+    const [coins, vsCurrencies] = fixtures.coingeckoCoinList.map(
+      fixture => fixture.response
+    )
+    await opts.pluginDisklet.setText(
+      'coinList.json',
+      JSON.stringify({ coins, vsCurrencies, timestamp })
+    )
+
+    // The download never finishes, so nothing can wait on it:
+    let listFetches = 0
+    const fetch: typeof opts.io.fetch = async (uri, init) => {
+      if (uri.includes('/coins/list')) {
+        ++listFetches
+        return await new Promise(() => {})
+      }
+      return await opts.io.fetch(uri, init)
+    }
+    return {
+      opts: { ...opts, io: { ...opts.io, fetch } },
+      listFetches: () => listFetches
+    }
+  }
+
+  it('starts from the coin list on disk', async function () {
+    const { opts, listFetches } = await withSavedCoinList(Date.now())
+    const plugin = makeCoinGeckoPlugin(opts)
+    assert.deepEqual(await plugin.fetchRates(listHints), listPairs)
+    assert.equal(listFetches(), 0)
+  })
+
+  it('refreshes a stale coin list in the background', async function () {
+    const { opts, listFetches } = await withSavedCoinList(0)
+    const plugin = makeCoinGeckoPlugin(opts)
+    assert.deepEqual(await plugin.fetchRates(listHints), listPairs)
+    assert.equal(listFetches(), 1)
+  })
+})
+
+describe(`coinmonitor`, function () {
+  const hints = [{ fromCurrency: 'BTC', toCurrency: 'iso:ARS' }]
+
+  it('fetches rates', async function () {
+    const plugin = makeCoinmonitorPlugin(
+      makeFakePluginOptions(fixtures.coinmonitor)
+    )
+    const pairs = await plugin.fetchRates(hints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:ARS', rate: 4000000 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeCoinmonitorPlugin(
+      makeFakePluginOptions(fixtures.coinmonitorMalformed)
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [])
+  })
+})
+
+describe(`compound`, function () {
+  it('fetches rates', async function () {
+    const plugin = makeCompoundPlugin(makeFakePluginOptions(fixtures.compound))
+    const pairs = await plugin.fetchRates([])
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'CDAI', toCurrency: 'DAI', rate: 0.02 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeCompoundPlugin(
+      makeFakePluginOptions(fixtures.compoundMalformed)
+    )
+    const error = await plugin.fetchRates([]).catch(error => error)
+    assert.instanceOf(error, TypeError)
+  })
+})
+
+describe(`currencyconverterapi`, function () {
+  const hints = [{ fromCurrency: 'BTC', toCurrency: 'iso:EUR' }]
+
+  it('fetches rates', async function () {
+    const plugin = makeCurrencyconverterapiPlugin(
+      makeFakePluginOptions(fixtures.currencyconverterapi, { apiKey: 'key' })
+    )
+    const pairs = await plugin.fetchRates(hints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:EUR', rate: 0.9 },
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:IMP', rate: 0.8 },
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:IRR', rate: 42000 }
+    ])
+  })
+
+  it('server error', async function () {
+    const plugin = makeCurrencyconverterapiPlugin(
+      makeFakePluginOptions(fixtures.currencyconverterapiError, {
+        apiKey: 'key'
+      })
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [])
+  })
+})
+
+describe(`edgeRates`, function () {
+  const hints = [
+    { fromCurrency: 'iso:USD', toCurrency: 'iso:EUR' },
+    { fromCurrency: 'BTC', toCurrency: 'iso:USD' }
+  ]
+
+  it('fetches rates', async function () {
+    const plugin = makeEdgeRatesPlugin(
+      makeFakePluginOptions(fixtures.edgeRates)
+    )
+    const pairs = await plugin.fetchRates(hints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'iso:USD', toCurrency: 'iso:EUR', rate: 0.9 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeEdgeRatesPlugin(
+      makeFakePluginOptions(fixtures.edgeRatesMalformed)
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [])
+  })
+})
+
+describe(`nomics`, function () {
+  it('fetches rates, skipping dead coins', async function () {
+    const plugin = makeNomicsPlugin(
+      makeFakePluginOptions(fixtures.nomics, { apiKey: 'key' })
+    )
+    const pairs = await plugin.fetchRates(cryptoHints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:USD', rate: 20000 }
+    ])
+  })
+
+  it('rate limited', async function () {
+    const plugin = makeNomicsPlugin(
+      makeFakePluginOptions(fixtures.nomicsRateLimited, { apiKey: 'key' })
+    )
+    assert.deepEqual(await plugin.fetchRates(cryptoHints), [])
+  })
+})
+
+describe(`wazirx`, function () {
+  const hints = [
+    { fromCurrency: 'BTC', toCurrency: 'iso:INR' },
+    { fromCurrency: 'ETH', toCurrency: 'iso:INR' }
+  ]
+
+  it('fetches rates', async function () {
+    const plugin = makeWazirxPlugin(makeFakePluginOptions(fixtures.wazirx))
+    const pairs = await plugin.fetchRates(hints)
+    assert.deepEqual(pairs, [
+      { fromCurrency: 'BTC', toCurrency: 'iso:INR', rate: 1600000 }
+    ])
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeWazirxPlugin(
+      makeFakePluginOptions(fixtures.wazirxMalformed)
+    )
+    assert.deepEqual(await plugin.fetchRates(hints), [])
+  })
+})
@@ -0,0 +1,41 @@
+import { assert } from 'chai'
+import { it } from 'mocha'
+
+import { makeSideshiftPlugin } from '../src/swap/sideshift'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin(
+  {
+    pluginId: 'sideshift',
+    makePlugin: makeSideshiftPlugin,
+    initOptions: { affiliateId: 'affiliate' },
+    orderStatuses: {
+      done: {
+        orderId: 'done',
+        state: 'completed',
+        partnerStatus: 'settled',
+        depositTxid: 'txin',
+        payoutTxid: 'txout',
+        payoutExchangeAmount: '15.5'
+      },
+      refund: {
+        orderId: 'refund',
+        state: 'refunded',
+        partnerStatus: 'refunded',
+        depositTxid: 'txin',
+        refundAddress: '32HtSR38USjuD4iaTbEhD566m5DGon7tuD',
+        refundTxid: 'txrefund'
+      }
+    }
+  },
+  ({ makePlugin, makeRequest }) => {
+    it('geo restricted', async function () {
+      const plugin = makePlugin('geoBlocked')
+      const error = await plugin
+        .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+        .catch(error => error)
+      assert.equal(error.name, 'SwapPermissionError')
+      assert.equal(error.reason, 'geoRestriction')
+    })
+  }
+)
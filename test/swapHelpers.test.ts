@@ -0,0 +1,159 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet, EdgeSpendInfo } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import { EdgeSwapRequestPlugin } from '../src/swap/types'
+import {
+  checkInvalidCodes,
+  InvalidCurrencyCodes,
+  makeSwapPluginQuote
+} from '../src/swap-helpers'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakeWallet } from './fakeWallet'
+
+const swapInfo = {
+  pluginId: 'test',
+  displayName: 'Test',
+  supportEmail: 'support@edge.app'
+}
+
+const USDT_TOKEN_ID = 'dac17f958d2ee523a2206206994597c13d831ec7'
+
+describe(`checkInvalidCodes`, function () {
+  let btcWallet: EdgeCurrencyWallet
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    btcWallet = await makeFakeWallet(btcCurrencyInfo)
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  const makeRequest = (
+    toCurrencyCode: string,
+    toTokenId?: string
+  ): EdgeSwapRequestPlugin => ({
+    fromWallet: btcWallet,
+    toWallet: ethWallet,
+    fromCurrencyCode: 'BTC',
+    toCurrencyCode,
+    toTokenId,
+    nativeAmount: '100000000',
+    quoteFor: 'from'
+  })
+
+  const check = (
+    invalidCodes: InvalidCurrencyCodes,
+    toCurrencyCode: string,
+    toTokenId?: string
+  ): string | undefined => {
+    try {
+      checkInvalidCodes(
+        invalidCodes,
+        makeRequest(toCurrencyCode, toTokenId),
+        swapInfo
+      )
+    } catch (error: any) {
+      assert.equal(error.name, 'SwapCurrencyError')
+      return error.message
+    }
+  }
+
+  it('matches currency codes', function () {
+    const invalidCodes = { from: {}, to: { ethereum: ['USDT'] } }
+    assert.equal(
+      check(invalidCodes, 'USDT'),
+      'Test does not support BTC to USDT (blocked by plugin)'
+    )
+    assert.isUndefined(check(invalidCodes, 'ETH'))
+  })
+
+  it('matches allTokens', function () {
+    const invalidCodes: InvalidCurrencyCodes = {
+      from: {},
+      to: { ethereum: 'allTokens' }
+    }
+    assert.isDefined(check(invalidCodes, 'USDT', USDT_TOKEN_ID))
+    assert.isUndefined(check(invalidCodes, 'ETH'))
+  })
+
+  it('matches tokenIds', function () {
+    const invalidCodes = {
+      from: {},
+      to: { ethereum: [{ tokenId: USDT_TOKEN_ID }] }
+    }
+    assert.isDefined(check(invalidCodes, 'USDT', USDT_TOKEN_ID))
+    assert.isUndefined(check(invalidCodes, 'USDT'))
+  })
+
+  it('matches wildcard pluginIds', function () {
+    const invalidCodes = { from: { '*': ['BTC'] }, to: {} }
+    assert.isDefined(check(invalidCodes, 'ETH'))
+  })
+
+  it('respects time windows', function () {
+    const past = new Date(Date.now() - 60000)
+    const future = new Date(Date.now() + 60000)
+    const expired = { from: {}, to: { ethereum: [{ endDate: past }] } }
+    const upcoming = { from: {}, to: { ethereum: [{ startDate: future }] } }
+    const current = {
+      from: {},
+      to: { ethereum: [{ startDate: past, endDate: future }] }
+    }
+    assert.isUndefined(check(expired, 'ETH'))
+    assert.isUndefined(check(upcoming, 'ETH'))
+    assert.isDefined(check(current, 'ETH'))
+  })
+
+  it('reports default blocks', function () {
+    assert.equal(
+      check({ from: {}, to: {} }, 'REP'),
+      'Test does not support BTC to REP (blocked by default)'
+    )
+  })
+})
+
+describe(`makeSwapPluginQuote`, function () {
+  it('finishes the spend once approved', async function () {
+    const ethWallet = await makeFakeWallet(ethCurrencyInfo)
+    const publicAddress = '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE'
+    const spendInfo: EdgeSpendInfo = {
+      spendTargets: [{ nativeAmount: '1000', publicAddress, memo: '0x' }],
+      swapData: {
+        isEstimate: false,
+        payoutAddress: publicAddress,
+        payoutCurrencyCode: 'ETH',
+        payoutNativeAmount: '1000',
+        payoutWalletId: ethWallet.id,
+        plugin: swapInfo
+      }
+    }
+
+    let finishCount = 0
+    const quote = await makeSwapPluginQuote({
+      request: {
+        fromWallet: ethWallet,
+        toWallet: ethWallet,
+        fromCurrencyCode: 'ETH',
+        toCurrencyCode: 'ETH',
+        nativeAmount: '1000',
+        quoteFor: 'from'
+      },
+      swapInfo,
+      spendInfo,
+      fromNativeAmount: '1000',
+      async finishSpendInfo() {
+        ++finishCount
+        return {
+          ...spendInfo,
+          spendTargets: [{ nativeAmount: '1000', publicAddress, memo: '0x1' }]
+        }
+      }
+    })
+    assert.equal(finishCount, 0)
+
+    const { transaction } = await quote.approve()
+    assert.equal(finishCount, 1)
+    assert.equal(transaction.txSecret, 'open sesame')
+  })
+})
@@ -0,0 +1,185 @@
+import { assert } from 'chai'
+import {
+  EdgeCorePluginOptions,
+  EdgeCurrencyWallet,
+  EdgeSwapRequest,
+  JsonObject
+} from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import { EdgeSwapPluginWithStatus, SwapOrderStatus } from '../src/swap/types'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { FixtureFile, loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+export interface SwapPluginTestConfig {
+  pluginId: string
+  makePlugin: (opts: EdgeCorePluginOptions) => EdgeSwapPluginWithStatus
+  initOptions: JsonObject
+
+  // Partners that can't fix the output amount reject 'to' quotes:
+  supportsToQuote?: boolean
+
+  // What each order in the `orderStatus` fixture should report.
+  // The fixture's \`unknown\` order has a status we have never seen:
+  orderStatuses: { [orderId: string]: SwapOrderStatus }
+}
+
+export interface SwapPluginTestContext {
+  fixtures: FixtureFile
+  makePlugin: (scenario: string) => EdgeSwapPluginWithStatus
+  makeRequest: (
+    quoteFor: 'from' | 'max' | 'to',
+    nativeAmount: string
+  ) => EdgeSwapRequest
+}
+
+/**
+ * Runs the BTC to ETH scenarios every centralized swap plugin shares.
+ * The fixture files all price 1 BTC at 15.5 ETH, with a 400 sat fee,
+ * so the expected amounts are the same for every partner.
+ * Plugin-specific tests go in the `moreTests` callback.
+ */
+export function describeSwapPlugin(
+  config: SwapPluginTestConfig,
+  moreTests: (context: SwapPluginTestContext) => void = () => {}
+): void {
+  const {
+    pluginId,
+    initOptions,
+    supportsToQuote = true,
+    orderStatuses
+  } = config
+  const fixtures = loadFixtures(pluginId)
+
+  describe(pluginId, function () {
+    let btcWallet: EdgeCurrencyWallet
+    let ethWallet: EdgeCurrencyWallet
+
+    before(async function () {
+      btcWallet = await makeFakeWallet(btcCurrencyInfo)
+      ethWallet = await makeFakeWallet(ethCurrencyInfo)
+    })
+
+    const makePlugin = (scenario: string): EdgeSwapPluginWithStatus =>
+      config.makePlugin(
+        makeFakePluginOptions(fixtures[scenario] ?? [], initOptions)
+      )
+
+    const makeRequest = (
+      quoteFor: 'from' | 'max' | 'to',
+      nativeAmount: string
+    ): EdgeSwapRequest => ({
+      fromWallet: btcWallet,
+      toWallet: ethWallet,
+      fromCurrencyCode: 'BTC',
+      toCurrencyCode: 'ETH',
+      nativeAmount,
+      quoteFor
+    })
+
+    it('from quote', async function () {
+      const plugin = makePlugin('fromQuote')
+      const quote = await plugin.fetchSwapQuote(
+        makeRequest('from', '100000000'),
+        undefined,
+        {}
+      )
+      assert.equal(quote.pluginId, pluginId)
+      assert.equal(quote.fromNativeAmount, '100000000')
+      assert.equal(quote.toNativeAmount, '15500000000000000000')
+      assert.deepEqual(quote.networkFee, {
+        currencyCode: 'BTC',
+        nativeAmount: '400'
+      })
+      assert.isFalse(quote.isEstimate)
+    })
+
+    if (supportsToQuote) {
+      it('to quote', async function () {
+        const plugin = makePlugin('toQuote')
+        const quote = await plugin.fetchSwapQuote(
+          makeRequest('to', '15500000000000000000'),
+          undefined,
+          {}
+        )
+        assert.equal(quote.fromNativeAmount, '101000000')
+        assert.equal(quote.toNativeAmount, '15500000000000000000')
+      })
+    } else {
+      it('to quote is unsupported', async function () {
+        const plugin = makePlugin('none')
+        const error = await plugin
+          .fetchSwapQuote(
+            makeRequest('to', '15500000000000000000'),
+            undefined,
+            {}
+          )
+          .catch(error => error)
+        assert.equal(error.name, 'SwapCurrencyError')
+      })
+    }
+
+    it('max quote', async function () {
+      const plugin = makePlugin('maxQuote')
+      const quote = await plugin.fetchSwapQuote(
+        makeRequest('max', '0'),
+        undefined,
+        {}
+      )
+      assert.equal(quote.fromNativeAmount, '129999600')
+      assert.equal(quote.toNativeAmount, '20140000000000000000')
+    })
+
+    it('below limit', async function () {
+      const plugin = makePlugin('belowLimit')
+      const error = await plugin
+        .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+        .catch(error => error)
+      assert.equal(error.name, 'SwapBelowLimitError')
+      assert.equal(error.nativeMin, '200000000')
+    })
+
+    it('malformed response', async function () {
+      const plugin = makePlugin('malformed')
+      const error = await plugin
+        .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+        .catch(error => error)
+      assert.instanceOf(error, TypeError)
+    })
+
+    // Not every partner reports unsupported pairs distinctly:
+    if (fixtures.unsupported != null) {
+      it('unsupported pair', async function () {
+        const plugin = makePlugin('unsupported')
+        const error = await plugin
+          .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+          .catch(error => error)
+        assert.equal(error.name, 'SwapCurrencyError')
+      })
+    }
+
+    it('order status', async function () {
+      const plugin = makePlugin('orderStatus')
+      for (const orderId of Object.keys(orderStatuses)) {
+        const status = await plugin.fetchOrderStatus(orderId)
+        assert.deepInclude(status, orderStatuses[orderId])
+      }
+    })
+
+    it('unknown order status', async function () {
+      const plugin = makePlugin('orderStatus')
+      const error = await plugin
+        .fetchOrderStatus('unknown')
+        .catch(error => error)
+      assert.instanceOf(error, Error)
+      assert.include(
+        error.message,
+        `${plugin.swapInfo.displayName} returned unknown order status`
+      )
+    })
+
+    moreTests({ fixtures, makePlugin, makeRequest })
+  })
+}
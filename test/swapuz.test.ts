@@ -0,0 +1,25 @@
+import { makeSwapuzPlugin } from '../src/swap/swapuz'
+import { describeSwapPlugin } from './swapPluginTests'
+
+describeSwapPlugin({
+  pluginId: 'swapuz',
+  makePlugin: makeSwapuzPlugin,
+  initOptions: { apiKey: 'key' },
+  supportsToQuote: false,
+  orderStatuses: {
+    done: {
+      orderId: 'done',
+      state: 'completed',
+      partnerStatus: '4',
+      depositTxid: 'txin',
+      payoutTxid: 'txout',
+      payoutExchangeAmount: '15.5'
+    },
+    sending: {
+      orderId: 'sending',
+      state: 'sending',
+      partnerStatus: '3',
+      depositTxid: 'txin'
+    }
+  }
+})
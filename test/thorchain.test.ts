@@ -1,13 +1,29 @@
 import { assert } from 'chai'
+import { EdgeCurrencyWallet, EdgeSwapRequest } from 'edge-core-js'
 import { before, describe, it } from 'mocha'
 
 import {
   asPool,
+  buildSwapMemo,
   calcDoubleSwapInput,
   calcDoubleSwapOutput,
+  calcNetworkFee,
+  calcRouteSwapInput,
+  calcRouteSwapOutput,
+  calcStreamingSwapOutput,
+  EVM_SEND_GAS,
+  EVM_TOKEN_SEND_GAS,
+  getGasLimit,
+  getRunePriceUsd,
   getVolatilitySpread,
+  makeThorchainPlugin,
   THOR_LIMIT_UNITS
 } from '../src/swap/defi/thorchain'
+import { SwapPluginQuote } from '../src/swap/types'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { FetchFixture, loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
 
 const THOR_UNITS_NUM = Number(THOR_LIMIT_UNITS)
 
@@ -51,6 +67,128 @@ describe(`calcDoubleSwapInput`, function () {
   })
 })
 
+describe(`calcStreamingSwapOutput`, function () {
+  it('matches a regular swap with one sub-swap', function () {
+    const btcPool = asPool(samplePools.find(p => p.asset === 'BTC.BTC'))
+    const ethPool = asPool(samplePools.find(p => p.asset === 'ETH.ETH'))
+    assert.equal(
+      calcStreamingSwapOutput(THOR_UNITS_NUM, btcPool, ethPool, 1),
+      calcDoubleSwapOutput(THOR_UNITS_NUM, btcPool, ethPool)
+    )
+  })
+
+  it('reduces slippage with more sub-swaps', function () {
+    const btcPool = asPool(samplePools.find(p => p.asset === 'BTC.BTC'))
+    const ethPool = asPool(samplePools.find(p => p.asset === 'ETH.ETH'))
+    const regular = calcDoubleSwapOutput(10 * THOR_UNITS_NUM, btcPool, ethPool)
+    const streaming = calcStreamingSwapOutput(
+      10 * THOR_UNITS_NUM,
+      btcPool,
+      ethPool,
+      10
+    )
+    assert.isAbove(streaming, regular)
+    assert.isBelow(
+      streaming,
+      10 * calcDoubleSwapOutput(THOR_UNITS_NUM / 1000, btcPool, ethPool) * 1000
+    )
+  })
+})
+
+describe(`calcRouteSwapOutput`, function () {
+  it('matches a double swap between two pools', function () {
+    const btcPool = asPool(samplePools.find(p => p.asset === 'BTC.BTC'))
+    const ethPool = asPool(samplePools.find(p => p.asset === 'ETH.ETH'))
+    assert.equal(
+      calcRouteSwapOutput(THOR_UNITS_NUM, btcPool, ethPool),
+      calcDoubleSwapOutput(THOR_UNITS_NUM, btcPool, ethPool)
+    )
+  })
+
+  it('swaps RUNE through a single pool', function () {
+    const ethPool = asPool(samplePools.find(p => p.asset === 'ETH.ETH'))
+    const output = calcRouteSwapOutput(100 * THOR_UNITS_NUM, undefined, ethPool)
+    assert.closeTo(output / THOR_UNITS_NUM, 0.130195, 0.000001)
+    assert.closeTo(
+      calcRouteSwapInput(output, undefined, ethPool),
+      100 * THOR_UNITS_NUM,
+      THOR_UNITS_NUM / 1000
+    )
+    assert.closeTo(
+      calcRouteSwapOutput(THOR_UNITS_NUM, ethPool, undefined) / THOR_UNITS_NUM,
+      767.853466,
+      0.000001
+    )
+  })
+})
+
+describe(`getRunePriceUsd`, function () {
+  it('uses the pool prices', function () {
+    const pools = samplePools.map(pool => asPool(pool))
+    assert.equal(getRunePriceUsd(pools), '2.1007487859981805')
+  })
+})
+
+describe(`calcNetworkFee`, function () {
+  it('pays BSC fees in BNB or BEP-20 tokens', function () {
+    const pools = samplePools.map(pool => asPool(pool))
+    assert.equal(calcNetworkFee('BSC', 'BNB', '240000', pools), '0.0024')
+    assert.equal(
+      calcNetworkFee('BSC', 'USDT', '240000', pools),
+      '0.7141032031547251'
+    )
+  })
+
+  it('pays BEP-2 token fees in the token', function () {
+    const pools = samplePools.map(pool => asPool(pool))
+    assert.equal(
+      calcNetworkFee('BNB', 'BUSD', '37500', pools),
+      '0.1115797070567106'
+    )
+  })
+
+  it('pays Cosmos Hub & THORChain fees in the native asset', function () {
+    const pools = samplePools.map(pool => asPool(pool))
+    assert.equal(calcNetworkFee('GAIA', 'ATOM', '2000000', pools), '0.02')
+    assert.equal(calcNetworkFee('THOR', 'RUNE', '0', pools), '0.02')
+  })
+})
+
+describe(`getGasLimit`, function () {
+  it('limits gas on EVM chains only', function () {
+    assert.equal(getGasLimit('BSC', 'BNB'), EVM_SEND_GAS)
+    assert.equal(getGasLimit('BSC', 'USDT'), EVM_TOKEN_SEND_GAS)
+    assert.equal(getGasLimit('ETH', 'ETH'), EVM_SEND_GAS)
+    assert.isUndefined(getGasLimit('GAIA', 'ATOM'))
+    assert.isUndefined(getGasLimit('THOR', 'RUNE'))
+  })
+})
+
+describe(`buildSwapMemo`, function () {
+  const params = {
+    chain: 'ETH',
+    asset: 'ETH',
+    address: '0x0d73358506663d484945ba85d0cd435ad610b0a0',
+    limit: '1000',
+    affiliateAddress: 'ej',
+    points: '50'
+  }
+
+  it('builds regular swaps', function () {
+    assert.equal(
+      buildSwapMemo(params),
+      '=:ETH.ETH:0x0d73358506663d484945ba85d0cd435ad610b0a0:1000:ej:50'
+    )
+  })
+
+  it('builds streaming swaps', function () {
+    assert.equal(
+      buildSwapMemo({ ...params, streaming: { interval: 1, quantity: 20 } }),
+      '=:ETH.ETH:0x0d73358506663d484945ba85d0cd435ad610b0a0:1000/1/20:ej:50'
+    )
+  })
+})
+
 describe(`getVolatilitySpread`, function () {
   it('bitcoin source', function () {
     const result = getVolatilitySpread({
@@ -222,6 +360,251 @@ describe(`getVolatilitySpread`, function () {
   })
 })
 
+describe(`makeThorchainPlugin`, function () {
+  const fixtures = loadFixtures('thorchain')
+  let btcWallet: EdgeCurrencyWallet
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    btcWallet = await makeFakeWallet(btcCurrencyInfo)
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  const makeRequest = (
+    quoteFor: 'from' | 'max' | 'to',
+    nativeAmount: string
+  ): EdgeSwapRequest => ({
+    fromWallet: btcWallet,
+    toWallet: ethWallet,
+    fromCurrencyCode: 'BTC',
+    toCurrencyCode: 'ETH',
+    nativeAmount,
+    quoteFor
+  })
+
+  it('from quote', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '100000000')
+    assert.equal(quote.toNativeAmount, '12947605520804574000')
+    assert.isFalse(quote.isEstimate)
+  })
+
+  it('applies the slippage setting', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      { slippage: '0.01' },
+      {}
+    )
+    assert.equal(quote.toNativeAmount, '12947605520804574000')
+    // 1% less than a regular swap would pay out:
+    assert.equal(quote.minReceiveAmount, '12745861590000000000')
+  })
+
+  it('breaks down the fees', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    const { fees } = quote
+    if (fees == null) throw new Error('No fee breakdown')
+    assert.deepEqual(fees.sourceNetworkFee, quote.networkFee)
+    assert.isUndefined(fees.approvalFee)
+    assert.deepEqual(fees.outboundFee, {
+      currencyCode: 'ETH',
+      nativeAmount: '2400000000000000'
+    })
+    assert.deepEqual(fees.affiliateFee, {
+      currencyCode: 'BTC',
+      nativeAmount: '500000'
+    })
+    assert.deepEqual(fees.spread, {
+      currencyCode: 'BTC',
+      nativeAmount: '1500000'
+    })
+  })
+
+  it('streams large swaps', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    // 100 sub-swaps, plus the longest outbound delay:
+    assert.equal(quote.maxFulfillmentSeconds, 4920)
+    assert.isTrue(quote.canBePartial)
+    // The limit doesn't count on the pools refilling between sub-swaps:
+    if (quote.minReceiveAmount == null) throw new Error('No limit')
+    assert.isBelow(Number(quote.minReceiveAmount), Number(quote.toNativeAmount))
+  })
+
+  it('swaps small amounts at once', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '200000'),
+      undefined,
+      {}
+    )
+    assert.isUndefined(quote.maxFulfillmentSeconds)
+    assert.isUndefined(quote.canBePartial)
+  })
+
+  it('to quote', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('to', '10000000000000000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '77237551')
+    assert.equal(quote.toNativeAmount, '10000000000000000000')
+  })
+
+  it('limits streaming exact-output swaps to a single swap', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('to', '10000000000000000000'),
+      undefined,
+      {}
+    )
+    assert.isTrue(quote.canBePartial)
+    if (quote.minReceiveAmount == null) throw new Error('No limit')
+    assert.isBelow(Number(quote.minReceiveAmount), Number(quote.toNativeAmount))
+  })
+
+  it('max quote', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('max', '0'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '129999600')
+    assert.equal(quote.toNativeAmount, '16832266399110641000')
+  })
+
+  // Turns on THORNode quotes through the info server:
+  const withThornodeQuotes = (
+    expectedAmountOut: string = '1310000000'
+  ): FetchFixture[] => [
+    ...fixtures.quotes.map(fixture => {
+      if (!fixture.url.includes('exchangeInfo')) return fixture
+      const { thorchain } = fixture.response.swap.plugins
+      const info = { ...thorchain, thornodeQuotes: true }
+      return {
+        ...fixture,
+        response: { swap: { plugins: { thorchain: info } } }
+      }
+    }),
+    ...fixtures.thornodeQuote.map(fixture => ({
+      ...fixture,
+      response: { ...fixture.response, expected_amount_out: expectedAmountOut }
+    }))
+  ]
+
+  it('quotes through THORNode', async function () {
+    const plugin = makeThorchainPlugin(
+      makeFakePluginOptions(withThornodeQuotes())
+    )
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    // THORNode's output, less the 1.5% bitcoin spread:
+    assert.equal(quote.toNativeAmount, '12903500000000000000')
+    assert.equal(quote.maxFulfillmentSeconds, 612)
+    assert.deepEqual(quote.fees?.protocolFee, {
+      currencyCode: 'ETH',
+      nativeAmount: '30000000000000000'
+    })
+    assert.deepEqual(quote.fees?.outboundFee, {
+      currencyCode: 'ETH',
+      nativeAmount: '2400000000000000'
+    })
+  })
+
+  it('keeps the single-swap limit for streaming THORNode quotes', async function () {
+    const request = makeRequest('from', '100000000')
+    const poolPlugin = makeThorchainPlugin(
+      makeFakePluginOptions(fixtures.quotes)
+    )
+    const poolQuote: SwapPluginQuote = await poolPlugin.fetchSwapQuote(
+      request,
+      undefined,
+      {}
+    )
+    const plugin = makeThorchainPlugin(
+      makeFakePluginOptions(withThornodeQuotes())
+    )
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      request,
+      undefined,
+      {}
+    )
+    assert.isTrue(quote.canBePartial)
+    assert.equal(quote.minReceiveAmount, poolQuote.minReceiveAmount)
+  })
+
+  it('rejects THORNode quotes that diverge from the pool math', async function () {
+    const plugin = makeThorchainPlugin(
+      makeFakePluginOptions(withThornodeQuotes('1500000000'))
+    )
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+      .catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.match(error.message, /diverges/)
+  })
+
+  it('keeps using pool math for exact-output quotes', async function () {
+    const plugin = makeThorchainPlugin(
+      makeFakePluginOptions(withThornodeQuotes())
+    )
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('to', '10000000000000000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '77237551')
+  })
+
+  it('below limit', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.quotes))
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000'), undefined, {})
+      .catch(error => error)
+    assert.equal(error.name, 'SwapBelowLimitError')
+    assert.equal(error.nativeMin, '140697.84289113')
+  })
+
+  it('halted chain', async function () {
+    const plugin = makeThorchainPlugin(makeFakePluginOptions(fixtures.halted))
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+      .catch(error => error)
+    assert.equal(error.name, 'SwapCurrencyError')
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeThorchainPlugin(
+      makeFakePluginOptions(fixtures.malformed)
+    )
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+      .catch(error => error)
+    assert.instanceOf(error, TypeError)
+  })
+})
+
 const samplePools = [
   {
     annualPercentageRate: '0.15395655873814743',
@@ -358,6 +741,36 @@ const samplePools = [
     units: '9169039390121',
     volume24h: '16688847906615'
   },
+  {
+    annualPercentageRate: '0.0921776513452116',
+    asset: 'BSC.BNB',
+    assetDepth: '815230401633',
+    assetPrice: '141.63801377287555',
+    assetPriceUSD: '297.5458854845619',
+    liquidityUnits: '40117392817726',
+    poolAPY: '0.0921776513452116',
+    runeDepth: '115467614854562',
+    status: 'available',
+    synthSupply: '8416035219',
+    synthUnits: '207331926810',
+    units: '40324724744536',
+    volume24h: '21846330251870'
+  },
+  {
+    annualPercentageRate: '0.1274451790353377',
+    asset: 'BSC.USDT-0X55D398326F99059FF775485246999027B3197955',
+    assetDepth: '1203462001936820',
+    assetPrice: '0.4760253581739616',
+    assetPriceUSD: '1.0000142963157428',
+    liquidityUnits: '28011846527734',
+    poolAPY: '0.1274451790353377',
+    runeDepth: '572878430520728',
+    status: 'available',
+    synthSupply: '51937217300513',
+    synthUnits: '612530961348',
+    units: '28624377489082',
+    volume24h: '35216608120044'
+  },
   {
     annualPercentageRate: '0.03758112953062146',
     asset: 'BTC.BTC',
@@ -0,0 +1,389 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet, EdgeSwapRequest } from 'edge-core-js'
+import { ethers } from 'ethers'
+import { before, describe, it } from 'mocha'
+
+import {
+  canEncodeCalldata,
+  findSellAmount,
+  getCalldataData,
+  makeThorchainDaPlugin,
+  rankThorSwapRoutes
+} from '../src/swap/defi/thorchainDa'
+import { SwapPluginQuote } from '../src/swap/types'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const fixtures = loadFixtures('thorchainDa')
+
+describe(`thorchainda`, function () {
+  let btcWallet: EdgeCurrencyWallet
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    btcWallet = await makeFakeWallet(btcCurrencyInfo)
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  const makeRequest = (
+    quoteFor: 'from' | 'max' | 'to',
+    nativeAmount: string
+  ): EdgeSwapRequest => ({
+    fromWallet: btcWallet,
+    toWallet: ethWallet,
+    fromCurrencyCode: 'BTC',
+    toCurrencyCode: 'USDC',
+    nativeAmount,
+    quoteFor
+  })
+
+  it('from quote', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.fromQuote)
+    )
+    const quote: SwapPluginQuote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.pluginId, 'thorchainda')
+    assert.equal(quote.fromNativeAmount, '100000000')
+    assert.equal(quote.toNativeAmount, '20850250000')
+    // The default slippage is the 0.75% volatility spread:
+    assert.equal(quote.minReceiveAmount, '20693873125')
+    assert.deepEqual(quote.networkFee, {
+      currencyCode: 'BTC',
+      nativeAmount: '400'
+    })
+    assert.deepEqual(quote.fees?.spread, {
+      currencyCode: 'BTC',
+      nativeAmount: '750000'
+    })
+  })
+
+  it('to quote', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.toQuote)
+    )
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('to', '20850250000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '100016200')
+    assert.equal(quote.toNativeAmount, '20903400000')
+  })
+
+  it('max quote', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.maxQuote)
+    )
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('max', '0'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.fromNativeAmount, '129999600')
+    assert.equal(quote.toNativeAmount, '27105240000')
+  })
+
+  it('picks the best of several routes', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.multipleRoutes)
+    )
+    const quote = await plugin.fetchSwapQuote(
+      makeRequest('from', '100000000'),
+      undefined,
+      {}
+    )
+    assert.equal(quote.toNativeAmount, '20900500000')
+  })
+
+  it('direct routes are left to the thorchain plugin', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.singleProvider)
+    )
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+      .catch(error => error)
+    assert.equal(error.name, 'SwapCurrencyError')
+  })
+
+  it('malformed response', async function () {
+    const plugin = makeThorchainDaPlugin(
+      makeFakePluginOptions(fixtures.malformed)
+    )
+    const error = await plugin
+      .fetchSwapQuote(makeRequest('from', '100000000'), undefined, {})
+      .catch(error => error)
+    assert.instanceOf(error, TypeError)
+  })
+})
+
+// Arguments for a uniswapV2 aggregator's swapIn:
+const swapInCalldata = {
+  tcRouter: '0xd37bbe5744d730a1d98d8dc97c42f0ca46ad7146',
+  tcVault: '0x0d73358506663d484945ba85d0cd435ad610b0a0',
+  tcMemo: '=:BTC.BTC:bc1qexample',
+  token: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  amount: '1000000000',
+  amountOutMin: '4900000',
+  deadline: '1700000000'
+}
+
+describe(`rankThorSwapRoutes`, function () {
+  const uniswapV2 = '0x7c38b8b2eff28511ecc14a621e263857fb5771d3'
+  const sushiswap = '0x0f2cd5df82959e00be7afeef8245900fc4414199'
+  const makeRoute = (
+    providers: string[],
+    expectedOutputUSD: string,
+    contract: string | null = null,
+    contractMethod: string | null = null,
+    calldata: object = swapInCalldata
+  ): any => ({
+    contract,
+    contractMethod,
+    complete: true,
+    path: providers.join(' -> '),
+    providers,
+    calldata,
+    expectedOutput: expectedOutputUSD,
+    expectedOutputMaxSlippage: expectedOutputUSD,
+    expectedOutputUSD,
+    expectedOutputMaxSlippageUSD: expectedOutputUSD
+  })
+
+  it('knows which contracts it can call', function () {
+    assert.isTrue(
+      canEncodeCalldata('ethereum', uniswapV2, 'swapIn', swapInCalldata)
+    )
+    assert.isFalse(
+      canEncodeCalldata(
+        'ethereum',
+        uniswapV2,
+        'swapInWithPermit',
+        swapInCalldata
+      )
+    )
+    assert.isFalse(
+      canEncodeCalldata('ethereum', sushiswap, 'swapIn', swapInCalldata)
+    )
+    assert.isFalse(
+      canEncodeCalldata('fantom', uniswapV2, 'swapIn', swapInCalldata)
+    )
+  })
+
+  it('learns contracts from the info server', function () {
+    const aggregators = {
+      ethereum: {
+        [sushiswap]: { name: 'Fixed', family: 'uniswapV2', disabled: false },
+        [uniswapV2]: { name: 'Broken', family: 'uniswapV2', disabled: true },
+        '0x1111111111111111111111111111111111111111': {
+          name: 'Future',
+          family: 'uniswapV4',
+          disabled: false
+        }
+      },
+      fantom: {
+        '0xABCDEF0000000000000000000000000000000000': {
+          name: 'New',
+          family: 'generic',
+          disabled: false
+        }
+      }
+    }
+    assert.isTrue(
+      canEncodeCalldata(
+        'ethereum',
+        sushiswap,
+        'swapIn',
+        swapInCalldata,
+        aggregators
+      )
+    )
+    assert.isFalse(
+      canEncodeCalldata(
+        'ethereum',
+        uniswapV2,
+        'swapIn',
+        swapInCalldata,
+        aggregators
+      )
+    )
+    assert.isFalse(
+      canEncodeCalldata(
+        'ethereum',
+        '0x1111111111111111111111111111111111111111',
+        'swapIn',
+        swapInCalldata,
+        aggregators
+      )
+    )
+    assert.isTrue(
+      canEncodeCalldata(
+        'fantom',
+        '0xabcdef0000000000000000000000000000000000',
+        'swapIn',
+        {
+          ...swapInCalldata,
+          router: '0x1111111111111111111111111111111111111111',
+          data: '0x'
+        },
+        aggregators
+      )
+    )
+  })
+
+  it('knows which calls it can encode', function () {
+    const { amountOutMin, ...missing } = swapInCalldata
+    assert.isFalse(canEncodeCalldata('ethereum', uniswapV2, 'swapIn', missing))
+    assert.isFalse(canEncodeCalldata('ethereum', uniswapV2, 'swapIn', null))
+  })
+
+  it('ranks by output net of gas', function () {
+    const direct = makeRoute(['THORCHAIN', 'UNISWAPV2'], '1000')
+    const aggregated = makeRoute(
+      ['UNISWAPV2', 'THORCHAIN'],
+      '1010',
+      uniswapV2,
+      'swapIn'
+    )
+    const params = {
+      routes: [direct, aggregated],
+      currencyPluginId: 'ethereum',
+      isEvmSource: true,
+      gasLimit: '80000'
+    }
+
+    // Cheap gas lets the bigger output win:
+    const cheap = rankThorSwapRoutes({ ...params, gasPriceUsd: '0.00001' })
+    assert.deepEqual(
+      cheap.map(ranked => ranked.netOutputUsd),
+      ['1007', '999.2']
+    )
+
+    // Expensive gas favors the router deposit:
+    const expensive = rankThorSwapRoutes({ ...params, gasPriceUsd: '0.0001' })
+    assert.deepEqual(
+      expensive.map(ranked => ranked.route),
+      [direct, aggregated]
+    )
+  })
+
+  it('skips routes it cannot execute', function () {
+    const ranked = rankThorSwapRoutes({
+      routes: [
+        makeRoute(['THORCHAIN'], '2000'),
+        makeRoute(['SUSHISWAP', 'THORCHAIN'], '1500', sushiswap, 'swapIn'),
+        makeRoute(['UNISWAPV2', 'THORCHAIN'], '1200', uniswapV2, 'swapIn'),
+        makeRoute(['THORCHAIN', 'UNISWAPV2'], '1000')
+      ],
+      currencyPluginId: 'bitcoin',
+      isEvmSource: false,
+      gasLimit: undefined,
+      gasPriceUsd: '0'
+    })
+    assert.deepEqual(
+      ranked.map(ranked => ranked.route.path),
+      ['THORCHAIN -> UNISWAPV2']
+    )
+  })
+
+  it('skips routes whose calldata it cannot encode', function () {
+    const ranked = rankThorSwapRoutes({
+      routes: [
+        makeRoute(['UNISWAPV2', 'THORCHAIN'], '1500', uniswapV2, 'swapIn', {
+          ...swapInCalldata,
+          token: 'not an address'
+        }),
+        makeRoute(['UNISWAPV2', 'THORCHAIN'], '1200', uniswapV2, 'swapIn')
+      ],
+      currencyPluginId: 'ethereum',
+      isEvmSource: true,
+      gasLimit: undefined,
+      gasPriceUsd: '0'
+    })
+    assert.deepEqual(
+      ranked.map(ranked => ranked.netOutputUsd),
+      ['1200']
+    )
+  })
+})
+
+describe(`getCalldataData`, function () {
+  const uniswapV2 = '0x7c38b8b2eff28511ecc14a621e263857fb5771d3'
+  const calldata = swapInCalldata
+  const params = {
+    currencyPluginId: 'ethereum',
+    contractAddress: uniswapV2,
+    contractMethod: 'swapIn'
+  }
+
+  it('encodes calls by parameter name', function () {
+    const data = getCalldataData({ ...params, calldata })
+    const contractInterface = new ethers.utils.Interface([
+      'function swapIn(address tcRouter, address tcVault, string tcMemo, address token, uint256 amount, uint256 amountOutMin, uint256 deadline)'
+    ])
+    const decoded = contractInterface.decodeFunctionData('swapIn', data)
+    assert.equal(decoded.tcMemo, calldata.tcMemo)
+    assert.equal(decoded.amountOutMin.toString(), calldata.amountOutMin)
+  })
+
+  it('rejects calldata that does not match the ABI', function () {
+    const { amountOutMin, ...missing } = calldata
+    assert.throws(
+      () => getCalldataData({ ...params, calldata: missing }),
+      'ThorSwap calldata is missing amountOutMin'
+    )
+    assert.throws(
+      () =>
+        getCalldataData({
+          ...params,
+          calldata: { ...calldata, token: 'not an address' }
+        }),
+      'ThorSwap calldata does not match swapIn'
+    )
+    assert.throws(
+      () =>
+        getCalldataData({
+          ...params,
+          contractMethod: 'swapInWithPermit',
+          calldata
+        }),
+      `Contract ethereum-${uniswapV2} has no method swapInWithPermit`
+    )
+  })
+})
+
+describe(`findSellAmount`, function () {
+  // Sells for 2 units each, less a fixed fee of 10:
+  const makeFetchQuote = (calls: string[]) => async (sellAmount: string) => {
+    calls.push(sellAmount)
+    const output = String(Math.max(0, Number(sellAmount) * 2 - 10))
+    return { output, routes: [] }
+  }
+
+  it('lands just above the target', async function () {
+    const calls: string[] = []
+    const found = await findSellAmount({
+      targetOutput: '1000',
+      initialSellAmount: '400',
+      fetchQuote: makeFetchQuote(calls)
+    })
+    if (found == null) throw new Error('Expected a sell amount')
+    assert.isAtLeast(Number(found.output), 1000)
+    assert.isAtMost(Number(found.output), 1005)
+    assert.isAtMost(calls.length, 4)
+  })
+
+  it('gives up if the target is out of reach', async function () {
+    const found = await findSellAmount({
+      targetOutput: '1000',
+      initialSellAmount: '400',
+      fetchQuote: async () => ({ output: '0', routes: [] })
+    })
+    assert.isUndefined(found)
+  })
+})
@@ -0,0 +1,193 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import {
+  buildDepositMemo,
+  buildWithdrawMemo,
+  makeThorchainSaversPlugin
+} from '../src/stake/thorchainSavers'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { loadFixtures, makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const toHexMemo = (memo: string): string =>
+  '0x' + Buffer.from(memo).toString('hex')
+
+describe(`buildDepositMemo`, function () {
+  it('deposits into savers vaults', function () {
+    assert.equal(
+      buildDepositMemo({ type: 'savers', pool: 'BTC.BTC' }),
+      '+:BTC/BTC'
+    )
+  })
+
+  it('deposits into liquidity pools', function () {
+    assert.equal(buildDepositMemo({ type: 'lp', pool: 'BTC.BTC' }), '+:BTC.BTC')
+    assert.equal(
+      buildDepositMemo({
+        type: 'lp',
+        pool: 'BTC.BTC',
+        pairedAddress: 'thor1x'
+      }),
+      '+:BTC.BTC:thor1x'
+    )
+  })
+})
+
+describe(`buildWithdrawMemo`, function () {
+  it('withdraws from savers vaults', function () {
+    assert.equal(
+      buildWithdrawMemo({ type: 'savers', pool: 'BTC.BTC', basisPoints: 5000 }),
+      '-:BTC/BTC:5000'
+    )
+  })
+
+  it('withdraws liquidity as either side', function () {
+    const params = { type: 'lp' as const, pool: 'BTC.BTC', basisPoints: 10000 }
+    assert.equal(buildWithdrawMemo(params), '-:BTC.BTC:10000')
+    assert.equal(
+      buildWithdrawMemo({ ...params, withdrawAs: 'asset' }),
+      '-:BTC.BTC:10000:BTC.BTC'
+    )
+    assert.equal(
+      buildWithdrawMemo({ ...params, withdrawAs: 'rune' }),
+      '-:BTC.BTC:10000:THOR.RUNE'
+    )
+  })
+})
+
+describe(`makeThorchainSaversPlugin`, function () {
+  const fixtures = loadFixtures('thorchainSavers')
+  const plugin = makeThorchainSaversPlugin(
+    makeFakePluginOptions([
+      ...fixtures.vaults,
+      ...fixtures.positions,
+      ...fixtures.noPositions
+    ])
+  )
+  let btcWallet: EdgeCurrencyWallet
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    btcWallet = await makeFakeWallet(btcCurrencyInfo)
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  it('values positions', async function () {
+    const positions = await plugin.fetchPositions(btcWallet)
+    assert.deepEqual(positions, [
+      {
+        type: 'lp',
+        pool: 'BTC.BTC',
+        units: '61287466290',
+        assetAmount: '82920006',
+        runeAmount: '841625762864'
+      },
+      {
+        type: 'savers',
+        pool: 'BTC.BTC',
+        units: '301000000',
+        assetAmount: '315200000',
+        runeAmount: '0'
+      }
+    ])
+  })
+
+  it('handles addresses without positions', async function () {
+    assert.deepEqual(await plugin.fetchPositions(ethWallet), [])
+  })
+
+  it('deposits into savers vaults', async function () {
+    const { spendInfo, preTx } = await plugin.makeDepositSpend({
+      type: 'savers',
+      wallet: btcWallet,
+      nativeAmount: '100000000'
+    })
+    assert.isUndefined(preTx)
+    assert.deepEqual(spendInfo.spendTargets, [
+      {
+        memo: '+:BTC/BTC',
+        nativeAmount: '100000000',
+        publicAddress: 'bc1qthorchainvault'
+      }
+    ])
+    assert.equal(spendInfo.metadata?.name, 'Thorchain Savers')
+  })
+
+  it('withdraws with the dust threshold', async function () {
+    const { spendInfo } = await plugin.makeWithdrawSpend({
+      type: 'savers',
+      wallet: btcWallet,
+      basisPoints: 5000
+    })
+    assert.deepEqual(spendInfo.spendTargets, [
+      {
+        memo: '-:BTC/BTC:5000',
+        nativeAmount: '10001',
+        publicAddress: 'bc1qthorchainvault'
+      }
+    ])
+  })
+
+  it('deposits liquidity from EVM chains', async function () {
+    const { spendInfo } = await plugin.makeDepositSpend({
+      type: 'lp',
+      wallet: ethWallet,
+      nativeAmount: '1000000000000000000',
+      pairedAddress: 'thor1q9fm5mrzvqq2c8ux5wdvhq3vnjyqfs6wh7p6ja'
+    })
+    assert.deepEqual(spendInfo.spendTargets, [
+      {
+        memo: toHexMemo(
+          '+:ETH.ETH:thor1q9fm5mrzvqq2c8ux5wdvhq3vnjyqfs6wh7p6ja'
+        ),
+        nativeAmount: '1000000000000000000',
+        publicAddress: '0xthorchainethvault'
+      }
+    ])
+    assert.equal(spendInfo.customNetworkFee?.gasLimit, '80000')
+  })
+
+  it('withdraws liquidity as RUNE', async function () {
+    const { spendInfo } = await plugin.makeWithdrawSpend({
+      type: 'lp',
+      wallet: ethWallet,
+      basisPoints: 10000,
+      withdrawAs: 'rune'
+    })
+    assert.deepEqual(spendInfo.spendTargets, [
+      {
+        memo: toHexMemo('-:ETH.ETH:10000:THOR.RUNE'),
+        nativeAmount: '10000000000',
+        publicAddress: '0xthorchainethvault'
+      }
+    ])
+  })
+
+  it('rejects invalid withdrawals', async function () {
+    const badPoints = await plugin
+      .makeWithdrawSpend({ type: 'savers', wallet: btcWallet, basisPoints: 0 })
+      .catch((error: unknown) => error)
+    assert.instanceOf(badPoints, Error)
+    assert.equal(
+      badPoints.message,
+      'Basis points 0 must be between 1 and 10000'
+    )
+
+    const badSide = await plugin
+      .makeWithdrawSpend({
+        type: 'savers',
+        wallet: btcWallet,
+        basisPoints: 10000,
+        withdrawAs: 'rune'
+      })
+      .catch((error: unknown) => error)
+    assert.instanceOf(badSide, Error)
+    assert.equal(
+      badSide.message,
+      'Thorchain savers only pay out the saved asset'
+    )
+  })
+})
@@ -0,0 +1,43 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import { makeTombSwapPlugin } from '../src/swap/defi/uni-v2-based/plugins/tombSwap'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+describe(`tombSwap`, function () {
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  it('describes itself', function () {
+    const plugin = makeTombSwapPlugin(makeFakePluginOptions([]))
+    assert.equal(plugin.swapInfo.pluginId, 'tombSwap')
+    assert.equal(plugin.swapInfo.displayName, 'TombSwap')
+    assert.isTrue(plugin.swapInfo.isDex)
+  })
+
+  it('only swaps on Fantom', async function () {
+    const plugin = makeTombSwapPlugin(makeFakePluginOptions([]))
+    const error = await plugin
+      .fetchSwapQuote(
+        {
+          fromWallet: ethWallet,
+          toWallet: ethWallet,
+          fromCurrencyCode: 'ETH',
+          toCurrencyCode: 'USDC',
+          nativeAmount: '1000000000000000000',
+          quoteFor: 'from'
+        },
+        undefined,
+        {}
+      )
+      .catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.equal(error.name, 'SwapCurrencyError')
+  })
+})
@@ -0,0 +1,202 @@
+import { assert } from 'chai'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { Contract, ethers } from 'ethers'
+import { before, describe, it } from 'mocha'
+
+import {
+  makeUniV2RouterContract,
+  makeWrappedNativeContract
+} from '../src/swap/defi/uni-v2-based/uniV2Contracts'
+import {
+  getPathFeeRate,
+  makeUniV2Plugin
+} from '../src/swap/defi/uni-v2-based/uniV2Plugin'
+import {
+  getBestSwapRoute,
+  getSwapTransactions
+} from '../src/swap/defi/uni-v2-based/uniV2Utils'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakePluginOptions } from './fakeIo'
+import { makeFakeWallet } from './fakeWallet'
+
+const makeTestSwapPlugin = makeUniV2Plugin({
+  swapInfo: {
+    pluginId: 'testSwap',
+    isDex: true,
+    displayName: 'TestSwap',
+    supportEmail: 'support@edge.app'
+  },
+  chainPluginId: 'fantom',
+  rpcUrls: ['https://rpc.example.com'],
+  routerAddress: '0x0000000000000000000000000000000000000001',
+  wrappedNativeAddress: '0x0000000000000000000000000000000000000002',
+  baseTokenAddresses: [],
+  feeRate: '0.003'
+})
+
+describe(`makeUniV2Plugin`, function () {
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  it('uses the configured swap info', function () {
+    const plugin = makeTestSwapPlugin(makeFakePluginOptions([]))
+    assert.equal(plugin.swapInfo.pluginId, 'testSwap')
+    assert.equal(plugin.swapInfo.displayName, 'TestSwap')
+  })
+
+  it('rejects wallets on other chains', async function () {
+    const plugin = makeTestSwapPlugin(makeFakePluginOptions([]))
+    const error = await plugin
+      .fetchSwapQuote(
+        {
+          fromWallet: ethWallet,
+          toWallet: ethWallet,
+          fromCurrencyCode: 'ETH',
+          toCurrencyCode: 'USDC',
+          nativeAmount: '1000000000000000000',
+          quoteFor: 'from'
+        },
+        undefined,
+        {}
+      )
+      .catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.equal(error.name, 'SwapCurrencyError')
+  })
+})
+
+describe(`getBestSwapRoute`, function () {
+  // Pools: A-B, A-C & C-B, where the hop through C pays better.
+  // Each pool pays out `rate` for every unit going in:
+  const rates: { [pair: string]: number } = { AB: 2, AC: 3, CB: 1 }
+  const getRate = (from: string, to: string): number => {
+    const rate = rates[from + to] ?? 1 / rates[to + from]
+    if (isNaN(rate)) throw new Error('Pool does not exist')
+    return rate
+  }
+  const fakeRouter = ({
+    async getAmountsOut(amount: string, path: string[]): Promise<number[]> {
+      const out = [Number(amount)]
+      for (let i = 1; i < path.length; ++i) {
+        out.push(out[i - 1] * getRate(path[i - 1], path[i]))
+      }
+      return out
+    },
+    async getAmountsIn(amount: string, path: string[]): Promise<number[]> {
+      const out = [Number(amount)]
+      for (let i = path.length - 1; i > 0; --i) {
+        out.unshift(out[0] / getRate(path[i - 1], path[i]))
+      }
+      return out
+    }
+  } as unknown) as Contract
+
+  it('picks the hop with the most output', async function () {
+    const route = await getBestSwapRoute(
+      fakeRouter,
+      'from',
+      '100',
+      'A',
+      'B',
+      ['C', 'D'],
+      false
+    )
+    assert.deepEqual(route, {
+      path: ['A', 'C', 'B'],
+      amountToSwap: '100',
+      expectedAmountOut: '300'
+    })
+  })
+
+  it('picks the hop needing the least input', async function () {
+    const route = await getBestSwapRoute(
+      fakeRouter,
+      'to',
+      '300',
+      'A',
+      'B',
+      ['C'],
+      false
+    )
+    assert.deepEqual(route.path, ['A', 'C', 'B'])
+    assert.equal(route.amountToSwap, '100')
+  })
+
+  it('reports a missing pool', async function () {
+    const error = await getBestSwapRoute(
+      fakeRouter,
+      'from',
+      '100',
+      'B',
+      'D',
+      ['C'],
+      false
+    ).catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.equal(error.message, 'Pool does not exist')
+  })
+})
+
+describe(`getPathFeeRate`, function () {
+  it('compounds the LP fee across hops', function () {
+    assert.equal(getPathFeeRate('0.003', 1), '0.003')
+    assert.equal(getPathFeeRate('0.003', 2), '0.005991')
+  })
+})
+
+describe(`getSwapTransactions`, function () {
+  class FakeDownProvider extends ethers.providers.StaticJsonRpcProvider {
+    constructor() {
+      super('https://rpc.example.com', 250)
+    }
+
+    async send(method: string, params: unknown[]): Promise<unknown> {
+      throw new Error('Server is down')
+    }
+  }
+
+  it('approves if the allowance check fails', async function () {
+    const provider = new FakeDownProvider()
+    const tokenA = '0x0000000000000000000000000000000000000003'
+    const tokenB = '0x0000000000000000000000000000000000000004'
+    const { approvalTx, swapTx, revokeTx } = await getSwapTransactions(
+      provider,
+      {
+        fromTokenAddress: tokenA,
+        toTokenAddress: tokenB,
+        isWrappingSwap: false,
+        isFromNativeCurrency: false,
+        isToNativeCurrency: false,
+        isFromWrappedCurrency: false,
+        isToWrappedCurrency: false
+      },
+      [tokenA, tokenB],
+      makeUniV2RouterContract(
+        provider,
+        '0x0000000000000000000000000000000000000001'
+      ),
+      makeWrappedNativeContract(
+        provider,
+        '0x0000000000000000000000000000000000000002'
+      ),
+      '1000',
+      '2000',
+      '0x0d73358506663d484945ba85d0cd435ad610b0a0',
+      '0x0d73358506663d484945ba85d0cd435ad610b0a0',
+      {
+        slippage: '0.01',
+        deadlineMs: 60000,
+        unlimitedApproval: false,
+        revokeApproval: false
+      },
+      1700000000,
+      '20'
+    )
+    assert.equal(approvalTx?.to, tokenA)
+    assert.isDefined(swapTx.data)
+    assert.isUndefined(revokeTx)
+  })
+})
@@ -1,7 +1,19 @@
 import { assert } from 'chai'
-import { describe, it } from 'mocha'
+import { EdgeCurrencyWallet } from 'edge-core-js'
+import { before, describe, it } from 'mocha'
 
-import { makeQueryParams } from '../src/util/utils'
+import { convertRequest, makeQueryParams } from '../src/util/utils'
+import { btcCurrencyInfo } from './fakeBtcInfo'
+import { ethCurrencyInfo } from './fakeEthInfo'
+import { makeFakeWallet } from './fakeWallet'
+
+const USDT_TOKEN_ID = 'dac17f958d2ee523a2206206994597c13d831ec7'
+
+const swapInfo = {
+  pluginId: 'test',
+  displayName: 'Test',
+  supportEmail: 'support@edge.app'
+}
 
 describe(`makeQueryParams`, function () {
   it('simple query params', function () {
@@ -17,3 +29,81 @@ describe(`makeQueryParams`, function () {
     )
   })
 })
+
+describe(`convertRequest`, function () {
+  let btcWallet: EdgeCurrencyWallet
+  let ethWallet: EdgeCurrencyWallet
+
+  before(async function () {
+    btcWallet = await makeFakeWallet(btcCurrencyInfo)
+    ethWallet = await makeFakeWallet(ethCurrencyInfo)
+  })
+
+  it('fills in codes from tokenIds', function () {
+    const request = convertRequest(
+      {
+        fromWallet: btcWallet,
+        toWallet: ethWallet,
+        toTokenId: USDT_TOKEN_ID,
+        nativeAmount: '100000000',
+        quoteFor: 'from'
+      },
+      swapInfo
+    )
+    assert.equal(request.fromCurrencyCode, 'BTC')
+    assert.isUndefined(request.fromTokenId)
+    assert.equal(request.toCurrencyCode, 'USDT')
+    assert.equal(request.toTokenId, USDT_TOKEN_ID)
+  })
+
+  it('fills in tokenIds from codes', function () {
+    const request = convertRequest(
+      {
+        fromWallet: ethWallet,
+        toWallet: btcWallet,
+        fromCurrencyCode: 'USDT',
+        toCurrencyCode: 'BTC',
+        nativeAmount: '1000000',
+        quoteFor: 'from'
+      },
+      swapInfo
+    )
+    assert.equal(request.fromTokenId, USDT_TOKEN_ID)
+    assert.isUndefined(request.toTokenId)
+  })
+
+  it('rejects unknown tokenIds', function () {
+    assert.throws(
+      () =>
+        convertRequest(
+          {
+            fromWallet: btcWallet,
+            toWallet: ethWallet,
+            toTokenId: 'badf00d',
+            nativeAmount: '100000000',
+            quoteFor: 'from'
+          },
+          swapInfo
+        ),
+      'Test does not support BTC to badf00d'
+    )
+  })
+
+  it('rejects unknown currency codes', function () {
+    assert.throws(
+      () =>
+        convertRequest(
+          {
+            fromWallet: ethWallet,
+            toWallet: btcWallet,
+            fromCurrencyCode: 'NOPE',
+            toCurrencyCode: 'BTC',
+            nativeAmount: '1000000',
+            quoteFor: 'from'
+          },
+          swapInfo
+        ),
+      'Test does not support NOPE to BTC'
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import { assert } from 'chai'
+import { Contract } from 'ethers'
+import { describe, it } from 'mocha'
+
+import {
+  getBestVelodromeRoute,
+  getVelodromeAmountsIn,
+  VelodromeRoute
+} from '../src/swap/defi/uni-v2-based/plugins/velodrome'
+
+interface FakePool {
+  reserveA: number
+  reserveB: number
+}
+
+/**
+ * Makes a router with constant-product pools and a 0.2% fee.
+ * Pools are keyed by `${tokenA}-${tokenB}-${stable}`.
+ */
+function makeFakeRouter(pools: { [key: string]: FakePool }): Contract {
+  const getPool = (
+    route: VelodromeRoute
+  ): { reserveIn: number; reserveOut: number } => {
+    const { from, to, stable } = route
+    const pool = pools[`${from}-${to}-${String(stable)}`]
+    if (pool != null) {
+      return { reserveIn: pool.reserveA, reserveOut: pool.reserveB }
+    }
+    const reverse = pools[`${to}-${from}-${String(stable)}`]
+    if (reverse != null) {
+      return { reserveIn: reverse.reserveB, reserveOut: reverse.reserveA }
+    }
+    throw new Error('Pool does not exist')
+  }
+
+  const fakeRouter = {
+    async getAmountsOut(
+      amountIn: string,
+      routes: VelodromeRoute[]
+    ): Promise<number[]> {
+      const out = [Number(amountIn)]
+      for (const route of routes) {
+        const { reserveIn, reserveOut } = getPool(route)
+        const amount = out[out.length - 1] * 0.998
+        out.push(Math.floor((amount * reserveOut) / (reserveIn + amount)))
+      }
+      return out
+    }
+  }
+  return (fakeRouter as unknown) as Contract
+}
+
+describe(`getVelodromeAmountsIn`, function () {
+  const fakeRouter = makeFakeRouter({
+    'A-B-false': { reserveA: 1e12, reserveB: 2e12 }
+  })
+
+  it('covers the requested output', async function () {
+    const {
+      amountToSwap,
+      expectedAmountOut
+    } = await getVelodromeAmountsIn(fakeRouter, '1000000000', [
+      { from: 'A', to: 'B', stable: false }
+    ])
+    assert.isAtLeast(Number(expectedAmountOut), 1000000000)
+    assert.isAtMost(Number(expectedAmountOut), 1000200000)
+
+    // The input shouldn't be much more than the exact answer:
+    const exact = (((1e12 / (2e12 - 1e9)) * 1e9) / 0.998) * 1.0002
+    assert.isAtMost(Number(amountToSwap), exact)
+  })
+
+  it('fails on missing pools', async function () {
+    const error = await getVelodromeAmountsIn(fakeRouter, '1000', [
+      { from: 'A', to: 'C', stable: false }
+    ]).catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.equal(error.message, 'Pool does not exist')
+  })
+})
+
+describe(`getBestVelodromeRoute`, function () {
+  const feeRates = { stable: '0.0005', volatile: '0.003' }
+
+  it('picks the deeper of the stable & volatile pools', async function () {
+    const router = makeFakeRouter({
+      'A-B-true': { reserveA: 1e15, reserveB: 1e15 },
+      'A-B-false': { reserveA: 1e9, reserveB: 1e9 }
+    })
+    const route = await getBestVelodromeRoute(
+      [{ router, hopTokenAddresses: [], feeRates }],
+      'from',
+      '1000000',
+      'A',
+      'B'
+    )
+    assert.deepEqual(route.routes, [{ from: 'A', to: 'B', stable: true }])
+  })
+
+  it('routes through hop tokens', async function () {
+    const router = makeFakeRouter({
+      'A-B-false': { reserveA: 1e7, reserveB: 1e7 },
+      'A-W-false': { reserveA: 1e15, reserveB: 1e15 },
+      'W-B-true': { reserveA: 1e15, reserveB: 1e15 }
+    })
+    const route = await getBestVelodromeRoute(
+      [{ router, hopTokenAddresses: ['W', 'B'], feeRates }],
+      'from',
+      '1000000',
+      'A',
+      'B'
+    )
+    assert.deepEqual(route.routes, [
+      { from: 'A', to: 'W', stable: false },
+      { from: 'W', to: 'B', stable: true }
+    ])
+    // Each leg pays its own pool's fee:
+    assert.equal(route.feeRate, '0.0034985')
+  })
+
+  it('picks the best router for exact-output quotes', async function () {
+    const v1 = makeFakeRouter({
+      'A-B-false': { reserveA: 1e9, reserveB: 1e9 }
+    })
+    const v2 = makeFakeRouter({
+      'A-B-false': { reserveA: 1e15, reserveB: 1e15 }
+    })
+    const route = await getBestVelodromeRoute(
+      [
+        { router: v1, hopTokenAddresses: [], feeRates },
+        { router: v2, hopTokenAddresses: [], factoryAddress: 'F', feeRates }
+      ],
+      'to',
+      '1000000',
+      'A',
+      'B'
+    )
+    assert.equal(route.router, v2)
+    assert.deepEqual(route.routes, [
+      { from: 'A', to: 'B', stable: false, factory: 'F' }
+    ])
+    assert.isAtLeast(Number(route.expectedAmountOut), 1000000)
+  })
+
+  it('fails without any pools', async function () {
+    const router = makeFakeRouter({})
+    const error = await getBestVelodromeRoute(
+      [{ router, hopTokenAddresses: ['W'], feeRates }],
+      'from',
+      '1000000',
+      'A',
+      'B'
+    ).catch((error: unknown) => error)
+    assert.instanceOf(error, Error)
+    assert.equal(error.message, 'Failed to calculate amounts')
+  })
+})